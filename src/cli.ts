@@ -1,171 +1,279 @@
+#!/usr/bin/env node
+// Tickets CLI. With a subcommand it runs once and exits (for cron and CI); without one it opens
+// the interactive menu. Run `tickets help` for the subcommands.
+import fs from "fs";
+import path from "path";
 import * as readline from "readline/promises";
-import { WalletBuilder } from "@midnight-ntwrk/wallet";
-import { findDeployedContract } from "@midnight-ntwrk/midnight-js-contracts";
-import { httpClientProofProvider } from "@midnight-ntwrk/midnight-js-http-client-proof-provider";
-import { indexerPublicDataProvider } from "@midnight-ntwrk/midnight-js-indexer-public-data-provider";
-import { NodeZkConfigProvider } from "@midnight-ntwrk/midnight-js-node-zk-config-provider";
-import { levelPrivateStateProvider } from "@midnight-ntwrk/midnight-js-level-private-state-provider";
-import {
-    NetworkId,
-    setNetworkId,
-    getZswapNetworkId,
-    getLedgerNetworkId
-} from "@midnight-ntwrk/midnight-js-network-id";
-import { createBalancedTx } from "@midnight-ntwrk/midnight-js-types";
-import { Transaction } from "@midnight-ntwrk/ledger";
-import { Transaction as ZswapTransaction } from "@midnight-ntwrk/zswap";
+import { parseArgs } from "util";
 import { WebSocket } from "ws";
-import * as path from "path";
-import * as fs from "fs";
-import * as Rx from "rxjs";
+import {
+    CommandError,
+    EXIT,
+    Session,
+    checkTicket,
+    initContract,
+    issueTickets,
+    ledgerSummary,
+    openReader,
+    openSession,
+    parseTierOption,
+    publicationOf,
+    publishPending,
+    readWalletSeed,
+    redeemTicket,
+    ticketFromInput
+} from "./tickets/session.js";
+import { DEFAULT_ROOT_HISTORY, MAX_ROOT_HISTORY, TicketSystem } from "./tickets/state.js";
+import { NetworkProfile, selectNetwork } from "./tickets/network.js";
+import { isHashAlgorithm } from "./lib/hash.js";
+import { bundleEntries, manifestCsv, payloadList } from "./lib/ticket-bundle.js";
 
 // Fix WebSocket for Node.js environment
 // @ts-ignore
 globalThis.WebSocket = WebSocket;
 
-// Configure for Midnight Testnet
-setNetworkId(NetworkId.TestNet);
+const USAGE = `Usage: tickets <command> [options]
 
-// Testnet connection endpoints
-const TESTNET_CONFIG = {
-    indexer: "https://indexer.testnet-02.midnight.network/api/v1/graphql",
-    indexerWS: "wss://indexer.testnet-02.midnight.network/api/v1/graphql/ws",
-    node: "https://rpc.testnet-02.midnight.network",
-    proofServer: "http://127.0.0.1:6300"
-};
+Commands:
+  init --max-age-hours <h> --depth <d> [--hash sha256|poseidon] [--root-history <n>]
+                                                                  set the contract's parameters
+  issue [--count <n>] [--tier <t>] [--no-publish] [--export <dir>]
+                                                                  issue tickets in one batch, then publish their root
+  redeem (--payload <p> | --secret <s> --issued-at <ms>) [--required-tier <t>]
+                                                                  prove and record a redemption on chain
+  verify (--payload <p> | --secret <s> --issued-at <ms>) [--required-tier <t>]
+                                                                  check a ticket without redeeming it
+  publish                                                         publish pending tickets now
+  state                                                           show the on-chain state
+  help                                                            show this text
 
-async function main() {
-    const rl = readline.createInterface({
-        input: process.stdin,
-        output: process.stdout
-    });
+Options:
+  --json                 print one JSON object on stdout
+  --seed-file <path>     wallet seed file (else WALLET_SEED_FILE, else WALLET_SEED)
+  --deployment <path>    deployment file (default deployment.json)
+  --network <name>       network profile: undeployed, testnet, mainnet or one from networks.json
+                         (else TICKETS_NETWORK, else testnet)
 
-    console.log("Ticketing Demo CLI (Midnight)\n");
+Without a command the interactive menu starts (it takes --network, --seed-file and --deployment too). Exit codes: 0 ok, 1 rejected, 2 usage, 3 unavailable.`;
+
+const OPTIONS = {
+    json: { type: "boolean" },
+    "seed-file": { type: "string" },
+    deployment: { type: "string" },
+    network: { type: "string" },
+    "max-age-hours": { type: "string" },
+    depth: { type: "string" },
+    hash: { type: "string" },
+    "root-history": { type: "string" },
+    count: { type: "string" },
+    tier: { type: "string" },
+    "no-publish": { type: "boolean" },
+    export: { type: "string" },
+    payload: { type: "string" },
+    secret: { type: "string" },
+    "issued-at": { type: "string" },
+    "required-tier": { type: "string" }
+} as const;
 
+type Options = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>["values"];
+
+function positiveInt(raw: string | undefined, name: string, fallback?: number): number {
+    if (raw === undefined && fallback !== undefined) return fallback;
+    const n = raw !== undefined && /^\d+$/.test(raw) ? Number(raw) : NaN;
+    if (!Number.isSafeInteger(n) || n <= 0) throw new CommandError(`--${name} must be a positive integer`, EXIT.usage);
+    return n;
+}
+
+// payloads.txt and manifest.csv for the batch (the printable PDF is the Issuer page's)
+function exportBundle(dir: string, tickets: Parameters<typeof bundleEntries>[0], maxAgeMs: number): string[] {
+    const entries = bundleEntries(tickets, { maxAgeMs });
+    fs.mkdirSync(dir, { recursive: true });
+    const first = tickets[0].index;
+    const files = [
+        path.join(dir, `tickets-${first}-payloads.txt`),
+        path.join(dir, `tickets-${first}-manifest.csv`)
+    ];
+    fs.writeFileSync(files[0], payloadList(entries), { mode: 0o600 });
+    fs.writeFileSync(files[1], manifestCsv(entries), { mode: 0o600 });
+    return files;
+}
+
+// --network, else TICKETS_NETWORK, else testnet; also sets the Midnight libraries' network id
+function networkFor(opts: Options): NetworkProfile {
     try {
-        // Check for deployment file
-        if (!fs.existsSync("deployment.json")) {
-            console.error("No deployment.json found! Run npm run deploy first.");
-            process.exit(1);
-        }
+        return selectNetwork(opts.network);
+    } catch (e: any) {
+        throw new CommandError(e?.message || String(e), EXIT.usage);
+    }
+}
 
-        const deployment = JSON.parse(fs.readFileSync("deployment.json", "utf-8"));
-        console.log(`Contract: ${deployment.contractAddress}\n`);
-
-        // Get wallet seed
-        const walletSeed = await rl.question("Enter your wallet seed: ");
-
-        console.log("\nConnecting to Midnight network...");
-
-        // Build wallet
-        const wallet = await WalletBuilder.buildFromSeed(
-            TESTNET_CONFIG.indexer,
-            TESTNET_CONFIG.indexerWS,
-            TESTNET_CONFIG.proofServer,
-            TESTNET_CONFIG.node,
-            walletSeed,
-            getZswapNetworkId(),
-            "info"
-        );
-
-        wallet.start();
-
-        // Wait for sync
-        await Rx.firstValueFrom(
-            wallet.state().pipe(Rx.filter((s) => s.syncProgress?.synced === true))
-        );
-
-        // Load contract
-        const contractPath = path.join(process.cwd(), "contracts");
-        const contractModulePath = path.join(
-            contractPath,
-            "managed",
-            "hello-world",
-            "contract",
-            "index.cjs"
-        );
-        const HelloWorldModule = await import(contractModulePath);
-        const contractInstance = new HelloWorldModule.Contract({});
-
-        // Create wallet provider
-        const walletState = await Rx.firstValueFrom(wallet.state());
-
-        const walletProvider = {
-            coinPublicKey: walletState.coinPublicKey,
-            encryptionPublicKey: walletState.encryptionPublicKey,
-            balanceTx(tx: any, newCoins: any) {
-                return wallet
-                    .balanceTransaction(
-                        ZswapTransaction.deserialize(
-                            tx.serialize(getLedgerNetworkId()),
-                            getZswapNetworkId()
-                        ),
-                        newCoins
-                    )
-                    .then((tx) => wallet.proveTransaction(tx))
-                    .then((zswapTx) =>
-                        Transaction.deserialize(
-                            zswapTx.serialize(getZswapNetworkId()),
-                            getLedgerNetworkId()
-                        )
-                    )
-                    .then(createBalancedTx);
-            },
-            submitTx(tx: any) {
-                return wallet.submitTransaction(tx);
+// Subcommands that send transactions need the wallet; the seed never comes from a prompt here
+async function sessionFor(opts: Options, log: (message: string) => void): Promise<Session> {
+    const network = networkFor(opts);
+    const seed = readWalletSeed(opts["seed-file"]);
+    if (!seed) throw new CommandError("No wallet seed: set WALLET_SEED or WALLET_SEED_FILE, or pass --seed-file", EXIT.unavailable);
+    log(`Connecting to ${network.label}...`);
+    try {
+        return await openSession(seed, { network, deploymentFile: opts.deployment, walletLogLevel: "warn", log: message => log(`[publisher] ${message}`) });
+    } catch (e: any) {
+        if (e instanceof CommandError) throw e;
+        throw new CommandError(`Cannot connect: ${e?.message || e}`, EXIT.unavailable);
+    }
+}
+
+// Runs one subcommand; returns the JSON result and the human-readable lines
+async function runCommand(command: string, opts: Options, log: (message: string) => void): Promise<{ result: object; lines: string[] }> {
+    switch (command) {
+        case "init": {
+            const hours = Number(opts["max-age-hours"]);
+            if (!(hours > 0)) throw new CommandError("--max-age-hours must be a positive number", EXIT.usage);
+            const depth = positiveInt(opts.depth, "depth", 16);
+            const hash = opts.hash ?? "sha256";
+            if (!isHashAlgorithm(hash)) throw new CommandError(`Unknown hash algorithm "${hash}" (sha256 or poseidon)`, EXIT.usage);
+            const rootHistorySize = positiveInt(opts["root-history"], "root-history", DEFAULT_ROOT_HISTORY);
+            if (rootHistorySize > MAX_ROOT_HISTORY) throw new CommandError(`--root-history must be at most ${MAX_ROOT_HISTORY}`, EXIT.usage);
+            const maxAgeMs = hours * 60 * 60 * 1000;
+            const session = await sessionFor(opts, log);
+            try {
+                await initContract(session, maxAgeMs, depth, hash, rootHistorySize);
+            } finally {
+                await session.close();
             }
-        };
-
-        // Configure providers
-        const zkConfigPath = path.join(contractPath, "managed", "hello-world");
-        const providers = {
-            privateStateProvider: levelPrivateStateProvider({
-                privateStateStoreName: "hello-world-state"
-            }),
-            publicDataProvider: indexerPublicDataProvider(
-                TESTNET_CONFIG.indexer,
-                TESTNET_CONFIG.indexerWS
-            ),
-            zkConfigProvider: new NodeZkConfigProvider(zkConfigPath),
-            proofProvider: httpClientProofProvider(TESTNET_CONFIG.proofServer),
-            walletProvider: walletProvider,
-            midnightProvider: walletProvider
-        };
-
-        // Connect to contract
-        const deployed: any = await findDeployedContract(providers, {
-            contractAddress: deployment.contractAddress,
-            contract: contractInstance,
-            privateStateId: "helloWorldState",
-            initialPrivateState: {}
-        });
-
-        console.log("Connected to contract\n");
-
-        // Helper: read current on-chain JSON state from message field (or default)
-        async function readOnChainState(): Promise<any> {
+            return { result: { maxAgeMs, depth, hashAlgorithm: hash, rootHistorySize }, lines: ["Initialized on-chain parameters."] };
+        }
+
+        case "issue": {
+            const count = positiveInt(opts.count, "count", 1);
+            const tier = parseTierOption(opts.tier) ?? 0;
+            const session = await sessionFor(opts, log);
             try {
-                const state = await providers.publicDataProvider.queryContractState(
-                    deployment.contractAddress
-                );
-                if (state) {
-                    const ledger = HelloWorldModule.ledger(state.data);
-                    const message = Buffer.from(ledger.message).toString();
-                    try {
-                        return JSON.parse(message);
-                    } catch {
-                        return {};
-                    }
+                await session.sync.ready();
+                const issued = await issueTickets(session, count, tier);
+                const lines = issued.tickets.map(t => `#${t.index} tier ${t.tier ?? 0} issuedAt ${t.issuedAt} secret ${t.secret}\n  ${t.payload}`);
+                const exported = opts.export ? exportBundle(opts.export, issued.tickets, issued.maxAgeMs) : undefined;
+                if (exported) lines.push(`Export bundle: ${exported.join(", ")}`);
+                if (opts["no-publish"]) {
+                    lines.push(`Pending publication: ${issued.pending} ticket(s).`);
+                    return { result: { tickets: issued.tickets, exported, published: false, anchored: issued.anchored, pending: issued.pending }, lines };
                 }
-            } catch { }
-            return {};
+                // A one-shot run has no later batch, so the root goes out before exiting
+                const publication = await publishPending(session);
+                const result = { tickets: issued.tickets, exported, published: !publication.error, ...publication };
+                if (publication.error) throw Object.assign(new CommandError(`Issued, but publishing failed: ${publication.error}`), { result });
+                lines.push(`${publication.anchored} ticket(s) anchored, ${publication.pending} pending.`);
+                return { result, lines };
+            } finally {
+                await session.close();
+            }
+        }
+
+        case "redeem": {
+            const ticket = ticketFromInput({ payload: opts.payload, secret: opts.secret, issuedAt: opts["issued-at"] });
+            const requiredTier = parseTierOption(opts["required-tier"], "Required tier");
+            const session = await sessionFor(opts, log);
+            try {
+                const redeemed = await redeemTicket(session, ticket, requiredTier);
+                return { result: redeemed, lines: [`Redeemed ticket #${redeemed.index}. Nullifier ${redeemed.nullifier} recorded on-chain.`] };
+            } finally {
+                await session.close();
+            }
+        }
+
+        case "verify": {
+            const ticket = ticketFromInput({ payload: opts.payload, secret: opts.secret, issuedAt: opts["issued-at"] });
+            const requiredTier = parseTierOption(opts["required-tier"], "Required tier");
+            const check = await checkTicket(await openReader(networkFor(opts), opts.deployment), ticket, requiredTier);
+            const result = { valid: check.ok, reason: check.ok ? null : check.reason, index: check.record.index, tier: check.record.tier ?? 0, nullifier: check.nullifier };
+            if (!check.ok) throw Object.assign(new CommandError(`Invalid: ${check.reason}`), { result });
+            return { result, lines: [`Valid: ticket #${check.record.index}, tier ${check.record.tier ?? 0}, not yet used.`] };
         }
 
-        async function writeOnChainState(obj: any) {
-            const json = JSON.stringify(obj);
-            await deployed.callTx.storeMessage(json);
+        case "publish": {
+            const session = await sessionFor(opts, log);
+            try {
+                const publication = await publishPending(session);
+                if (publication.error) throw Object.assign(new CommandError(publication.error), { result: publication });
+                return { result: publication, lines: [`${publication.anchored} ticket(s) anchored, ${publication.pending} pending.`] };
+            } finally {
+                await session.close();
+            }
         }
 
+        case "state": {
+            const reader = await openReader(networkFor(opts), opts.deployment);
+            const onchain = await reader.readOnChainState();
+            if (!onchain) throw new CommandError("On-chain state unavailable", EXIT.unavailable);
+            const publication = publicationOf(TicketSystem.fromLocal(), onchain);
+            const result = { network: reader.network.name, contractAddress: reader.deployment.contractAddress, onchain: ledgerSummary(onchain), local: publication };
+            return {
+                result,
+                lines: [JSON.stringify(result.onchain, null, 2), `Local tickets: ${publication.anchored} anchored, ${publication.pending} pending publication`]
+            };
+        }
+
+        default:
+            throw new CommandError(`Unknown command "${command}"\n\n${USAGE}`, EXIT.usage);
+    }
+}
+
+async function runOnce(argv: string[]): Promise<number> {
+    let opts: Options;
+    let command: string;
+    try {
+        const parsed = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+        opts = parsed.values;
+        // Options alone (e.g. --network) still open the menu
+        if (parsed.positionals.length !== 1 && !(parsed.positionals.length === 0 && !opts.json)) {
+            throw new Error(`Expected one command, got "${parsed.positionals.join(" ")}"`);
+        }
+        command = parsed.positionals[0];
+    } catch (e: any) {
+        console.error(`${e?.message || e}\n\n${USAGE}`);
+        return EXIT.usage;
+    }
+    if (command === undefined) {
+        await main(opts);
+        return EXIT.ok;
+    }
+    if (command === "help") {
+        console.log(USAGE);
+        return EXIT.ok;
+    }
+    // With --json, stdout carries only the result; progress goes to stderr
+    const log = (message: string) => opts.json ? console.error(message) : console.log(message);
+    try {
+        const { result, lines } = await runCommand(command, opts, log);
+        if (opts.json) console.log(JSON.stringify({ ok: true, command, ...result }));
+        else for (const line of lines) console.log(line);
+        return EXIT.ok;
+    } catch (e: any) {
+        const error = e instanceof CommandError ? e : new CommandError(e?.message || String(e), EXIT.unavailable);
+        if (opts.json) console.log(JSON.stringify({ ok: false, command, reason: error.message, ...(e as any)?.result }));
+        else console.error(error.message);
+        return error.exitCode;
+    }
+}
+
+async function main(opts: Options) {
+    const rl = readline.createInterface({
+        input: process.stdin,
+        output: process.stdout
+    });
+
+    console.log("Ticketing Demo CLI (Midnight)\n");
+
+    let session: Session | null = null;
+    try {
+        const network = networkFor(opts);
+        // Get wallet seed (--seed-file / WALLET_SEED / WALLET_SEED_FILE skip the prompt)
+        const walletSeed = readWalletSeed(opts["seed-file"]) ?? await rl.question("Enter your wallet seed: ");
+
+        console.log(`\nConnecting to ${network.label}...`);
+        session = await openSession(walletSeed, { network, deploymentFile: opts.deployment, log: message => console.log(`\n[publisher] ${message}`) });
+        const { publisher } = session;
+        publisher.start();
+        console.log(`Connected to contract ${session.deployment.contractAddress}\n`);
+
         // Main menu loop
         let running = true;
         while (running) {
@@ -174,96 +282,101 @@ async function main() {
             console.log("2. Issue a ticket");
             console.log("3. Redeem a ticket");
             console.log("4. Show on-chain state");
-            console.log("5. Exit");
+            console.log("5. Publish pending tickets now");
+            console.log("6. Exit");
 
             const choice = await rl.question("\nYour choice: ");
 
-            switch (choice) {
-                case "1": {
-                    // Initialize: set maxAge and empty structures
-                    console.log("\nInitialize ticket system");
-                    const ageHours = await rl.question("Max age in hours (e.g., 24): ");
-                    const maxAgeMs = Number(ageHours) * 60 * 60 * 1000;
-                    const depthAns = await rl.question("Merkle depth (e.g., 16): ");
-                    const depth = Number(depthAns) || 16;
-                    const onchain = { version: 1, root: "", maxAgeMs, nullifiers: [], leafCount: 0, depth };
-                    await writeOnChainState(onchain);
-                    console.log("Initialized on-chain parameters.\n");
-                    break;
-                }
+            try {
+                switch (choice) {
+                    case "1": {
+                        // Initialize: set maxAge and empty structures
+                        console.log("\nInitialize ticket system");
+                        const ageHours = await rl.question("Max age in hours (e.g., 24): ");
+                        const maxAgeMs = Number(ageHours) * 60 * 60 * 1000;
+                        const depthAns = await rl.question("Merkle depth (e.g., 16): ");
+                        const depth = Number(depthAns) || 16;
+                        const hashAns = (await rl.question("Hash (sha256/poseidon, default sha256): ")).trim() || "sha256";
+                        if (!isHashAlgorithm(hashAns)) { console.log("Unknown hash algorithm.\n"); break; }
+                        const historyAns = await rl.question(`Recent roots redeem accepts (1-${MAX_ROOT_HISTORY}, default ${DEFAULT_ROOT_HISTORY}): `);
+                        const rootHistorySize = Number(historyAns) || DEFAULT_ROOT_HISTORY;
+                        if (!Number.isInteger(rootHistorySize) || rootHistorySize < 1 || rootHistorySize > MAX_ROOT_HISTORY) { console.log("Invalid root history size.\n"); break; }
+                        await initContract(session, maxAgeMs, depth, hashAns, rootHistorySize);
+                        console.log("Initialized on-chain parameters.\n");
+                        break;
+                    }
 
-                case "2": {
-                    // Issue a ticket: update local tree and push new root on-chain
-                    const { TicketSystem } = await import("./tickets/state.js");
-                    let system = TicketSystem.fromLocal();
-                    let onchain = await readOnChainState();
-                    if (!system) {
-                        if (!onchain.depth || !onchain.maxAgeMs) {
-                            console.log("Please initialize first (option 1).\n");
-                            break;
-                        }
-                        system = new TicketSystem(onchain.depth, onchain.maxAgeMs);
+                    case "2": {
+                        // Issue a ticket into the local tree; its root goes on chain with the next batch
+                        const tier = parseTierOption(await rl.question("Tier (0 = general admission, default 0): ")) ?? 0;
+                        const { tickets: [rec], pending } = await issueTickets(session, 1, tier);
+                        console.log("Issued 1 ticket:");
+                        console.log(`  secret: ${rec.secret}`);
+                        console.log(`  issuedAt: ${rec.issuedAt}`);
+                        console.log(`  index: ${rec.index}`);
+                        console.log(`  tier: ${rec.tier ?? 0}`);
+                        console.log(`Pending publication: ${pending} ticket(s); a root goes out per ${publisher.batchSize} tickets or every ${publisher.intervalMs / 1000}s (option 5 publishes now).\n`);
+                        publisher.notify();
+                        break;
                     }
-                    const rec = system.issueTicket();
-                    onchain = await readOnChainState();
-                    onchain.root = system.getRoot();
-                    onchain.leafCount = system.getLeafCount();
-                    await writeOnChainState(onchain);
-                    console.log("Issued 1 ticket:");
-                    console.log(`  secret: ${rec.secret}`);
-                    console.log(`  issuedAt: ${rec.issuedAt}`);
-                    console.log(`  index: ${rec.index}`);
-                    console.log("Updated on-chain root.\n");
-                    break;
-                }
 
-                case "3": {
-                    // Redeem: user supplies secret and issuedAt; verify against on-chain root and nullifiers
-                    const secret = await rl.question("Ticket secret: ");
-                    const issuedAtStr = await rl.question("IssuedAt (ms): ");
-                    const issuedAt = Number(issuedAtStr);
-                    const { TicketSystem, verifyRedemption, nullifierFromSecret } = await import("./tickets/state.js");
-                    const system = TicketSystem.fromLocal();
-                    if (!system) { console.log("Local ticket data not found. Issue a ticket first.\n"); break; }
-                    const rec = system.getRecords().find(r => r.secret === secret && r.issuedAt === issuedAt);
-                    if (!rec) { console.log("Ticket not found locally.\n"); break; }
-                    const proof = system.generateProof(rec);
-                    const onchain = await readOnChainState();
-                    const attempt = { secret, issuedAt, proof, nullifier: nullifierFromSecret(secret) } as any;
-                    const result = verifyRedemption(onchain, attempt, Date.now());
-                    if (!result.ok) { console.log(`Redeem failed: ${result.reason}\n`); break; }
-                    // Append nullifier on-chain
-                    onchain.nullifiers = onchain.nullifiers || [];
-                    onchain.nullifiers.push(attempt.nullifier);
-                    await writeOnChainState(onchain);
-                    console.log("Redeem success. Nullifier recorded on-chain.\n");
-                    break;
-                }
+                    case "3": {
+                        // Redeem: user supplies secret and issuedAt; verify against on-chain root and nullifiers
+                        const secret = await rl.question("Ticket secret: ");
+                        const issuedAt = await rl.question("IssuedAt (ms): ");
+                        // Gate policy: prove the ticket is of this tier without disclosing anything else
+                        const requiredTier = parseTierOption(await rl.question("Required tier (blank = any): "));
+                        await redeemTicket(session, ticketFromInput({ secret, issuedAt }), requiredTier);
+                        console.log("Redeem success. Nullifier recorded on-chain by the redeem proof.\n");
+                        break;
+                    }
 
-                case "4": {
-                    const onchain = await readOnChainState();
-                    console.log("\nOn-chain state:");
-                    console.log(JSON.stringify(onchain, null, 2));
-                    console.log("");
-                    break;
-                }
+                    case "4": {
+                        const onchain = await session.readOnChainState();
+                        console.log("\nOn-chain state:");
+                        console.log(JSON.stringify(ledgerSummary(onchain), null, 2));
+                        const { anchored, pending } = publicationOf(TicketSystem.fromLocal(), onchain);
+                        console.log(`Local tickets: ${anchored} anchored, ${pending} pending publication`);
+                        const { lastError } = publisher.status();
+                        if (lastError) console.log(`Publisher: ${lastError}`);
+                        console.log("");
+                        break;
+                    }
 
-                case "5":
-                    running = false;
-                    console.log("\nGoodbye!");
-                    break;
+                    case "5": {
+                        const { anchored, pending, error } = await publishPending(session);
+                        console.log(error ? `${error}\n` : `${anchored} ticket(s) anchored, ${pending} pending.\n`);
+                        break;
+                    }
 
-                default:
-                    console.log("Invalid choice. Please enter 1-5.\n");
+                    case "6": {
+                        // Don't leave issued tickets unpublished
+                        if (publicationOf(TicketSystem.fromLocal(), publisher.confirmed()).pending > 0) {
+                            console.log("Publishing pending tickets before exit...");
+                            await publisher.flush();
+                        }
+                        running = false;
+                        console.log("\nGoodbye!");
+                        break;
+                    }
+
+                    default:
+                        console.log("Invalid choice. Please enter 1-6.\n");
+                }
+            } catch (e: any) {
+                if (!(e instanceof CommandError)) throw e;
+                console.log(`${e.message}\n`);
             }
         }
-
-        // Clean up
-        await wallet.close();
-    } catch (error) {
-        console.error("\nError:", error);
+    } catch (error: any) {
+        console.error("\nError:", error instanceof CommandError ? error.message : error);
     } finally {
+        await session?.close();
         rl.close();
     }
 }
-main().catch(console.error);
\ No newline at end of file
+
+runOnce(process.argv.slice(2)).then(code => process.exit(code), e => {
+    console.error(e);
+    process.exit(EXIT.unavailable);
+});
@@ -1,39 +1,34 @@
 import { WalletBuilder } from "@midnight-ntwrk/wallet";
 import { deployContract } from "@midnight-ntwrk/midnight-js-contracts";
-import { httpClientProofProvider } from "@midnight-ntwrk/midnight-js-http-client-proof-provider";
-import { indexerPublicDataProvider } from "@midnight-ntwrk/midnight-js-indexer-public-data-provider";
-import { NodeZkConfigProvider } from "@midnight-ntwrk/midnight-js-node-zk-config-provider";
-import { levelPrivateStateProvider } from "@midnight-ntwrk/midnight-js-level-private-state-provider";
 import {
     NetworkId,
-    setNetworkId,
-    getZswapNetworkId,
-    getLedgerNetworkId
+    getZswapNetworkId
 } from "@midnight-ntwrk/midnight-js-network-id";
-import { createBalancedTx } from "@midnight-ntwrk/midnight-js-types";
-import { nativeToken, Transaction } from "@midnight-ntwrk/ledger";
-import { Transaction as ZswapTransaction } from "@midnight-ntwrk/zswap";
+import { nativeToken } from "@midnight-ntwrk/ledger";
 import { WebSocket } from "ws";
 import * as fs from "fs";
-import * as path from "path";
 import * as readline from "readline/promises";
+import { parseArgs } from "util";
 import * as Rx from "rxjs";
 import { type Wallet } from "@midnight-ntwrk/wallet-api";
+import { PRIVATE_STATE_ID, loadTicketsContract } from "./tickets/contract.js";
+import { ticketProviders } from "./tickets/chain.js";
+import { NetworkProfile, selectNetwork } from "./tickets/network.js";
+import { emptyPrivateState, issuerSecretKeyFromSeed, witnesses } from "./tickets/witness.js";
 
 // Fix WebSocket for Node.js environment
 // @ts-ignore
 globalThis.WebSocket = WebSocket;
 
-// Configure for Midnight Testnet
-setNetworkId(NetworkId.TestNet);
-
-// Testnet connection endpoints
-const TESTNET_CONFIG = {
-    indexer: "https://indexer.testnet-02.midnight.network/api/v1/graphql",
-    indexerWS: "wss://indexer.testnet-02.midnight.network/api/v1/graphql/ws",
-    node: "https://rpc.testnet-02.midnight.network",
-    proofServer: "http://127.0.0.1:6300"
-};
+// Network profile from --network, else TICKETS_NETWORK, else testnet
+let network: NetworkProfile;
+try {
+    const { values } = parseArgs({ options: { network: { type: "string" } } });
+    network = selectNetwork(values.network);
+} catch (e: any) {
+    console.error(e?.message || e);
+    process.exit(1);
+}
 
 const waitForFunds = (wallet: Wallet) =>
     Rx.firstValueFrom(
@@ -53,7 +48,7 @@ const waitForFunds = (wallet: Wallet) =>
     );
 
 async function main() {
-    console.log("Midnight Hello World Deployment\n");
+    console.log(`Midnight Ticketing Contract Deployment (${network.label})\n`);
 
     const rl = readline.createInterface({
         input: process.stdin,
@@ -81,10 +76,10 @@ async function main() {
         // Build wallet from seed and continue with deployment
         console.log("Building wallet...");
         const wallet = await WalletBuilder.buildFromSeed(
-            TESTNET_CONFIG.indexer,
-            TESTNET_CONFIG.indexerWS,
-            TESTNET_CONFIG.proofServer,
-            TESTNET_CONFIG.node,
+            network.indexer,
+            network.indexerWS,
+            network.proofServer,
+            network.node,
             walletSeed,
             getZswapNetworkId(),
             "info"
@@ -99,7 +94,7 @@ async function main() {
 
         if (balance === 0n) {
             console.log(`Your wallet balance is: 0`);
-            console.log("Visit: https://midnight.network/test-faucet to get some funds.");
+            if (network.networkId === NetworkId.TestNet) console.log("Visit: https://midnight.network/test-faucet to get some funds.");
             console.log(`Waiting to receive tokens...`);
             balance = await waitForFunds(wallet);
         }
@@ -108,76 +103,27 @@ async function main() {
 
         // Load compiled contract files
         console.log("Loading contract...");
-        const contractPath = path.join(process.cwd(), "contracts");
-        const contractModulePath = path.join(
-            contractPath,
-            "managed",
-            "hello-world",
-            "contract",
-            "index.cjs"
-        );
-
-        if (!fs.existsSync(contractModulePath)) {
-            console.error("Contract not found! Run: npm run compile");
+        let TicketsModule: any;
+        try {
+            TicketsModule = await loadTicketsContract();
+        } catch (e: any) {
+            console.error(e?.message || e);
             process.exit(1);
         }
-
-        const HelloWorldModule = await import(contractModulePath);
-        const contractInstance = new HelloWorldModule.Contract({});
-
-        // Create wallet provider for transactions
-        const walletState = await Rx.firstValueFrom(wallet.state());
-
-        const walletProvider = {
-            coinPublicKey: walletState.coinPublicKey,
-            encryptionPublicKey: walletState.encryptionPublicKey,
-            balanceTx(tx: any, newCoins: any) {
-                return wallet
-                    .balanceTransaction(
-                        ZswapTransaction.deserialize(
-                            tx.serialize(getLedgerNetworkId()),
-                            getZswapNetworkId()
-                        ),
-                        newCoins
-                    )
-                    .then((tx) => wallet.proveTransaction(tx))
-                    .then((zswapTx) =>
-                        Transaction.deserialize(
-                            zswapTx.serialize(getZswapNetworkId()),
-                            getLedgerNetworkId()
-                        )
-                    )
-                    .then(createBalancedTx);
-            },
-            submitTx(tx: any) {
-                return wallet.submitTransaction(tx);
-            }
-        };
+        const contractInstance = new TicketsModule.Contract(witnesses);
 
         // Configure all required providers
         console.log("Setting up providers...");
-        const zkConfigPath = path.join(contractPath, "managed", "hello-world");
-        const providers = {
-            privateStateProvider: levelPrivateStateProvider({
-                privateStateStoreName: "hello-world-state"
-            }),
-            publicDataProvider: indexerPublicDataProvider(
-                TESTNET_CONFIG.indexer,
-                TESTNET_CONFIG.indexerWS
-            ),
-            zkConfigProvider: new NodeZkConfigProvider(zkConfigPath),
-            proofProvider: httpClientProofProvider(TESTNET_CONFIG.proofServer),
-            walletProvider: walletProvider,
-            midnightProvider: walletProvider
-        };
+        const providers = await ticketProviders(wallet, network);
 
         // Deploy contract to blockchain
         console.log("Deploying contract (30-60 seconds)...");
 
         const deployed = await deployContract(providers, {
             contract: contractInstance,
-            privateStateId: "helloWorldState",
-            initialPrivateState: {}
+            privateStateId: PRIVATE_STATE_ID,
+            // This wallet becomes the issuer: its key's commitment is stored by the constructor
+            initialPrivateState: emptyPrivateState(issuerSecretKeyFromSeed(walletSeed))
         });
 
         const contractAddress = deployed.deployTxData.public.contractAddress;
@@ -186,7 +132,11 @@ async function main() {
         console.log("\nDEPLOYED!");
         console.log(`Contract: ${contractAddress}\n`);
 
+        // The network is recorded so that runs on another network refuse this file
         const info = {
+            contract: "tickets",
+            network: network.name,
+            networkId: network.networkId,
             contractAddress,
             deployedAt: new Date().toISOString()
         };
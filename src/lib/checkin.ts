@@ -0,0 +1,23 @@
+// Signed gate check-ins: what a scanner device signs for each ticket it admits. Shared by the
+// server (verification, audit log) and the UI's scanner (signing), so it sticks to plain TS like
+// ticket-crypto.ts.
+import { Hash, sha256Hex } from "./hash.js";
+
+export const CHECKIN_PREFIX = "midnight-ticket:checkin:v1:";
+
+export interface CheckIn {
+    eventId: string;
+    deviceId: string;
+    nullifier: Hash;
+    at: number; // device clock, ms
+}
+
+// What the device signs (ECDSA P-256, SHA-256); the prefix keeps these signatures useless anywhere else
+export function checkInMessage(checkIn: CheckIn): string {
+    return CHECKIN_PREFIX + JSON.stringify([checkIn.eventId, checkIn.deviceId, checkIn.nullifier.toLowerCase(), checkIn.at]);
+}
+
+// A device is known by the fingerprint of its public key (SPKI DER, base64url)
+export function deviceIdOf(publicKey: string): string {
+    return sha256Hex(publicKey).slice(2, 18);
+}
@@ -0,0 +1,63 @@
+// Isomorphic: no Node built-ins here, this module is bundled into the UI as well.
+import { sha256 } from "./sha256.js";
+
+export type Hash = string; // hex string 0x...
+
+// Matches the `HashAlgorithm` enum in contracts/tickets.compact (order matters).
+export const HASH_ALGORITHMS = ["sha256", "poseidon"] as const;
+export type HashAlgorithm = typeof HASH_ALGORITHMS[number];
+
+// 2-to-1 compression over 32-byte values. Merkle nodes, leaves and nullifiers are all
+// built from it, exactly as the `hash2` circuit does in-circuit.
+export interface HashFunction {
+    readonly algorithm: HashAlgorithm;
+    hash2(left: Uint8Array, right: Uint8Array): Uint8Array;
+}
+
+export function toHex(bytes: Uint8Array): Hash {
+    let out = "0x";
+    for (const b of bytes) out += b.toString(16).padStart(2, "0");
+    return out;
+}
+
+export function fromHex(hex: Hash): Uint8Array {
+    const clean = hex.replace(/^0x/, "");
+    if (clean.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(clean)) throw new Error(`Invalid hex "${hex}"`);
+    const out = new Uint8Array(clean.length / 2);
+    for (let i = 0; i < out.length; i++) out[i] = parseInt(clean.slice(i * 2, i * 2 + 2), 16);
+    return out;
+}
+
+export const utf8 = (s: string) => new TextEncoder().encode(s);
+
+export function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+    const out = new Uint8Array(a.length + b.length);
+    out.set(a);
+    out.set(b, a.length);
+    return out;
+}
+
+export function sha256Hex(data: Uint8Array | string): Hash {
+    return toHex(sha256(typeof data === "string" ? utf8(data) : data));
+}
+
+// SHA-256(left || right) == Compact persistentHash<Vector<2, Bytes<32>>>([left, right])
+export const sha256Hash: HashFunction = {
+    algorithm: "sha256",
+    hash2(left, right) {
+        return sha256(concatBytes(left, right));
+    }
+};
+
+export function isHashAlgorithm(value: unknown): value is HashAlgorithm {
+    return typeof value === "string" && (HASH_ALGORITHMS as readonly string[]).includes(value);
+}
+
+// Poseidon needs the Compact runtime (WASM), so browsers only pull it in when an issuer
+// actually picked it. Node code that can afford the static import uses hashFunctionFor.
+// Legacy state without a recorded algorithm was produced with SHA-256.
+export async function loadHashFunction(algorithm: HashAlgorithm | undefined): Promise<HashFunction> {
+    if (algorithm !== "poseidon") return sha256Hash;
+    const { poseidonHash } = await import("./poseidon.js");
+    return poseidonHash;
+}
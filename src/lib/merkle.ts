@@ -1,113 +1,136 @@
-import crypto from "crypto";
+import { Hash, HashFunction, fromHex, sha256Hash, sha256Hex, toHex } from "./hash.js";
 
-export type Hash = string; // hex string 0x...
+export type { Hash, HashAlgorithm, HashFunction } from "./hash.js";
+export { isHashAlgorithm, sha256Hash, sha256Hex } from "./hash.js";
 
-const toHex = (buf: Buffer) => "0x" + buf.toString("hex");
-
-export function sha256Hex(data: Buffer | string): Hash {
-    const buf = Buffer.isBuffer(data) ? data : Buffer.from(data);
-    return toHex(crypto.createHash("sha256").update(buf).digest());
-}
-
-export function hashPair(a: Hash, b: Hash): Hash {
-    const aBuf = Buffer.from(a.replace(/^0x/, ""), "hex");
-    const bBuf = Buffer.from(b.replace(/^0x/, ""), "hex");
-    return sha256Hex(Buffer.concat([aBuf, bBuf]));
+export function hashPair(a: Hash, b: Hash, hash: HashFunction = sha256Hash): Hash {
+    return toHex(hash.hash2(fromHex(a), fromHex(b)));
 }
 
 export function zeroHash(level: number): Hash {
-    // Deterministic zero per level
-    return sha256Hex(Buffer.from(`ZERO_${level}`));
+    // Deterministic zero per level (only level 0 pads leaves; upper zeros are hashed up)
+    return sha256Hex(`ZERO_${level}`);
 }
 
+// Append-only Merkle tree with implicit zero padding to 2^depth leaves.
+// Only filled nodes are stored (layers[lvl] holds the non-empty prefix of each level), and
+// empty subtrees come from a per-level zero cache, so append/getRoot/getProof are O(depth)
+// and memory grows with the number of issued leaves rather than the capacity.
 export class MerkleTree {
     readonly depth: number;
-    private leaves: Hash[];
-    private layers: Hash[][]; // layers[0] = leaves padded, last = root layer
+    readonly hash: HashFunction;
+    private layers: Hash[][]; // layers[0] = leaves, layers[depth] = [root] once non-empty
+    private zeros: Hash[]; // zeros[lvl] = root of an empty subtree of height lvl
+    private leafIndex = new Map<Hash, number>(); // first position of each leaf
 
-    constructor(depth: number, leaves: Hash[] = []) {
+    constructor(depth: number, leaves: Hash[] = [], hash: HashFunction = sha256Hash) {
+        if (!Number.isInteger(depth) || depth < 0) throw new Error("Invalid tree depth");
         this.depth = depth;
-        const max = 1 << this.depth;
-        if (leaves.length > max) {
+        this.hash = hash;
+        if (leaves.length > this.capacity()) {
             throw new Error("Initial leaves exceed tree capacity");
         }
-        this.leaves = [...leaves];
-        this.layers = [];
-        this.rebuild();
+        this.zeros = [zeroHash(0)];
+        for (let lvl = 0; lvl < depth; lvl++) this.zeros.push(hashPair(this.zeros[lvl], this.zeros[lvl], hash));
+        this.layers = [leaves.slice()];
+        leaves.forEach((leaf, i) => { if (!this.leafIndex.has(leaf)) this.leafIndex.set(leaf, i); });
+        // Bulk build level by level: O(n) hashes instead of O(n * depth) appends
+        for (let lvl = 0; lvl < depth; lvl++) {
+            const prev = this.layers[lvl];
+            const next: Hash[] = [];
+            for (let i = 0; i < prev.length; i += 2) next.push(this.hashChildren(lvl, prev, i));
+            this.layers.push(next);
+        }
     }
 
-    private padLeaves(leaves: Hash[]): Hash[] {
-        const size = 1 << this.depth;
-        const padded = leaves.slice();
-        while (padded.length < size) padded.push(zeroHash(0));
-        return padded;
+    private hashChildren(lvl: number, layer: Hash[], leftIdx: number): Hash {
+        const right = leftIdx + 1 < layer.length ? layer[leftIdx + 1] : this.zeros[lvl];
+        return hashPair(layer[leftIdx], right, this.hash);
     }
 
-    private rebuild() {
-        const base = this.padLeaves(this.leaves);
-        const layers: Hash[][] = [base];
-        for (let lvl = 0; lvl < this.depth; lvl++) {
-            const prev = layers[lvl];
-            const next: Hash[] = [];
-            for (let i = 0; i < prev.length; i += 2) {
-                next.push(hashPair(prev[i], prev[i + 1]));
-            }
-            layers.push(next);
-        }
-        this.layers = layers;
+    private node(lvl: number, idx: number): Hash {
+        const layer = this.layers[lvl];
+        return idx < layer.length ? layer[idx] : this.zeros[lvl];
+    }
+
+    capacity(): number {
+        return 2 ** this.depth;
     }
 
     getRoot(): Hash {
-        return this.layers[this.layers.length - 1][0];
+        return this.node(this.depth, 0);
     }
 
     getLeafCount(): number {
-        return this.leaves.length;
+        return this.layers[0].length;
     }
 
     getLeaves(): Hash[] {
-        return [...this.leaves];
+        return [...this.layers[0]];
+    }
+
+    // O(1) lookup; -1 when the leaf was never appended
+    indexOf(leaf: Hash): number {
+        return this.leafIndex.get(leaf) ?? -1;
     }
 
     append(leaf: Hash) {
-        const max = 1 << this.depth;
-        if (this.leaves.length >= max) throw new Error("Merkle tree is full");
-        this.leaves.push(leaf);
-        this.rebuild();
+        if (this.getLeafCount() >= this.capacity()) throw new Error("Merkle tree is full");
+        let idx = this.layers[0].length;
+        this.layers[0].push(leaf);
+        if (!this.leafIndex.has(leaf)) this.leafIndex.set(leaf, idx);
+        for (let lvl = 0; lvl < this.depth; lvl++) {
+            const parentIdx = Math.floor(idx / 2);
+            this.layers[lvl + 1][parentIdx] = this.hashChildren(lvl, this.layers[lvl], parentIdx * 2);
+            idx = parentIdx;
+        }
+    }
+
+    // Appends many leaves and rehashes each touched parent once: O(n + depth) hashes instead
+    // of O(n * depth) for n single appends
+    appendAll(leaves: Hash[]) {
+        if (this.getLeafCount() + leaves.length > this.capacity()) throw new Error("Merkle tree is full");
+        if (leaves.length === 0) return;
+        let from = this.layers[0].length;
+        leaves.forEach((leaf, i) => {
+            if (!this.leafIndex.has(leaf)) this.leafIndex.set(leaf, from + i);
+            this.layers[0].push(leaf);
+        });
+        for (let lvl = 0; lvl < this.depth; lvl++) {
+            const layer = this.layers[lvl];
+            const parents = this.layers[lvl + 1];
+            const first = Math.floor(from / 2);
+            for (let p = first; p * 2 < layer.length; p++) parents[p] = this.hashChildren(lvl, layer, p * 2);
+            from = first;
+        }
     }
 
     getProof(index: number): { siblings: Hash[]; index: number } {
-        const size = 1 << this.depth;
-        if (index < 0 || index >= size) throw new Error("Index out of range");
+        if (!Number.isInteger(index) || index < 0 || index >= this.capacity()) throw new Error("Index out of range");
         const siblings: Hash[] = [];
         let idx = index;
         for (let lvl = 0; lvl < this.depth; lvl++) {
-            const layer = this.layers[lvl];
             const isRight = idx % 2 === 1;
-            const siblingIdx = isRight ? idx - 1 : idx + 1;
-            siblings.push(layer[siblingIdx]);
+            siblings.push(this.node(lvl, isRight ? idx - 1 : idx + 1));
             idx = Math.floor(idx / 2);
         }
         return { siblings, index };
     }
 
-    static verify(leaf: Hash, proof: { siblings: Hash[]; index: number }, root: Hash): boolean {
+    static verify(leaf: Hash, proof: { siblings: Hash[]; index: number }, root: Hash, hash: HashFunction = sha256Hash): boolean {
+        return MerkleTree.computeRoot(leaf, proof, hash).toLowerCase() === root.toLowerCase();
+    }
+
+    // Root implied by a leaf and its path; lets callers accept any of several known roots
+    static computeRoot(leaf: Hash, proof: { siblings: Hash[]; index: number }, hash: HashFunction = sha256Hash): Hash {
         let h = leaf;
         let idx = proof.index;
         for (let i = 0; i < proof.siblings.length; i++) {
             const sib = proof.siblings[i];
-            if (idx % 2 === 0) h = hashPair(h, sib);
-            else h = hashPair(sib, h);
+            if (idx % 2 === 0) h = hashPair(h, sib, hash);
+            else h = hashPair(sib, h, hash);
             idx = Math.floor(idx / 2);
         }
-        return h.toLowerCase() === root.toLowerCase();
+        return h;
     }
 }
-
-export function leafFromTicket(secret: string, issuedAtMs: number): Hash {
-    return sha256Hex(Buffer.from(`${secret}:${issuedAtMs}`));
-}
-
-export function nullifierFromSecret(secret: string): Hash {
-    return sha256Hex(Buffer.from(`nullifier:${secret}`));
-}
@@ -0,0 +1,25 @@
+import {
+    CompactTypeField,
+    CompactTypeVector,
+    degradeToTransient,
+    transientHash,
+    upgradeFromTransient
+} from "@midnight-ntwrk/compact-runtime";
+import { HashAlgorithm, HashFunction, sha256Hash } from "./hash.js";
+
+const FIELD_PAIR = new CompactTypeVector(2, new CompactTypeField());
+
+// Circuit-friendly: upgradeFromTransient(transientHash<Vector<2, Field>>([degrade(l), degrade(r)]))
+export const poseidonHash: HashFunction = {
+    algorithm: "poseidon",
+    hash2(left, right) {
+        const digest = transientHash(FIELD_PAIR, [degradeToTransient(left), degradeToTransient(right)]);
+        return upgradeFromTransient(digest);
+    }
+};
+
+// Synchronous resolver for server/CLI code; browsers use loadHashFunction instead.
+// Legacy state without a recorded algorithm was produced with SHA-256.
+export function hashFunctionFor(algorithm: HashAlgorithm | undefined): HashFunction {
+    return algorithm === "poseidon" ? poseidonHash : sha256Hash;
+}
@@ -0,0 +1,52 @@
+// Export bundle for bulk-issued tickets: one QR payload per ticket and a CSV manifest for
+// distribution partners. Shared by the CLI and the UI (which adds the printable PDF), so it
+// sticks to plain TS like ticket-crypto.ts.
+import { TicketPayload, encodeTicketPayload, ticketScanUrl } from "./ticket-crypto.js";
+
+export interface BundleOptions {
+    eventId?: string;
+    tierNames?: string[]; // by tier id; falls back to the number
+    maxAgeMs?: number; // adds each ticket's validity end
+    scanOrigin?: string; // adds the scanner URL form of each payload
+}
+
+export interface BundleEntry extends TicketPayload {
+    tierName: string;
+    payload: string; // as issued (v2, tagged by the issuer), else midnight-ticket:v1
+    url?: string;
+    validUntil?: number;
+}
+
+export function bundleEntries(tickets: Array<TicketPayload & { payload?: string }>, options: BundleOptions = {}): BundleEntry[] {
+    return tickets.map(t => {
+        const tier = t.tier ?? 0;
+        const payload = t.payload ?? encodeTicketPayload(t);
+        const entry: BundleEntry = { ...t, tierName: options.tierNames?.[tier] ?? String(tier), payload };
+        if (options.scanOrigin) entry.url = ticketScanUrl(options.scanOrigin, payload);
+        if (options.maxAgeMs) entry.validUntil = t.issuedAt + options.maxAgeMs;
+        return entry;
+    });
+}
+
+const MANIFEST_COLUMNS = ["event", "index", "tier", "tier_name", "issued_at", "valid_until", "payload", "scan_url"];
+
+// RFC 4180: fields with commas, quotes or line breaks are quoted, quotes doubled
+export function csvField(value: string | number | undefined): string {
+    const s = value === undefined ? "" : String(value);
+    return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+// One row per ticket; times are ISO 8601 UTC. Payloads carry the ticket secret, so the manifest
+// is as sensitive as the tickets themselves.
+export function manifestCsv(entries: BundleEntry[], options: BundleOptions = {}): string {
+    const iso = (ms?: number) => ms === undefined ? undefined : new Date(ms).toISOString();
+    const rows = entries.map(e => [
+        options.eventId, e.index, e.tier ?? 0, e.tierName, iso(e.issuedAt), iso(e.validUntil), e.payload, e.url
+    ].map(csvField).join(","));
+    return [MANIFEST_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+// Payloads one per line, e.g. for a partner's own QR printing
+export function payloadList(entries: BundleEntry[]): string {
+    return entries.map(e => e.payload).join("\n") + "\n";
+}
@@ -0,0 +1,176 @@
+// Shared ticket crypto for the server, CLI and UI. Everything here is isomorphic (no Node
+// built-ins, no WASM unless Poseidon is requested), so both sides run the exact same code.
+// Pinned by the vectors in ./ticket-crypto.vectors.ts (npm run tickets:vectors).
+import { Hash, HashFunction, concatBytes, fromHex, sha256Hash, sha256Hex, toHex, utf8 } from "./hash.js";
+import { hmacSha256, sha256 } from "./sha256.js";
+
+export type { Hash, HashAlgorithm, HashFunction } from "./hash.js";
+export { HASH_ALGORITHMS, fromHex, isHashAlgorithm, loadHashFunction, sha256Hash, sha256Hex, toHex } from "./hash.js";
+export { MerkleTree, hashPair, zeroHash } from "./merkle.js";
+
+// Ticket derivations mirror the pure circuits in contracts/tickets.compact so the
+// same leaf and nullifier can be recomputed inside the redeem proof (with either hash).
+
+// 32-byte key the circuit works with; arbitrary-length secrets are hashed down to it.
+export function secretKeyFromSecret(secret: string): Uint8Array {
+    return sha256(utf8(secret));
+}
+
+// Compact `(x as Field) as Bytes<32>`: little-endian, zero-padded to 32 bytes.
+export function uintToBytes32(value: number | bigint): Uint8Array {
+    const out = new Uint8Array(32);
+    let v = BigInt(value);
+    if (v < 0n) throw new Error("Value must be non-negative");
+    for (let i = 0; i < 32 && v > 0n; i++) {
+        out[i] = Number(v & 0xffn);
+        v >>= 8n;
+    }
+    return out;
+}
+
+// Compact `pad(32, tag)`: UTF-8 bytes, right-padded with zeros.
+function padTag(tag: string): Uint8Array {
+    const out = new Uint8Array(32);
+    out.set(utf8(tag));
+    return out;
+}
+
+// Tiers (seat classes) are small integers; 0 is general admission.
+export const MAX_TIER = 255;
+
+export function isTier(value: unknown): value is number {
+    return typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= MAX_TIER;
+}
+
+// H(secretKey || issuedAt): hides the secret, so buyers can hand it to the issuer.
+export function ticketCommitment(secret: string, issuedAtMs: number, hash: HashFunction = sha256Hash): Hash {
+    return toHex(hash.hash2(secretKeyFromSecret(secret), uintToBytes32(issuedAtMs)));
+}
+
+// Tier 0 leaves are the bare commitment (so pre-tier leaves stay valid); other tiers are
+// H(commitment || tier). The issuer computes this itself from a buyer's commitment, so the
+// tier in the tree is the one that was paid for.
+export function leafFromCommitment(commitment: Hash, tier = 0, hash: HashFunction = sha256Hash): Hash {
+    if (!isTier(tier)) throw new Error(`Tier must be an integer between 0 and ${MAX_TIER}`);
+    return tier === 0 ? commitment : toHex(hash.hash2(fromHex(commitment), uintToBytes32(tier)));
+}
+
+// Derivation versions. Version 1 predates the circuit: leaf = SHA256("<secret>:<issuedAt>") and
+// nullifier = SHA256("nullifier:<secret>"), SHA-256 and general admission only. Tickets issued
+// under it still verify off-chain; state without a recorded derivation uses it. Version 2 is the
+// commitment scheme above, and the only one the redeem circuit accepts.
+export type TicketDerivation = 1 | 2;
+export const LEGACY_DERIVATION: TicketDerivation = 1;
+export const TICKET_DERIVATION: TicketDerivation = 2;
+
+export function derivationOf(state: { derivation?: TicketDerivation } | null | undefined): TicketDerivation {
+    return state?.derivation ?? LEGACY_DERIVATION;
+}
+
+function checkLegacy(hash: HashFunction, tier: number) {
+    if (hash.algorithm !== "sha256" || tier !== 0) throw new Error("Version 1 tickets are SHA-256 and general admission only");
+}
+
+export function leafFromTicket(
+    secret: string,
+    issuedAtMs: number,
+    hash: HashFunction = sha256Hash,
+    tier = 0,
+    derivation: TicketDerivation = TICKET_DERIVATION
+): Hash {
+    if (derivation === LEGACY_DERIVATION) {
+        checkLegacy(hash, tier);
+        return sha256Hex(`${secret}:${issuedAtMs}`);
+    }
+    return leafFromCommitment(ticketCommitment(secret, issuedAtMs, hash), tier, hash);
+}
+
+export function nullifierFromSecret(secret: string, hash: HashFunction = sha256Hash, derivation: TicketDerivation = TICKET_DERIVATION): Hash {
+    if (derivation === LEGACY_DERIVATION) {
+        checkLegacy(hash, 0);
+        return sha256Hex(`nullifier:${secret}`);
+    }
+    return toHex(hash.hash2(padTag("nullifier:"), secretKeyFromSecret(secret)));
+}
+
+// Ticket secrets are hex strings. Both generators return `bytes` bytes (2 * bytes hex chars).
+
+// WebCrypto getRandomValues is a CSPRNG in Node 19+ and in every browser, including
+// insecure (plain HTTP) origins where randomUUID/subtle are missing. No weak fallback.
+export function randomSecretHex(bytes = 32): string {
+    const rng = (globalThis as { crypto?: { getRandomValues?: (a: Uint8Array) => Uint8Array } }).crypto;
+    if (!rng || typeof rng.getRandomValues !== "function") {
+        throw new Error("No secure random generator available (crypto.getRandomValues)");
+    }
+    return toHex(rng.getRandomValues(new Uint8Array(bytes))).slice(2);
+}
+
+// Deterministic mode: secret_i = HMAC-SHA256(masterSeed, "midnight-ticket:secret:" || LE32(i)),
+// so an issuer holding the master seed can regenerate every secret after losing local state.
+export function deriveTicketSecret(masterSeed: Uint8Array, index: number, bytes = 32): string {
+    if (masterSeed.length < 16) throw new Error("Master seed must be at least 16 bytes");
+    if (!Number.isSafeInteger(index) || index < 0) throw new Error("Ticket index must be a non-negative integer");
+    if (bytes > 32) throw new Error("Derived secrets are at most 32 bytes");
+    const mac = hmacSha256(masterSeed, concatBytes(utf8("midnight-ticket:secret:"), uintToBytes32(index)));
+    return toHex(mac.subarray(0, bytes)).slice(2);
+}
+
+// Per-event master seed, so the same index in two events never yields the same secret.
+export function deriveEventSeed(masterSeed: Uint8Array, eventId: string): Uint8Array {
+    return hmacSha256(masterSeed, utf8(`midnight-ticket:event:${eventId}`));
+}
+
+// QR payload codec. Format: midnight-ticket:v1:<secret>:<issuedAt>:<index>[:<tier>]
+// The tier is omitted for general admission (0), so older payloads decode unchanged.
+export const TICKET_PAYLOAD_PREFIX = "midnight-ticket:v1:";
+
+export interface TicketPayload {
+    secret: string;
+    issuedAt: number;
+    index: number;
+    tier?: number;
+}
+
+const isCount = (n: number) => Number.isSafeInteger(n) && n >= 0;
+
+export function encodeTicketPayload(ticket: TicketPayload): string {
+    if (!ticket.secret || ticket.secret.includes(":")) throw new Error("Ticket secret must be non-empty and contain no ':'");
+    if (!isCount(ticket.issuedAt)) throw new Error("Ticket issuedAt must be a non-negative integer");
+    if (!isCount(ticket.index)) throw new Error("Ticket index must be a non-negative integer");
+    const tier = ticket.tier ?? 0;
+    if (!isTier(tier)) throw new Error(`Ticket tier must be an integer between 0 and ${MAX_TIER}`);
+    const base = `${TICKET_PAYLOAD_PREFIX}${ticket.secret}:${ticket.issuedAt}:${ticket.index}`;
+    return tier === 0 ? base : `${base}:${tier}`;
+}
+
+export function decodeTicketPayload(payload: string): TicketPayload {
+    if (!payload.startsWith(TICKET_PAYLOAD_PREFIX)) throw new Error("Not a midnight-ticket v1 payload");
+    const parts = payload.slice(TICKET_PAYLOAD_PREFIX.length).split(":");
+    if (parts.length !== 3 && parts.length !== 4) {
+        throw new Error("Malformed ticket payload: expected <secret>:<issuedAt>:<index>[:<tier>]");
+    }
+    const [secret, issuedAtStr, indexStr, tierStr] = parts;
+    const issuedAt = /^\d+$/.test(issuedAtStr) ? Number(issuedAtStr) : NaN;
+    const index = /^\d+$/.test(indexStr) ? Number(indexStr) : NaN;
+    if (!secret) throw new Error("Malformed ticket payload: empty secret");
+    if (!isCount(issuedAt)) throw new Error("Malformed ticket payload: bad issuedAt");
+    if (!isCount(index)) throw new Error("Malformed ticket payload: bad index");
+    if (tierStr === undefined) return { secret, issuedAt, index };
+    const tier = /^\d+$/.test(tierStr) ? Number(tierStr) : NaN;
+    if (!isTier(tier) || tier === 0) throw new Error("Malformed ticket payload: bad tier");
+    return { secret, issuedAt, index, tier };
+}
+
+// URL QR mode points at the scanner route with the payload in the hash (SPA routing),
+// e.g. https://host/real/scanner#ticket=<payload>
+export function ticketScanUrl(origin: string, payload: string): string {
+    return `${origin}/real/scanner#ticket=${encodeURIComponent(payload)}`;
+}
+
+// Accepts both the #ticket= form above and a ?ticket= query parameter.
+export function payloadFromScanUrl(href: string): string | null {
+    const url = new URL(href);
+    if (url.hash.startsWith("#ticket=")) return decodeURIComponent(url.hash.slice("#ticket=".length));
+    return url.searchParams.get("ticket");
+}
+
@@ -0,0 +1,204 @@
+// Cross-environment test vectors for ./ticket-crypto.ts. The SHA-256 values were produced
+// with Node's OpenSSL-backed crypto and the Poseidon values with the Compact runtime, so the
+// pure-TS implementation used by both the server and the UI is checked against references.
+// Verified by src/tickets/vectors.ts (npm run tickets:vectors); only regenerate them when a
+// derivation or the payload format changes on purpose.
+import type { Hash, HashAlgorithm } from "./hash.js";
+
+export interface TicketVector {
+    secret: string;
+    issuedAt: number;
+    index: number;
+    secretKey: Hash;
+    leaf: Record<HashAlgorithm, Hash>;
+    nullifier: Record<HashAlgorithm, Hash>;
+    // Version 1 (pre-circuit) derivation, SHA-256 only
+    legacy: { leaf: Hash; nullifier: Hash };
+    payload: string;
+}
+
+export const TICKET_VECTORS: TicketVector[] = [
+    {
+        secret: "00000000000000000000000000000000",
+        issuedAt: 0,
+        index: 0,
+        secretKey: "0x84e0c0eafaa95a34c293f278ac52e45ce537bab5e752a00e6959a13ae103b65a",
+        leaf: {
+            sha256: "0xba13b085c954fbd119df35094df89124e97c846e17b37fde5ae08d9b9a096f12",
+            poseidon: "0x14f14451e0199cb7a8c60cf71b6b55dab0b52f8da73444c453faef800626f000"
+        },
+        nullifier: {
+            sha256: "0x8dca2d89fc691b1c343df24644ffb1df91963fb4db62c2a492492e6fb6c4f2ca",
+            poseidon: "0x3cd258a2e6e30145338be32abf2f728415459bb60f0f4797859ba57fdc85b800"
+        },
+        legacy: {
+            leaf: "0x881dd1d9fd0ff2717031cf466ee6de1d2e8d5b13b5dc85a8e7b3a90092d5adb4",
+            nullifier: "0x21e143936cdfbc8cb39ad09557cc6260e8832529e4029e8d9ba4843d430ebaff"
+        },
+        payload: "midnight-ticket:v1:00000000000000000000000000000000:0:0"
+    },
+    {
+        secret: "3f1c9a7be2d04c58a61e0f9b7d2c4e81",
+        issuedAt: 1700000000000,
+        index: 1,
+        secretKey: "0x92cde57b39eadbe6bc94c1b98ca4be3d28ff8ec16dcd6e42648f0facb5f2ece7",
+        leaf: {
+            sha256: "0x63b06172307a8876cd23c54bf3360958c99dd799d2e8185b7396d52549aaf7fe",
+            poseidon: "0xf291cf0ddc0ef3e63827671cc6dc737ca740ccbacb0bb97f463ed2b8f675b200"
+        },
+        nullifier: {
+            sha256: "0x203793df832989228d79d82ada170e05656556ca62ec2fe5bc3e48c01b9279cf",
+            poseidon: "0x777ec163b53be8bcd9e797a5a060f4ca47506850b974d66b24606e07d2943200"
+        },
+        legacy: {
+            leaf: "0x45790e1157ac95980562fccff75ea4ab3a40a70817130b660bd273b6da672697",
+            nullifier: "0x191bc140134a2544a34a5b1f20cdc6682c9effd231f7c70026feaa2f50071c63"
+        },
+        payload: "midnight-ticket:v1:3f1c9a7be2d04c58a61e0f9b7d2c4e81:1700000000000:1"
+    },
+    {
+        secret: "ticket-ü-✓",
+        issuedAt: 1735689600123,
+        index: 7,
+        secretKey: "0xe8f4859564f5ae7507817c7c6204dc60e3d4e30b349dfefa36844d7efe2e54a2",
+        leaf: {
+            sha256: "0xc61ea4a83ae983c8eb8497a9f8cd343b852a06b4038781d76c6536c8b79116e0",
+            poseidon: "0x9877fff41a52e3dedbc15e205523de592862d33726eacc4f42f3eb0dd8491600"
+        },
+        nullifier: {
+            sha256: "0x9ab35b56621cdd45f4726a8e910f1c39a67e0c96c9762cbf96652c7f56857915",
+            poseidon: "0xca6ea2dfc08d73865b0fc6dba3b0a105a53e03398f3496831fa4ed880733de00"
+        },
+        legacy: {
+            leaf: "0x7fc35896da694d44fc1afad10502dc6d4436d804492c73721c707c7d2d144255",
+            nullifier: "0x7472d91d661a737b6363f10c4db0507577960011e187baa81416cdc65e4198da"
+        },
+        payload: "midnight-ticket:v1:ticket-ü-✓:1735689600123:7"
+    }
+];
+
+// Depth-3 tree over the leaves above (in order), with the proof for leaf 2.
+export interface TreeVector {
+    depth: number;
+    root: Hash;
+    proof: { siblings: Hash[]; index: number };
+}
+
+export const TREE_VECTORS: Record<HashAlgorithm, TreeVector> = {
+    sha256: {
+        depth: 3,
+        root: "0xa59c3435883fd784a31f4e6cba3c99fb5600b87345318e2e52b289795e18648e",
+        proof: {
+            siblings: [
+                "0xc5be4d88f5a2b9ac2e09dbf7c224a39f7ac0a2f8067456391958d1d109e8c21c",
+                "0xad1c7bd198ab9650d2353399f4105fd96685648bc44168fe2c2a58746c1b30fb",
+                "0x2970c50ffb3097e85197da7a75c06fe1f6a47657873f37cfa3437cb2ebae3847"
+            ],
+            index: 2
+        }
+    },
+    poseidon: {
+        depth: 3,
+        root: "0x4b136dae353d39a4974aa2584d43498f26fcfacccde14486a4bf7b823f014000",
+        proof: {
+            siblings: [
+                "0xc5be4d88f5a2b9ac2e09dbf7c224a39f7ac0a2f8067456391958d1d109e8c21c",
+                "0x10eaef36229e534a3add22e4128fb66fb3c01a6df94dd965961fb44a95732c00",
+                "0x82d0e225bb998ce952ff017512267fcc106fe405fe174e5f98b66db6e1429700"
+            ],
+            index: 2
+        }
+    }
+};
+
+// Tiered leaves: H(leaf || LE32(tier)) over the tier-0 leaves above (TICKET_VECTORS[ticket]).
+export interface TierVector {
+    ticket: number;
+    tier: number;
+    leaf: Record<HashAlgorithm, Hash>;
+    payload: string;
+}
+
+export const TIER_VECTORS: TierVector[] = [
+    {
+        ticket: 1,
+        tier: 2,
+        leaf: {
+            sha256: "0x5eadfe1f41a7470b937d8aa0a6e39563fd1241579f4e0279fe7a07ae15ac6891",
+            poseidon: "0x848f115b9daff62175817f5081c004c7eae78107747ed1147027cc3628f3c000"
+        },
+        payload: "midnight-ticket:v1:3f1c9a7be2d04c58a61e0f9b7d2c4e81:1700000000000:1:2"
+    },
+    {
+        ticket: 2,
+        tier: 255,
+        leaf: {
+            sha256: "0xee858f75cbbb42716907463c0b55ffd6e6755896e31b3ee489951d74b55a7cd5",
+            poseidon: "0xe10f02cfc4d85a3837b13338651c57edb0503d38d3cf622f520d1448ffc6cb00"
+        },
+        payload: "midnight-ticket:v1:ticket-ü-✓:1735689600123:7:255"
+    }
+];
+
+// Deterministic secrets: HMAC-SHA256(seed, "midnight-ticket:secret:" || LE32(index)).
+export const SEED_VECTORS = {
+    masterSeed: "0x000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f",
+    secrets: [
+        { index: 0, secret: "01512e60ce899997e8eefa3ee4e5e6357b9cb2368a3527229cfc7034b7995174" },
+        { index: 1, secret: "3e69ad8a7152c04b8dacd2e9aee46ca93be248ee1eec4354eb6cb1fd3e0cf521" },
+        { index: 4294967296, secret: "822b7f297fb1fa6d2ffd14da9fd25662e8414429ef5e5d67104c53b195e61f73" }
+    ]
+};
+
+// Payloads every decoder must reject.
+export const INVALID_PAYLOADS: string[] = [
+    "",
+    "3f1c9a7be2d04c58a61e0f9b7d2c4e81",
+    "midnight-ticket:v0:abc:1:0",
+    "midnight-ticket:v1:abc:1",
+    "midnight-ticket:v1::1700000000000:0",
+    "midnight-ticket:v1:abc:17e11:0",
+    "midnight-ticket:v1:abc:1700000000000:-1",
+    "midnight-ticket:v1:abc:1700000000000:0:extra",
+    "midnight-ticket:v1:abc:1700000000000:0:0",
+    "midnight-ticket:v1:abc:1700000000000:0:256",
+    "midnight-ticket:v1:abc:1700000000000:0:1:2"
+];
+
+// v2 payloads (./ticket-payload.ts). base45 examples are RFC 9285's. The MAC is HMAC-SHA256 under
+// SHA-256("payload-vector-key-0123456789"), as the server derives it from TICKETS_PAYLOAD_KEY, for
+// TICKET_VECTORS[2] (a UTF-8 secret) at position 2 of the sha256 TREE_VECTORS tree, tier 0,
+// event "default".
+export const BASE45_VECTORS: Array<{ text: string; base45: string }> = [
+    { text: "AB", base45: "BB8" },
+    { text: "Hello!!", base45: "%69 VD92EX0" },
+    { text: "base-45", base45: "UJCLQE7W581" },
+    { text: "ietf!", base45: "QED8WEX0" }
+];
+
+export const PAYLOAD_V2_VECTOR = {
+    ticket: 2,
+    index: 2,
+    eventId: "default",
+    macPassphrase: "payload-vector-key-0123456789",
+    rootRef: "a59c3435883fd784",
+    tag: "mIDF8gbBrLdfT9Z8f8V2-A",
+    base45: "MT2:LB02.0% CJEC:VD000000IB0TWI0B5ISFSXJOY6838AVGBWEQPC7$CFZ5NZN7TSSQIPCJ41PJ%0P$L92C85R*6G 1FK$7*+N",
+    base64url: "mt2:AgQHZGVmYXVsdAAAAAACAZQfKXx7pZw0NYg_14QNdGlja2V0LcO8LeKckxCYgMXyBsGst19P1nx_xXb4PfS9Hg",
+    // Same ticket with the sha256 TREE_VECTORS proof embedded
+    withProof: "mt2:AgUHZGVmYXVsdAAAAAACAZQfKXx7pZw0NYg_14QNdGlja2V0LcO8LeKckwPFvk2I9aK5rC4J2_fCJKOfesCi-AZ0VjkZWNHRCejCHK0ce9GYq5ZQ0jUzmfQQX9lmhWSLxEFo_iwqWHRsGzD7KXDFD_swl-hRl9p6dcBv4fakdleHPzfPo0N8suuuOEcQmIDF8gbBrLdfT9Z8f8V2-BA4-Og"
+};
+
+// Each must fail to decode with this error kind
+export const INVALID_PAYLOADS_V2: Array<{ payload: string; kind: "format" | "corrupted" | "unsupported" }> = [
+    { payload: "MT2:", kind: "corrupted" },
+    { payload: "MT2:lb02", kind: "corrupted" }, // lowercase is not base45
+    { payload: PAYLOAD_V2_VECTOR.base45.slice(0, -1) + "4", kind: "corrupted" }, // one character off
+    { payload: PAYLOAD_V2_VECTOR.base64url.slice(0, -6), kind: "corrupted" }, // cut short
+    { payload: "mt2:AwQHZGVmYXVsdAAAAAACAZQfKXx7pZw0NYg_14QNdGlja2V0LcO8LeKckxCYgMXyBsGst19P1nx_xXb4PfS9Hg", kind: "corrupted" }, // version byte changed, checksum not
+    { payload: "mt2:AwQHZGVmYXVsdAAAAAACAZQfKXx7pZw0NYg_14QNdGlja2V0LcO8LeKckxCYgMXyBsGst19P1nx_xXb4seRF7Q", kind: "unsupported" }, // version 3, checksum fixed up
+    { payload: "midnight-ticket:v2:abc", kind: "format" }
+];
+
+// Well formed (checksum fixed up) but issuedAt moved by 1 ms: decodes, and the MAC must not verify
+export const TAMPERED_PAYLOAD_V2 = "mt2:AgQHZGVmYXVsdAAAAAACAZQfKXx6pZw0NYg_14QNdGlja2V0LcO8LeKckxCYgMXyBsGst19P1nx_xXb4VafMgA";
@@ -0,0 +1,289 @@
+// Ticket payload v2: a compact binary QR payload that names its event, references the root it was
+// issued under and carries an issuer tag, so a scanner can tell a corrupted or altered code from a
+// ticket that is merely invalid. Isomorphic, like ticket-crypto.ts. Text forms:
+//   MT2:<base45>     for QR codes (alphanumeric mode, the densest mode for this alphabet)
+//   mt2:<base64url>  for links, files and copy/paste
+// Binary layout, big-endian:
+//   version u8 (2) | flags u8 | eventId u8 length + UTF-8 | tier u8 | index u32 | issuedAt u48 (ms)
+//   | rootRef 8 bytes | secret u8 length + bytes | [proof: u8 depth + depth x 32 bytes]
+//   | tag u8 length + bytes | checksum: first 4 bytes of SHA-256 over everything before it
+// Flags: bit 0 proof present, bit 1 tag is a signature (else a MAC), bit 2 secret stored as UTF-8
+// (else as the bytes of a lowercase hex secret, which is what randomSecretHex gives).
+// The tag covers issuerMessage(): event, tier, index, root reference and the ticket's leaf, which
+// binds secret, issuedAt and tier. Not the secret itself, so the issuer can tag a ticket whose
+// secret only the buyer knows; the verifier recomputes the leaf from the payload. v1 payloads still decode (decodeAnyTicketPayload).
+import { Hash, HashFunction, concatBytes, fromHex, toHex, utf8 } from "./hash.js";
+import { MerkleTree } from "./merkle.js";
+import { hmacSha256, sha256 } from "./sha256.js";
+import { TICKET_PAYLOAD_PREFIX, TicketPayload, decodeTicketPayload, isTier, payloadFromScanUrl } from "./ticket-crypto.js";
+
+export const TICKET_PAYLOAD_V2_QR_PREFIX = "MT2:";
+export const TICKET_PAYLOAD_V2_TEXT_PREFIX = "mt2:";
+const VERSION = 2;
+const ISSUER_TAG_PREFIX = "midnight-ticket:v2:";
+const MAC_BYTES = 16;
+const CHECKSUM_BYTES = 4;
+const ROOT_REF_BYTES = 8;
+const FLAG_PROOF = 1, FLAG_SIGNATURE = 2, FLAG_UTF8_SECRET = 4;
+
+export type PayloadAuthKind = "mac" | "sig";
+
+// What the issuer hands out with a ticket so its holder can build the v2 payload
+export interface PayloadAuth {
+    kind: PayloadAuthKind;
+    rootRef: string; // first 8 bytes of the root, hex without 0x
+    tag: string; // base64url
+}
+
+export interface TicketPayloadV2 extends TicketPayload {
+    version: 2;
+    eventId: string;
+    tier: number;
+    auth: PayloadAuth;
+    proof?: Hash[]; // siblings of the leaf at `index`, leaf level first
+}
+
+export type AnyTicketPayload = TicketPayload | TicketPayloadV2;
+
+// `kind` tells a damaged code (retry the scan) from one that is well formed but not a v2 ticket
+export class TicketPayloadError extends Error {
+    constructor(message: string, readonly kind: "format" | "corrupted" | "unsupported") {
+        super(message);
+        this.name = "TicketPayloadError";
+    }
+}
+
+export function isTicketPayloadV2(ticket: AnyTicketPayload): ticket is TicketPayloadV2 {
+    return (ticket as TicketPayloadV2).version === VERSION;
+}
+
+export function rootRefOf(root: Hash): string {
+    return root.replace(/^0x/i, "").slice(0, ROOT_REF_BYTES * 2).toLowerCase();
+}
+
+// --- base45 (RFC 9285) and base64url -------------------------------------------------------
+
+const BASE45 = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:";
+
+export function base45Encode(bytes: Uint8Array): string {
+    let out = "";
+    for (let i = 0; i + 1 < bytes.length; i += 2) {
+        let n = bytes[i] * 256 + bytes[i + 1];
+        for (let k = 0; k < 3; k++) { out += BASE45[n % 45]; n = Math.floor(n / 45); }
+    }
+    if (bytes.length % 2) {
+        const n = bytes[bytes.length - 1];
+        out += BASE45[n % 45] + BASE45[Math.floor(n / 45)];
+    }
+    return out;
+}
+
+export function base45Decode(text: string): Uint8Array {
+    if (text.length % 3 === 1) throw new TicketPayloadError("Corrupted ticket payload: bad base45 length", "corrupted");
+    const out: number[] = [];
+    for (let i = 0; i < text.length; i += 3) {
+        const group = text.slice(i, i + 3);
+        let n = 0;
+        for (let k = group.length - 1; k >= 0; k--) {
+            const d = BASE45.indexOf(group[k]);
+            if (d < 0) throw new TicketPayloadError(`Corrupted ticket payload: '${group[k]}' is not base45`, "corrupted");
+            n = n * 45 + d;
+        }
+        if (group.length === 3) {
+            if (n > 0xffff) throw new TicketPayloadError("Corrupted ticket payload: bad base45 group", "corrupted");
+            out.push(n >> 8, n & 0xff);
+        } else {
+            if (n > 0xff) throw new TicketPayloadError("Corrupted ticket payload: bad base45 group", "corrupted");
+            out.push(n);
+        }
+    }
+    return Uint8Array.from(out);
+}
+
+const BASE64URL = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+
+export function base64urlEncode(bytes: Uint8Array): string {
+    let out = "";
+    for (let i = 0; i < bytes.length; i += 3) {
+        const n = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+        const chars = Math.min(4, Math.ceil(((bytes.length - i) * 8) / 6));
+        for (let k = 0; k < chars; k++) out += BASE64URL[(n >> (18 - 6 * k)) & 63];
+    }
+    return out;
+}
+
+export function base64urlDecode(text: string): Uint8Array {
+    if (text.length % 4 === 1) throw new TicketPayloadError("Corrupted ticket payload: bad base64url length", "corrupted");
+    const out: number[] = [];
+    let bits = 0, acc = 0;
+    for (const c of text) {
+        const d = BASE64URL.indexOf(c);
+        if (d < 0) throw new TicketPayloadError(`Corrupted ticket payload: '${c}' is not base64url`, "corrupted");
+        acc = (acc << 6) | d; bits += 6;
+        if (bits >= 8) { bits -= 8; out.push((acc >> bits) & 0xff); }
+    }
+    return Uint8Array.from(out);
+}
+
+// --- issuer tag ----------------------------------------------------------------------------
+
+function uintBytes(value: number, size: number): Uint8Array {
+    const out = new Uint8Array(size);
+    for (let i = size - 1, v = value; i >= 0; i--) { out[i] = v % 256; v = Math.floor(v / 256); }
+    return out;
+}
+
+function readUint(bytes: Uint8Array, at: number, size: number): number {
+    let v = 0;
+    for (let i = 0; i < size; i++) v = v * 256 + bytes[at + i];
+    return v;
+}
+
+function eventIdBytes(eventId: string): Uint8Array {
+    const bytes = utf8(eventId);
+    if (bytes.length === 0 || bytes.length > 255) throw new Error("Ticket eventId must be 1-255 bytes");
+    return concatBytes(Uint8Array.of(bytes.length), bytes);
+}
+
+// The bytes the issuer's MAC or signature covers
+export function issuerMessage(t: { eventId: string; tier: number; index: number; rootRef: string; leaf: Hash }): Uint8Array {
+    const parts = [
+        utf8(ISSUER_TAG_PREFIX), eventIdBytes(t.eventId), Uint8Array.of(t.tier), uintBytes(t.index, 4), fromHex(t.rootRef), fromHex(t.leaf)
+    ];
+    return parts.reduce(concatBytes);
+}
+
+export function payloadMac(key: Uint8Array, message: Uint8Array): string {
+    return base64urlEncode(hmacSha256(key, message).slice(0, MAC_BYTES));
+}
+
+export function verifyPayloadMac(key: Uint8Array, message: Uint8Array, tag: string): boolean {
+    const expected = utf8(payloadMac(key, message));
+    const given = utf8(tag);
+    if (expected.length !== given.length) return false;
+    let diff = 0;
+    for (let i = 0; i < expected.length; i++) diff |= expected[i] ^ given[i];
+    return diff === 0;
+}
+
+// An embedded proof must lead from the leaf to the root the payload references
+export function payloadProofMatches(ticket: TicketPayloadV2, leaf: Hash, hash: HashFunction): boolean {
+    if (!ticket.proof) return true;
+    return rootRefOf(MerkleTree.computeRoot(leaf, { siblings: ticket.proof, index: ticket.index }, hash)) === ticket.auth.rootRef;
+}
+
+// --- codec ---------------------------------------------------------------------------------
+
+export function encodeTicketPayloadV2(ticket: Omit<TicketPayloadV2, "version">, form: "base45" | "base64url" = "base45"): string {
+    const { secret, issuedAt, index, tier, eventId, auth, proof } = ticket;
+    if (!secret) throw new Error("Ticket secret must be non-empty");
+    if (!Number.isSafeInteger(issuedAt) || issuedAt < 0 || issuedAt >= 2 ** 48) throw new Error("Ticket issuedAt must be a non-negative integer below 2^48");
+    if (!Number.isSafeInteger(index) || index < 0 || index >= 2 ** 32) throw new Error("Ticket index must be a non-negative 32-bit integer");
+    if (!isTier(tier)) throw new Error("Ticket tier must be an integer between 0 and 255");
+    if (!/^[0-9a-f]{16}$/.test(auth.rootRef)) throw new Error("Ticket rootRef must be 16 lowercase hex digits");
+    const hexSecret = /^([0-9a-f]{2})+$/.test(secret);
+    const secretBytes = hexSecret ? fromHex(secret) : utf8(secret);
+    if (secretBytes.length > 255) throw new Error("Ticket secret is too long");
+    const tag = base64urlDecode(auth.tag);
+    if (tag.length === 0 || tag.length > 255) throw new Error("Ticket tag must be 1-255 bytes");
+    const flags = (proof ? FLAG_PROOF : 0) | (auth.kind === "sig" ? FLAG_SIGNATURE : 0) | (hexSecret ? 0 : FLAG_UTF8_SECRET);
+    const parts = [
+        Uint8Array.of(VERSION, flags), eventIdBytes(eventId), Uint8Array.of(tier), uintBytes(index, 4), uintBytes(issuedAt, 6),
+        fromHex(auth.rootRef), Uint8Array.of(secretBytes.length), secretBytes
+    ];
+    if (proof) {
+        if (proof.length > 32) throw new Error("Ticket proof is deeper than 32 levels");
+        parts.push(Uint8Array.of(proof.length), ...proof.map(s => {
+            const b = fromHex(s);
+            if (b.length !== 32) throw new Error("Ticket proof siblings must be 32 bytes");
+            return b;
+        }));
+    }
+    parts.push(Uint8Array.of(tag.length), tag);
+    const body = parts.reduce(concatBytes);
+    const bytes = concatBytes(body, sha256(body).slice(0, CHECKSUM_BYTES));
+    return form === "base45" ? TICKET_PAYLOAD_V2_QR_PREFIX + base45Encode(bytes) : TICKET_PAYLOAD_V2_TEXT_PREFIX + base64urlEncode(bytes);
+}
+
+export function isTicketPayloadV2Text(text: string): boolean {
+    return text.startsWith(TICKET_PAYLOAD_V2_QR_PREFIX) || text.startsWith(TICKET_PAYLOAD_V2_TEXT_PREFIX);
+}
+
+export function decodeTicketPayloadV2(text: string): TicketPayloadV2 {
+    let bytes: Uint8Array;
+    if (text.startsWith(TICKET_PAYLOAD_V2_QR_PREFIX)) bytes = base45Decode(text.slice(TICKET_PAYLOAD_V2_QR_PREFIX.length));
+    else if (text.startsWith(TICKET_PAYLOAD_V2_TEXT_PREFIX)) bytes = base64urlDecode(text.slice(TICKET_PAYLOAD_V2_TEXT_PREFIX.length));
+    else throw new TicketPayloadError("Not a midnight-ticket v2 payload", "format");
+    if (bytes.length < 2 + CHECKSUM_BYTES) throw new TicketPayloadError("Corrupted ticket payload: too short", "corrupted");
+    const body = bytes.slice(0, bytes.length - CHECKSUM_BYTES);
+    const checksum = toHex(bytes.slice(bytes.length - CHECKSUM_BYTES));
+    if (toHex(sha256(body).slice(0, CHECKSUM_BYTES)) !== checksum) {
+        throw new TicketPayloadError("Corrupted ticket payload: checksum mismatch", "corrupted");
+    }
+    // Past the checksum, anything malformed was built that way rather than damaged in transit
+    if (body[0] !== VERSION) throw new TicketPayloadError(`Unsupported ticket payload version ${body[0]}`, "unsupported");
+    const flags = body[1];
+    if (flags & ~(FLAG_PROOF | FLAG_SIGNATURE | FLAG_UTF8_SECRET)) throw new TicketPayloadError("Unsupported ticket payload flags", "unsupported");
+    let at = 2;
+    const readText = (b: Uint8Array, what: string) => {
+        try { return new TextDecoder("utf-8", { fatal: true }).decode(b); } catch { throw new TicketPayloadError(`Malformed ticket payload: ${what} is not UTF-8`, "format"); }
+    };
+    const take = (n: number, what: string) => {
+        if (at + n > body.length) throw new TicketPayloadError(`Malformed ticket payload: truncated ${what}`, "format");
+        const out = body.slice(at, at + n);
+        at += n;
+        return out;
+    };
+    const eventId = readText(take(take(1, "event id")[0], "event id"), "event id");
+    if (!eventId) throw new TicketPayloadError("Malformed ticket payload: empty event id", "format");
+    const tier = take(1, "tier")[0];
+    const index = readUint(take(4, "index"), 0, 4);
+    const issuedAt = readUint(take(6, "issuedAt"), 0, 6);
+    const rootRef = toHex(take(ROOT_REF_BYTES, "root reference")).slice(2);
+    const secretBytes = take(take(1, "secret")[0], "secret");
+    if (secretBytes.length === 0) throw new TicketPayloadError("Malformed ticket payload: empty secret", "format");
+    const secret = flags & FLAG_UTF8_SECRET ? readText(secretBytes, "secret") : toHex(secretBytes).slice(2);
+    let proof: Hash[] | undefined;
+    if (flags & FLAG_PROOF) {
+        const depth = take(1, "proof")[0];
+        if (depth > 32) throw new TicketPayloadError("Malformed ticket payload: proof deeper than 32 levels", "format");
+        proof = Array.from({ length: depth }, () => toHex(take(32, "proof")));
+    }
+    const tag = take(take(1, "tag")[0], "tag");
+    if (tag.length === 0) throw new TicketPayloadError("Malformed ticket payload: missing issuer tag", "format");
+    if (at !== body.length) throw new TicketPayloadError("Malformed ticket payload: trailing bytes", "format");
+    const ticket: TicketPayloadV2 = {
+        version: VERSION, secret, issuedAt, index, tier, eventId,
+        auth: { kind: flags & FLAG_SIGNATURE ? "sig" : "mac", rootRef, tag: base64urlEncode(tag) }
+    };
+    if (proof) ticket.proof = proof;
+    return ticket;
+}
+
+// v2 in either text form, or v1
+export function decodeAnyTicketPayload(text: string): AnyTicketPayload {
+    const value = text.trim();
+    if (isTicketPayloadV2Text(value)) return decodeTicketPayloadV2(value);
+    if (value.startsWith(TICKET_PAYLOAD_PREFIX)) return decodeTicketPayload(value);
+    throw new TicketPayloadError("Not a midnight-ticket payload (expected MT2:, mt2: or midnight-ticket:v1:)", "format");
+}
+
+// What a scanned ticket QR holds, for each TicketQr mode: the bare secret (issuedAt must be
+// entered separately), a v1 or v2 payload, or a scanner URL carrying one.
+export type ScannedTicket =
+    | { mode: "secret"; secret: string }
+    | { mode: "payload" | "url"; ticket: AnyTicketPayload; payload: string };
+
+export function parseScannedTicket(text: string): ScannedTicket {
+    const value = text.trim();
+    if (value.startsWith(TICKET_PAYLOAD_PREFIX) || isTicketPayloadV2Text(value)) {
+        return { mode: "payload", ticket: decodeAnyTicketPayload(value), payload: value };
+    }
+    if (/^https?:\/\//i.test(value)) {
+        const payload = payloadFromScanUrl(value);
+        if (!payload) throw new Error("QR code is a link, but not to a ticket");
+        return { mode: "url", ticket: decodeAnyTicketPayload(payload), payload };
+    }
+    if (/^(0x)?[0-9a-fA-F]{16,}$/.test(value)) return { mode: "secret", secret: value };
+    throw new Error("Not a ticket QR code");
+}
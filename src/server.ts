@@ -1,72 +1,421 @@
-import express, { Request, Response } from "express";
+import express, { NextFunction, Request, Response } from "express";
 import cors from "cors";
 import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
-import { TicketSystem, verifyRedemption, nullifierFromSecret } from "./tickets/state.js";
-import { MerkleTree, Hash, leafFromTicket } from "./lib/merkle.js";
+import { parseArgs } from "util";
+import {
+    DEFAULT_ROOT_HISTORY,
+    LocalTicketState,
+    MAX_ROOT_HISTORY,
+    NullifierSet,
+    TicketLedgerStateOnChain,
+    TicketSystem,
+    masterSeedFromEnv,
+    nullifierFromSecret,
+    recordRoot,
+    verifyRedemption
+} from "./tickets/state.js";
+import {
+    MerkleTree,
+    Hash,
+    HashAlgorithm,
+    HashFunction,
+    TICKET_DERIVATION,
+    deriveEventSeed,
+    derivationOf,
+    isHashAlgorithm,
+    fromHex,
+    isTier,
+    leafFromCommitment,
+    leafFromTicket,
+    randomSecretHex
+} from "./lib/ticket-crypto.js";
+import { TicketPayloadError, decodeAnyTicketPayload, isTicketPayloadV2, payloadProofMatches, type TicketPayloadV2 } from "./lib/ticket-payload.js";
+import { hashFunctionFor } from "./lib/poseidon.js";
+import {
+    BuyerInfo,
+    IssuerTree,
+    OnchainDoc,
+    StoreConflictError,
+    TicketStore,
+    isStoreKind,
+    migrateJsonFiles,
+    openTicketStore,
+    sqliteAvailable
+} from "./tickets/store.js";
+import {
+    DEFAULT_EVENT_ID,
+    DEFAULT_PRICE_TDUST,
+    EventRegistry,
+    TicketEvent,
+    TicketTier,
+    eventDir,
+    eventTiers,
+    findTier,
+    parseTiers
+} from "./tickets/events.js";
+import {
+    FakePaymentVerifier,
+    IndexerPaymentVerifier,
+    PAYMENT_INTENT_TTL_MS,
+    PaymentIntent,
+    PaymentVerifier,
+    TDUST_ATOMIC_UNITS,
+    formatTdust,
+    intentAmount,
+    normalizeTxId,
+    shieldedReceiptDecoder
+} from "./tickets/payments.js";
+import { ChainPublisher, ChainSync, LocalTree, anchoredLeafCount, pendingChanges, readDeployment, ticketProviders } from "./tickets/chain.js";
+import { NetworkProfile, selectNetwork } from "./tickets/network.js";
+import { Auth, CONFIRM_ACTIONS, ConfirmAction, Principal, Role } from "./tickets/auth.js";
+import { PayloadKey } from "./tickets/payload-key.js";
+import {
+    CHECKIN_MAX_SKEW_MS,
+    CheckInConflict,
+    GateLogFields,
+    ScannerDevice,
+    UNSIGNED_GATE_ID,
+    chainEntry,
+    gateLogCsv,
+    gateSummary,
+    newDevice,
+    verifyCheckIn,
+    verifyGateLog
+} from "./tickets/gates.js";
+import { PRIVATE_STATE_ID, loadTicketsContract } from "./tickets/contract.js";
+import { emptyPrivateState, issuerSecretKeyFromSeed, witnesses } from "./tickets/witness.js";
 import { WalletBuilder } from "@midnight-ntwrk/wallet";
+import { findDeployedContract } from "@midnight-ntwrk/midnight-js-contracts";
+import { SecretKeys } from "@midnight-ntwrk/zswap";
 import { indexerPublicDataProvider } from "@midnight-ntwrk/midnight-js-indexer-public-data-provider";
-import { NetworkId, setNetworkId, getZswapNetworkId, getLedgerNetworkId } from "@midnight-ntwrk/midnight-js-network-id";
+import { getZswapNetworkId, getLedgerNetworkId } from "@midnight-ntwrk/midnight-js-network-id";
 import { WebSocket } from "ws";
+import * as Rx from "rxjs";
 
 // Fix WebSocket for Node.js env (for Midnight libs)
 // @ts-ignore
 globalThis.WebSocket = WebSocket;
 
-// Configure for Midnight Testnet (align with CLI)
-setNetworkId(NetworkId.TestNet);
-
-const TESTNET_CONFIG = {
-    indexer: "https://indexer.testnet-02.midnight.network/api/v1/graphql",
-    indexerWS: "wss://indexer.testnet-02.midnight.network/api/v1/graphql/ws",
-    node: "https://rpc.testnet-02.midnight.network",
-    proofServer: "http://127.0.0.1:6300"
-};
+// Network profile from --network, else TICKETS_NETWORK, else testnet (same profiles as the CLI)
+function networkFromArgs(): NetworkProfile {
+    try {
+        const { values } = parseArgs({ options: { network: { type: "string" } } });
+        return selectNetwork(values.network);
+    } catch (e: any) {
+        console.error(e?.message || e);
+        process.exit(1);
+    }
+}
+const NETWORK = networkFromArgs();
 
 const app = express();
 app.use(cors());
 app.use(express.json());
+const api = express.Router({ mergeParams: true });
+
+// Who may call what (see tickets/auth.ts): admin and scanner routes take `Authorization: Bearer
+// <session token or API key>`; buyer routes stay public
+let auth: Auth;
+try {
+    const fromEnv = Auth.fromEnv();
+    auth = fromEnv.auth;
+    if (!auth.enabled) console.warn("Authentication DISABLED (TICKETS_AUTH=off): anyone can init, reset, issue, redeem and read buyer data");
+    else if (fromEnv.generatedAdminKey) console.log(`No TICKETS_ADMIN_KEYS or TICKETS_ADMIN_WALLETS set; admin API key for this run: ${fromEnv.generatedAdminKey}`);
+} catch (e: any) {
+    console.error(e?.message || e);
+    process.exit(1);
+}
+// Tags v2 ticket payloads (tickets/payload-key.ts)
+let payloadKey: PayloadKey;
+try {
+    payloadKey = PayloadKey.fromEnv();
+    if (payloadKey.generated) console.warn("Payload key made for this run only; v2 ticket payloads issued by it stop verifying after a restart");
+} catch (e: any) {
+    console.error(e?.message || e);
+    process.exit(1);
+}
+const ROLE_NAMES: Record<Role, string> = { admin: "issuer admin", scanner: "gate scanner" };
+const OPEN_ACCESS: Principal = { role: "admin", name: "open", via: "open" };
+
+function principalOf(req: Request): Principal | null {
+    if (!auth.enabled) return OPEN_ACCESS;
+    const m = /^Bearer\s+(\S+)$/i.exec(req.get("authorization") || "");
+    return m ? auth.principalOf(m[1]) : null;
+}
+
+// 401 without valid credentials, 403 when the caller's role may not do this
+function requireRole(role: Role) {
+    return (req: Request, res: Response, next: NextFunction) => {
+        const principal = principalOf(req);
+        if (!principal) return res.status(401).json({ ok: false, reason: `Sign in as ${ROLE_NAMES[role]}` });
+        if (!Auth.allows(principal, role)) return res.status(403).json({ ok: false, reason: `A ${ROLE_NAMES[principal.role]} cannot do this` });
+        res.locals.principal = principal;
+        next();
+    };
+}
+
+// Wiping an event also takes a token from POST /confirm, passed as `confirm` in the body
+function requireConfirmation(action: ConfirmAction) {
+    return (req: Request, res: Response, next: NextFunction) => {
+        const token = String(req.body?.confirm || "");
+        if (!auth.checkConfirmation(token, res.locals.principal, action, eventOf(res).id)) {
+            return res.status(428).json({ ok: false, reason: `Confirm the ${action} first: POST /confirm { action: "${action}" } and send its token as "confirm"` });
+        }
+        next();
+    };
+}
 
 const DATA_DIR = process.env.TICKETS_DATA_DIR || process.cwd();
 try { fs.mkdirSync(DATA_DIR, { recursive: true }); } catch { /* ignore */ }
-const ONCHAIN_FILE = path.join(DATA_DIR, ".tickets.onchain.json");
-const ISSUER_FILE = path.join(DATA_DIR, ".issuer.tree.json"); // for realistic flow: issuer stores only leaves
-const PAYMENTS_FILE = path.join(DATA_DIR, ".payments.json"); // track used txIds to prevent reuse in demo
-const BUYERS_FILE = path.join(DATA_DIR, ".buyers.json"); // optional buyer info (name/email) by consent
+const events = new EventRegistry(DATA_DIR);
+
+// All event state lives in one TicketStore, chosen by TICKETS_STORE:
+// - sqlite (default): TICKETS_DB, or tickets.db in the data dir; needs Node 22.13+
+// - memory: nothing persists across restarts (tests, throwaway demos); the default on older Node
+const STORE_KIND = process.env.TICKETS_STORE || (sqliteAvailable() ? "sqlite" : "memory");
+if (!isStoreKind(STORE_KIND)) {
+    console.error(`Unknown TICKETS_STORE "${STORE_KIND}" (sqlite or memory)`);
+    process.exit(1);
+}
+if (!process.env.TICKETS_STORE && STORE_KIND === "memory") {
+    console.warn(`node:sqlite needs Node 22.13+ (running ${process.version}): using the memory store, so nothing survives a restart`);
+}
+let store: TicketStore;
+try {
+    store = openTicketStore(STORE_KIND, process.env.TICKETS_DB || path.join(DATA_DIR, "tickets.db"));
+} catch (e: any) {
+    console.error(e?.message || e);
+    process.exit(1);
+}
+
+// An event's pre-store JSON files (imported once by migrateJsonFiles); the default event keeps
+// the original top-level paths
+type EventFiles = {
+    id: string;
+    onchain: string;
+    issuer: string; // for realistic flow: issuer stores only leaves
+    payments: string; // track used txIds to prevent reuse in demo
+    intents: string; // payment intents binding a payment amount to one commitment
+    buyers: string; // optional buyer info (name/email) by consent
+    local: string; // legacy demo TicketSystem (server-held secrets)
+};
+function eventFiles(id: string): EventFiles {
+    const dir = eventDir(DATA_DIR, id);
+    return {
+        id,
+        onchain: path.join(dir, ".tickets.onchain.json"),
+        issuer: path.join(dir, ".issuer.tree.json"),
+        payments: path.join(dir, ".payments.json"),
+        intents: path.join(dir, ".intents.json"),
+        buyers: path.join(dir, ".buyers.json"),
+        local: path.join(dir, ".tickets.local.json")
+    };
+}
+
+for (const event of events.list()) {
+    const imported = migrateJsonFiles(store, event.id, eventFiles(event.id));
+    if (imported.length) console.log(`Imported ${imported.join(", ")} JSON state of event "${event.id}" into the ${store.kind} store`);
+}
+
+function eventOf(res: Response): EventFiles {
+    return eventFiles((res.locals.event as TicketEvent).id);
+}
+
+function readOnchain(ev: EventFiles): OnchainDoc {
+    return store.getOnchain(ev.id) ?? { version: 1, root: "", maxAgeMs: 0, leafCount: 0, depth: 16, derivation: TICKET_DERIVATION };
+}
+function writeOnchain(ev: EventFiles, obj: OnchainDoc) {
+    store.putOnchain(ev.id, obj);
+}
+
+// The event's spent nullifiers as the store's keyed set: one indexed lookup per check
+function spentSet(ev: EventFiles): NullifierSet {
+    return {
+        has: nullifier => store.hasNullifier(ev.id, nullifier.toLowerCase()),
+        get size() { return store.nullifierCount(ev.id); },
+        [Symbol.iterator]: () => store.listNullifiers(ev.id)[Symbol.iterator]()
+    };
+}
 
-function readOnchain() {
-    if (!fs.existsSync(ONCHAIN_FILE)) return { version: 1, root: "", maxAgeMs: 0, nullifiers: [], leafCount: 0, depth: 16 };
-    return JSON.parse(fs.readFileSync(ONCHAIN_FILE, "utf-8"));
+// The doc as clients see it: spent tickets as a count, looked up one by one via /nullifiers/:nullifier
+function stateJson(ev: EventFiles, onchain: OnchainDoc) {
+    return { ...onchain, nullifierCount: store.nullifierCount(ev.id) };
 }
-function writeOnchain(obj: any) {
-    fs.writeFileSync(ONCHAIN_FILE, JSON.stringify(obj, null, 2));
+
+function readIssuerTree(ev: EventFiles): IssuerTree | null {
+    return store.getIssuerTree(ev.id);
+}
+
+// A handler's answer, computed inside a store transaction and sent once it has committed
+type Reply = { status: number; body: unknown };
+function reply(body: unknown, status = 200): Reply {
+    return { status, body };
+}
+function sendInTransaction(ev: EventFiles, res: Response, fn: () => Reply) {
+    let out: Reply;
+    try {
+        out = store.transaction(fn);
+    } catch (e) {
+        // The in-memory tree and TicketSystem may have run ahead of the rolled-back store
+        clearEventCaches(ev);
+        if (e instanceof StoreConflictError) {
+            out = reply({ ok: false, reason: "Concurrent update, please retry", retryable: true }, 409);
+        } else {
+            throw e;
+        }
+    }
+    res.status(out.status).json(out.body);
+}
+
+// In-memory incremental tree per event, kept in step with its issuer leaves, so issuance appends
+// in O(depth) instead of rebuilding from every leaf. Catches up if the file grew; rebuilds if it shrank.
+const issuerMerkleCache = new Map<string, MerkleTree>();
+function issuerMerkle(ev: EventFiles, issuer: IssuerTree): MerkleTree {
+    const cached = issuerMerkleCache.get(ev.id);
+    if (cached && cached.depth === issuer.depth && cached.hash === hashFunctionFor(issuer.hashAlgorithm)
+        && cached.getLeafCount() <= issuer.leaves.length) {
+        for (let i = cached.getLeafCount(); i < issuer.leaves.length; i++) cached.append(issuer.leaves[i]);
+        return cached;
+    }
+    const tree = new MerkleTree(issuer.depth, issuer.leaves, hashFunctionFor(issuer.hashAlgorithm));
+    issuerMerkleCache.set(ev.id, tree);
+    return tree;
+}
+
+// Deterministic-secret seed for an event; the default event uses the master seed as-is
+function masterSeedFor(ev: EventFiles): Uint8Array | undefined {
+    const seed = masterSeedFromEnv();
+    return seed && ev.id !== DEFAULT_EVENT_ID ? deriveEventSeed(seed, ev.id) : seed;
+}
+
+// Legacy demo TicketSystem per event, loaded once instead of per request; it saves into the store.
+// Reloaded when the stored ticket count moved, i.e. another process sharing the database issued.
+const localSystemCache = new Map<string, TicketSystem>();
+function localSystem(ev: EventFiles): TicketSystem | null {
+    const state = store.getLocalState(ev.id);
+    if (!state) {
+        localSystemCache.delete(ev.id);
+        return null;
+    }
+    const cached = localSystemCache.get(ev.id);
+    if (cached && cached.getLeafCount() === state.tickets.length) return cached;
+    const system = TicketSystem.fromState(state, masterSeedFor(ev), localSink(ev));
+    localSystemCache.set(ev.id, system);
+    return system;
+}
+function localSink(ev: EventFiles) {
+    return (state: LocalTicketState) => store.putLocalState(ev.id, state);
+}
+
+function clearEventCaches(ev: EventFiles) {
+    issuerMerkleCache.delete(ev.id);
+    localSystemCache.delete(ev.id);
+}
+
+// Append a leaf to the issuer tree and mirror the new root; caller checks capacity/duplicates
+// and runs this inside a store transaction
+function appendIssuerLeaf(ev: EventFiles, issuer: IssuerTree, leaf: Hash, tier = 0) {
+    const tree = issuerMerkle(ev, issuer);
+    store.appendIssuerLeaf(ev.id, leaf, tier, issuer.leaves.length);
+    tree.append(leaf);
+    issuer.tiers = issuer.leaves.map((_, i) => issuer.tiers?.[i] ?? 0);
+    issuer.leaves.push(leaf);
+    issuer.tiers.push(tier);
+    const onchain = readOnchain(ev);
+    recordRoot(onchain, tree.getRoot());
+    onchain.leafCount = tree.getLeafCount();
+    writeOnchain(ev, onchain);
+    afterIssue();
+    const index = tree.getLeafCount() - 1;
+    // The holder's v2 QR payload carries this tag (ticket-payload.ts)
+    const ticketAuth = payloadKey.authFor({ eventId: ev.id, tier, index, leaf }, tree.getRoot());
+    return { index, onchain, ticketAuth };
+}
+
+function soldInTier(issuer: IssuerTree, tier: number): number {
+    return issuer.leaves.reduce((n, _, i) => n + ((issuer.tiers?.[i] ?? 0) === tier ? 1 : 0), 0);
 }
 
-function readIssuerTree(): { depth: number; leaves: Hash[]; maxAgeMs: number } | null {
-    if (!fs.existsSync(ISSUER_FILE)) return null;
-    return JSON.parse(fs.readFileSync(ISSUER_FILE, "utf-8"));
+function tierSummary(event: TicketEvent, issuer: IssuerTree | null) {
+    return eventTiers(event).map(t => ({ ...t, sold: issuer ? soldInTier(issuer, t.id) : 0 }));
 }
-function writeIssuerTree(obj: { depth: number; leaves: Hash[]; maxAgeMs: number }) {
-    fs.writeFileSync(ISSUER_FILE, JSON.stringify(obj, null, 2));
+
+function tierSoldOut(tier: TicketTier, sold: number): boolean {
+    return tier.capacity != null && sold >= tier.capacity;
+}
+
+// Optional tier fields (`tier`, `requiredTier`) in request bodies
+function parseTierField(raw: unknown): number | undefined | null {
+    if (raw == null || raw === "") return undefined;
+    const n = Number(raw);
+    return isTier(n) ? n : null;
+}
+
+// `issuedAt` in request bodies: a ms timestamp, as a number or a string of digits like the one in
+// a payload. Anything else would turn `issuedAt + maxAgeMs` into string concatenation.
+function parseIssuedAtField(raw: unknown): number | undefined | null {
+    if (raw == null || raw === "") return undefined;
+    const n = typeof raw === "number" || (typeof raw === "string" && /^\d+$/.test(raw)) ? Number(raw) : NaN;
+    return Number.isSafeInteger(n) && n >= 0 ? n : null;
 }
 
-function readPayments(): { usedTxIds: string[] } {
-    if (!fs.existsSync(PAYMENTS_FILE)) return { usedTxIds: [] };
-    return JSON.parse(fs.readFileSync(PAYMENTS_FILE, "utf-8"));
+function tierName(event: TicketEvent, tier: number): string {
+    return findTier(event, tier)?.name ?? `tier ${tier}`;
 }
-function writePayments(obj: { usedTxIds: string[] }) {
-    fs.writeFileSync(PAYMENTS_FILE, JSON.stringify(obj, null, 2));
+
+// The tier the issuer stored for a leaf. A leaf found under the claimed tier is not enough: a
+// tier 0 leaf is the bare commitment, so H(commitment || VIP) issued as tier 0 would otherwise
+// pass as VIP.
+const TIER_MISMATCH = "Ticket tier does not match the tier it was issued for";
+// Trees imported from before the commitment scheme keep verifying their tickets but take no new ones
+const LEGACY_TREE = "This event's tree has version 1 leaves; initialize it again to issue tickets";
+function issuedTier(issuer: IssuerTree, index: number): number {
+    return issuer.tiers?.[index] ?? 0;
 }
 
-type BuyerInfo = { name?: string; email?: string; consent?: boolean; leaf?: string; index?: number; savedAt?: number };
-function readBuyers(): { buyers: BuyerInfo[] } {
-    if (!fs.existsSync(BUYERS_FILE)) return { buyers: [] };
-    return JSON.parse(fs.readFileSync(BUYERS_FILE, "utf-8"));
+// Gate policy check for the scanner: the leaf was already found with the claimed tier, and that
+// tier matched the stored one. Only the yes/no answer goes back to the gate.
+function wrongTier(event: TicketEvent, tier: number, requiredTier: number | undefined): string | null {
+    return requiredTier != null && tier !== requiredTier ? `Ticket is not ${tierName(event, requiredTier)}` : null;
 }
-function writeBuyers(obj: { buyers: BuyerInfo[] }) {
-    fs.writeFileSync(BUYERS_FILE, JSON.stringify(obj, null, 2));
+
+function tierReason(event: TicketEvent, reason: string | undefined, requiredTier: number | undefined) {
+    return reason === "Wrong ticket tier" && requiredTier != null ? `Ticket is not ${tierName(event, requiredTier)}` : reason;
 }
+
+// Leaf for wallet issuance. Buyers send their commitment and tier, and the issuer binds the
+// tier into the leaf itself, so a General buyer cannot submit a VIP leaf. A bare `leaf` is
+// refused: the issuer could not tell which tier it commits to.
+function leafForIssue(ev: EventFiles, event: TicketEvent, issuer: IssuerTree, body: any): { leaf: Hash; tier: TicketTier } | { status: number; reason: string } {
+    const { commitment, tier: rawTier } = body as { commitment?: Hash; tier?: number };
+    const tierId = parseTierField(rawTier);
+    if (tierId === null) return { status: 400, reason: "Invalid tier" };
+    const tier = findTier(event, tierId ?? 0);
+    if (!tier) return { status: 400, reason: "Unknown tier" };
+    if (!commitment) return { status: 400, reason: "Missing commitment (send the commitment, not the leaf)" };
+    if (!/^(0x)?[0-9a-fA-F]{64}$/.test(commitment)) return { status: 400, reason: "Invalid commitment" };
+    if (derivationOf(issuer) !== TICKET_DERIVATION) return { status: 409, reason: LEGACY_TREE };
+    const leaf = leafFromCommitment("0x" + commitment.replace(/^0x/, "").toLowerCase(), tier.id, hashFunctionFor(issuer.hashAlgorithm));
+    if (issuerMerkle(ev, issuer).indexOf(leaf) >= 0) return { status: 409, reason: "Leaf already issued" };
+    // Enforce Merkle capacity, then the tier's own capacity
+    if (issuer.leaves.length >= issuerMerkle(ev, issuer).capacity()) {
+        return { status: 409, reason: "Merkle tree is full (All Tickets are sold)" };
+    }
+    if (tierSoldOut(tier, soldInTier(issuer, tier.id))) return { status: 409, reason: `${tier.name} tickets are sold out` };
+    return { leaf, tier };
+}
+
+// txIds currently being verified, so two concurrent requests cannot both spend the same payment
+const txIdsInFlight = new Set<string>();
+
+// Expired intents stay claimable for a day (a payment mined inside the window may be reported late)
+const INTENT_RETENTION_MS = 24 * 60 * 60 * 1000;
+function pruneIntents(intents: PaymentIntent[], now: number): PaymentIntent[] {
+    return intents.filter(i => (i.usedAt ?? i.expiresAt) + INTENT_RETENTION_MS > now);
+}
+
 function sanitizeBuyer(b: any): BuyerInfo | null {
     if (!b || !b.consent) return null; // require explicit consent
     const out: BuyerInfo = { consent: true };
@@ -79,46 +428,413 @@ function sanitizeBuyer(b: any): BuyerInfo | null {
     return out;
 }
 
-// Hard-coded receiver address (requested)
-const HARDCODED_ISSUER_ADDRESS = "mn_shield-addr_test1lz3swvmx3nuh5f98857se90cmc9fqe0hg26mf6gkctaslsr3su2sxqpyyjdmdtulmjetd2w4g52r2pm4u6pahcv5pd8y7ukljkpgy5a2qg83reu6";
-let issuerAddress: string = HARDCODED_ISSUER_ADDRESS;
+// Optional buyer info sent along with an issuance
+function saveBuyer(ev: EventFiles, raw: unknown, leaf: Hash, index: number) {
+    const buyer = sanitizeBuyer(raw);
+    if (!buyer) return;
+    buyer.leaf = leaf;
+    buyer.index = index;
+    buyer.savedAt = Date.now();
+    store.addBuyer(ev.id, buyer);
+}
+
+// Receiver address from the network profile (or TICKETS_ISSUER_ADDRESS) until ISSUER_SEED gives one
+let issuerAddress: string = NETWORK.issuerAddress ?? "";
 
-// Optional: If ISSUER_SEED is provided, override the hard-coded address with derived one
+// Payment verification for /paid-issue, chosen by TICKETS_PAYMENT_VERIFIER:
+// - indexer (default): look the txId up on the indexer; needs ISSUER_SEED to read shielded receipts
+// - fake: payments listed in TICKETS_FAKE_PAYMENTS (JSON file of { txId, amount | amountTdust, recipient?, final?, timestamp? },
+//   amount in atomic units, amountTdust as a decimal tDust string like "10.000123")
+// - none: accept any unused txId (the old demo behavior; never in production)
+const PAYMENT_VERIFIER_MODE = process.env.TICKETS_PAYMENT_VERIFIER || "indexer";
+let paymentVerifier: PaymentVerifier | null = null;
+if (PAYMENT_VERIFIER_MODE === "fake") {
+    const fake = new FakePaymentVerifier();
+    const file = process.env.TICKETS_FAKE_PAYMENTS;
+    const list = file && fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf-8")) as any[] : [];
+    for (const p of list) {
+        const amount = p.amount != null ? BigInt(p.amount) : tdustToAtomic(String(p.amountTdust));
+        fake.add(p.txId, { recipient: p.recipient || issuerAddress, amount, final: p.final, timestamp: p.timestamp });
+    }
+    paymentVerifier = fake;
+    console.warn(`Payment verification: fake (${list.length} payments)`);
+} else if (PAYMENT_VERIFIER_MODE === "none") {
+    console.warn("Payment verification DISABLED (TICKETS_PAYMENT_VERIFIER=none): any unused txId mints a ticket");
+} else if (PAYMENT_VERIFIER_MODE !== "indexer") {
+    console.error(`Unknown TICKETS_PAYMENT_VERIFIER "${PAYMENT_VERIFIER_MODE}" (indexer, fake or none)`);
+    process.exit(1);
+}
+
+function tdustToAtomic(tdust: string): bigint {
+    const [whole, frac = ""] = tdust.split(".");
+    return BigInt(whole) * TDUST_ATOMIC_UNITS + BigInt(frac.padEnd(6, "0").slice(0, 6));
+}
+
+// Optional: If ISSUER_SEED is provided, override the profile's address with derived one
 (async () => {
     try {
         const seed = process.env.ISSUER_SEED;
         if (!seed) {
-            console.log("Using hard-coded issuer address:", issuerAddress);
+            if (issuerAddress) console.log(`Using the ${NETWORK.name} profile's issuer address:`, issuerAddress);
+            else console.warn(`No issuer address for network "${NETWORK.name}": set ISSUER_SEED or TICKETS_ISSUER_ADDRESS for paid issuance`);
+            if (PAYMENT_VERIFIER_MODE === "indexer") console.warn("ISSUER_SEED not set: paid issuance is unavailable until it is");
             return;
         }
         const wallet = await WalletBuilder.buildFromSeed(
-            TESTNET_CONFIG.indexer,
-            TESTNET_CONFIG.indexerWS,
-            TESTNET_CONFIG.proofServer,
-            TESTNET_CONFIG.node,
+            NETWORK.indexer,
+            NETWORK.indexerWS,
+            NETWORK.proofServer,
+            NETWORK.node,
             seed,
             getZswapNetworkId(),
             "warn"
         );
         wallet.start();
-        const state = await (await import("rxjs")).firstValueFrom(wallet.state());
+        const state = await Rx.firstValueFrom(wallet.state());
         issuerAddress = state.address;
         await wallet.close();
         console.log("Issuer address (from seed):", issuerAddress);
+        if (PAYMENT_VERIFIER_MODE === "indexer") {
+            paymentVerifier = new IndexerPaymentVerifier(NETWORK.indexer, {
+                recipient: issuerAddress,
+                decodeReceipt: shieldedReceiptDecoder(SecretKeys.fromSeed(fromHex(seed))),
+                minConfirmations: process.env.TICKETS_PAYMENT_CONFIRMATIONS ? Number(process.env.TICKETS_PAYMENT_CONFIRMATIONS) : undefined
+            });
+        }
     } catch (e) {
-        console.warn("Failed to initialize issuer wallet; falling back to hard-coded address:", issuerAddress, "-", (e as any)?.message || e);
+        console.warn("Failed to initialize issuer wallet; falling back to the profile's address:", issuerAddress || "(none)", "-", (e as any)?.message || e);
     }
 })();
 
-app.get("/api/state", (_req: Request, res: Response) => {
-    res.json(readOnchain());
+// On-chain link for the default event (one deployment holds one tree), chosen by TICKETS_CHAIN:
+// - off (default): the store is the whole truth; the contract is never read or written
+// - sync: follow the contract in deployment.json (TICKETS_DEPLOYMENT) through the indexer. /api/state
+//   reports its confirmed view, and nullifiers found on chain (CLI redemptions) are merged into the store
+// - publish: sync, and publish pending roots and nullifiers from the ISSUER_SEED wallet: a root per
+//   TICKETS_PUBLISH_BATCH new tickets (default 10) or every TICKETS_PUBLISH_INTERVAL_MS (default 30000)
+const CHAIN_MODE = process.env.TICKETS_CHAIN || "off";
+if (!["off", "sync", "publish"].includes(CHAIN_MODE)) {
+    console.error(`Unknown TICKETS_CHAIN "${CHAIN_MODE}" (off, sync or publish)`);
+    process.exit(1);
+}
+const DEPLOYMENT_FILE = process.env.TICKETS_DEPLOYMENT || "deployment.json";
+// Never follow a contract deployed on another network than this server's
+if (CHAIN_MODE !== "off" && fs.existsSync(DEPLOYMENT_FILE)) {
+    try {
+        readDeployment(DEPLOYMENT_FILE, NETWORK);
+    } catch (e: any) {
+        console.error(e?.message || e);
+        process.exit(1);
+    }
+}
+let chainSync: ChainSync | null = null;
+let chainPublisher: ChainPublisher | null = null;
+let chainError: string | null = null;
+if (CHAIN_MODE !== "off") {
+    (async () => {
+        try {
+            const deployment = readDeployment(DEPLOYMENT_FILE, NETWORK);
+            const TicketsModule = await loadTicketsContract();
+            const sync = new ChainSync(
+                indexerPublicDataProvider(NETWORK.indexer, NETWORK.indexerWS),
+                deployment.contractAddress,
+                TicketsModule
+            );
+            sync.onUpdate(ledger => mergeChainNullifiers(eventFiles(DEFAULT_EVENT_ID), sync.contractAddress, ledger.nullifiers));
+            sync.start();
+            chainSync = sync;
+            console.log(`Following contract ${deployment.contractAddress} on ${NETWORK.label} for event "${DEFAULT_EVENT_ID}"`);
+            if (CHAIN_MODE !== "publish") return;
+            const seed = process.env.ISSUER_SEED;
+            if (!seed) throw new Error("TICKETS_CHAIN=publish needs ISSUER_SEED (the wallet that pays for publishing)");
+            const wallet = await WalletBuilder.buildFromSeed(
+                NETWORK.indexer,
+                NETWORK.indexerWS,
+                NETWORK.proofServer,
+                NETWORK.node,
+                seed,
+                getZswapNetworkId(),
+                "warn"
+            );
+            wallet.start();
+            await Rx.firstValueFrom(wallet.state().pipe(Rx.filter(s => s.syncProgress?.synced === true)));
+            const deployed: any = await findDeployedContract(await ticketProviders(wallet, NETWORK), {
+                contractAddress: deployment.contractAddress,
+                contract: new TicketsModule.Contract(witnesses),
+                privateStateId: PRIVATE_STATE_ID,
+                // Publishing is issuer-only: ISSUER_SEED must be the wallet that deployed the contract
+                initialPrivateState: emptyPrivateState(issuerSecretKeyFromSeed(seed))
+            });
+            chainPublisher = new ChainPublisher(deployed.callTx, sync, () => localTree(eventFiles(DEFAULT_EVENT_ID)), {
+                batchSize: process.env.TICKETS_PUBLISH_BATCH ? Number(process.env.TICKETS_PUBLISH_BATCH) : undefined,
+                intervalMs: process.env.TICKETS_PUBLISH_INTERVAL_MS ? Number(process.env.TICKETS_PUBLISH_INTERVAL_MS) : undefined,
+                log: console.log
+            });
+            chainPublisher.start();
+            console.log("Publishing pending roots and nullifiers to the contract");
+        } catch (e: any) {
+            chainError = e?.message || String(e);
+            console.error(`Chain link (TICKETS_CHAIN=${CHAIN_MODE}) unavailable: ${chainError}`);
+        }
+    })();
+}
+
+// Marks the store's nullifiers the contract now holds. Nullifiers spent only on chain (e.g. a CLI
+// redeem proof) are spent here too; the contract's set is only walked when it holds such extras.
+// Only the event's own contract counts: after an init against a new deployment, the old contract
+// this server still follows until restart would otherwise hand back the previous run's nullifiers.
+function mergeChainNullifiers(ev: EventFiles, contractAddress: string, nullifiers: NullifierSet) {
+    store.transaction(() => {
+        const onchain = store.getOnchain(ev.id);
+        if (!onchain) return;
+        if (onchain.contractAddress && onchain.contractAddress !== contractAddress) return;
+        if (!onchain.contractAddress) writeOnchain(ev, { ...onchain, contractAddress });
+        const unconfirmed = store.unconfirmedNullifiers(ev.id);
+        const seen = unconfirmed.filter(n => nullifiers.has(n));
+        store.confirmNullifiers(ev.id, seen);
+        const confirmedHere = store.nullifierCount(ev.id) - (unconfirmed.length - seen.length);
+        if (nullifiers.size <= confirmedHere) return;
+        for (const raw of nullifiers) {
+            const n = raw.toLowerCase();
+            store.addNullifier(ev.id, n);
+            store.confirmNullifiers(ev.id, [n]);
+        }
+    });
+}
+
+// Root the event's tree had after its first `count` leaves
+function rootAt(ev: EventFiles, count: number): Hash {
+    if (count === 0) return "";
+    const issuer = readIssuerTree(ev);
+    if (issuer) return new MerkleTree(issuer.depth, issuer.leaves.slice(0, count), hashFunctionFor(issuer.hashAlgorithm)).getRoot();
+    const system = localSystem(ev);
+    return system && count <= system.getLeafCount() ? system.rootAt(count) : "";
+}
+
+function localTree(ev: EventFiles): LocalTree | null {
+    const onchain = store.getOnchain(ev.id);
+    return onchain ? { ...onchain, nullifiers: store.unconfirmedNullifiers(ev.id), rootAt: count => rootAt(ev, count) } : null;
+}
+
+function chainLinked(ev: EventFiles): boolean {
+    return ev.id === DEFAULT_EVENT_ID && CHAIN_MODE !== "off";
+}
+
+// The chain as the publisher last saw it land, else as the subscription reports it
+function confirmedLedger(ev: EventFiles): TicketLedgerStateOnChain | null {
+    if (!chainLinked(ev)) return null;
+    return chainPublisher?.confirmed() ?? chainSync?.status().confirmed ?? null;
+}
+
+function ledgerJson({ nullifiers, ...ledger }: TicketLedgerStateOnChain) {
+    return { ...ledger, nullifierCount: nullifiers.size };
+}
+
+// Confirmed (contract) and pending (store, not yet on chain) views for /api/state
+function chainView(ev: EventFiles) {
+    const linked = chainLinked(ev);
+    const sync = linked ? chainSync?.status() ?? null : null;
+    const confirmed = confirmedLedger(ev);
+    const local = confirmed ? localTree(ev) : null;
+    return {
+        confirmed: confirmed ? ledgerJson(confirmed) : null,
+        pending: confirmed && local ? pendingChanges(local, confirmed) : null,
+        chain: {
+            mode: linked ? CHAIN_MODE : "off",
+            contractAddress: sync?.contractAddress ?? null,
+            syncedAt: sync?.syncedAt ?? null,
+            publisher: linked ? chainPublisher?.status() ?? null : null,
+            error: linked ? chainError ?? sync?.error ?? null : null
+        }
+    };
+}
+
+// Publication status of the event's tickets: the first `anchored` leaves are under a confirmed
+// root, the rest wait for the next batch. null when the event is not linked to a contract.
+function publicationSummary(ev: EventFiles) {
+    if (!chainLinked(ev)) return null;
+    const leafCount = readOnchain(ev).leafCount;
+    const confirmed = confirmedLedger(ev);
+    const local = confirmed ? localTree(ev) : null;
+    const anchored = confirmed && local ? anchoredLeafCount(local, confirmed) : 0;
+    return { synced: confirmed != null, anchored, pending: leafCount - anchored, publisher: chainPublisher?.status() ?? null };
+}
+
+// Runs once the issuing transaction has committed
+function afterIssue() {
+    setImmediate(() => chainPublisher?.notify());
+}
+
+// Who let a ticket in, for the gate log. Scanners sign every check-in with a registered device
+// (body `device: { id, at, signature }`); an admin (developer demo, scripts, TICKETS_AUTH=off) may
+// check in without one, which the log records as unsigned at the "issuer" gate.
+function gateCheckIn(ev: EventFiles, res: Response, device: any, nullifier: Hash): GateLogFields | { reason: string; status: number } {
+    const principal = res.locals.principal as Principal;
+    const now = Date.now();
+    if (device == null) {
+        if (principal.role !== "admin") return { reason: "Check-ins need a registered scanner device: send device { id, at, signature }", status: 403 };
+        return { eventId: ev.id, gateId: UNSIGNED_GATE_ID, deviceId: null, nullifier, at: now, receivedAt: now, principal: principal.name, signature: null };
+    }
+    const registered = store.getDevice(String(device.id ?? ""));
+    if (!registered) return { reason: "Unknown scanner device; register it first", status: 403 };
+    if (registered.revokedAt) return { reason: "Scanner device revoked", status: 403 };
+    const at = Number(device.at);
+    if (!Number.isSafeInteger(at) || at > now + CHECKIN_MAX_SKEW_MS) return { reason: "Invalid check-in time", status: 400 };
+    const signature = String(device.signature ?? "");
+    if (!verifyCheckIn(registered, { eventId: ev.id, deviceId: registered.id, nullifier, at }, signature)) {
+        return { reason: "Device signature rejected", status: 403 };
+    }
+    return { eventId: ev.id, gateId: registered.gateId, deviceId: registered.id, nullifier, at, receivedAt: now, principal: principal.name, signature };
+}
+
+// Chains the check-in onto the event's log; runs in the spending transaction
+function appendGateLog(ev: EventFiles, fields: GateLogFields) {
+    const entry = chainEntry(store.lastGateLogEntry(ev.id), fields);
+    store.appendGateLog(ev.id, entry);
+    return { gateId: entry.gateId, deviceId: entry.deviceId, seq: entry.seq };
+}
+
+// Sign-in for admins and scanners: an API key, or a signed challenge from a registered wallet key.
+// Both return a session token for `Authorization: Bearer`.
+app.post("/api/auth/login", (req: Request, res: Response) => {
+    const principal = typeof req.body?.apiKey === "string" ? auth.checkApiKey(req.body.apiKey) : null;
+    if (!principal) return res.status(401).json({ ok: false, reason: "Unknown API key" });
+    res.json({ ok: true, role: principal.role, name: principal.name, ...auth.session(principal) });
+});
+
+app.post("/api/auth/challenge", (_req: Request, res: Response) => {
+    res.json({ ok: true, ...auth.challenge() });
+});
+
+app.post("/api/auth/wallet", (req: Request, res: Response) => {
+    const { verifyingKey, challenge, signature } = req.body as { verifyingKey?: string; challenge?: string; signature?: string };
+    if (!verifyingKey || !challenge || !signature) return res.status(400).json({ ok: false, reason: "Missing verifyingKey, challenge or signature" });
+    const principal = auth.verifyChallenge(String(verifyingKey), String(challenge), String(signature), store);
+    if (!principal) return res.status(401).json({ ok: false, reason: "Signature rejected (unknown wallet key, or expired or reused challenge)" });
+    res.json({ ok: true, role: principal.role, name: principal.name, ...auth.session(principal) });
+});
+
+// The caller's role; `authRequired: false` when the server runs with TICKETS_AUTH=off
+app.get("/api/auth/me", (req: Request, res: Response) => {
+    const principal = principalOf(req);
+    res.json({ ok: true, authRequired: auth.enabled, role: principal?.role ?? "buyer", name: principal?.name ?? null });
+});
+
+// Scanner devices. A signed-in scanner registers its own device key for a gate; registering again
+// moves it to another gate, which only its registrant or an admin may do. Admins list and revoke.
+// Devices are shared by all events.
+app.post("/api/devices", requireRole("scanner"), (req: Request, res: Response) => {
+    const principal = res.locals.principal as Principal;
+    let device: ScannerDevice;
+    try {
+        device = newDevice(req.body ?? {}, principal.name);
+    } catch (e: any) {
+        return res.status(400).json({ ok: false, reason: e.message });
+    }
+    const existing = store.getDevice(device.id);
+    if (existing?.revokedAt) return res.status(403).json({ ok: false, reason: "This device key was revoked; generate a new one" });
+    if (existing && existing.registeredBy !== principal.name && !Auth.allows(principal, "admin")) {
+        // Someone else's key: it stays at its gate, and registering it again does not make it theirs
+        if (existing.gateId !== device.gateId) {
+            return res.status(403).json({ ok: false, reason: `This device key is registered for gate "${existing.gateId}" by another scanner; an admin can move it` });
+        }
+        return res.json({ ok: true, device: existing });
+    }
+    // An admin moving a scanner's key leaves it that scanner's
+    if (existing) device.registeredBy = existing.registeredBy;
+    store.putDevice(device);
+    res.json({ ok: true, device });
+});
+
+app.get("/api/devices", requireRole("admin"), (_req: Request, res: Response) => {
+    res.json({ ok: true, devices: store.getDevices() });
+});
+
+app.get("/api/devices/:id", requireRole("scanner"), (req: Request, res: Response) => {
+    const device = store.getDevice(req.params.id);
+    if (!device) return res.status(404).json({ ok: false, reason: "Unknown scanner device" });
+    res.json({ ok: true, device });
+});
+
+app.post("/api/devices/:id/revoke", requireRole("admin"), (req: Request, res: Response) => {
+    const device = store.getDevice(req.params.id);
+    if (!device) return res.status(404).json({ ok: false, reason: "Unknown scanner device" });
+    if (!device.revokedAt) store.putDevice({ ...device, revokedAt: Date.now() });
+    res.json({ ok: true, device: store.getDevice(device.id) });
+});
+
+// Events. Every route on `api` is event-scoped and served both at /api/... (default event,
+// original paths) and at /api/events/:eventId/...
+app.get("/api/events", (_req: Request, res: Response) => {
+    const list = events.list().map(event => {
+        const ev = eventFiles(event.id);
+        const onchain = readOnchain(ev);
+        return {
+            ...event,
+            initialized: store.getIssuerTree(ev.id) != null,
+            depth: onchain.depth,
+            maxAgeMs: onchain.maxAgeMs,
+            leafCount: onchain.leafCount,
+            root: onchain.root,
+            tiers: tierSummary(event, readIssuerTree(ev))
+        };
+    });
+    res.json({ ok: true, events: list });
+});
+
+app.post("/api/events", requireRole("admin"), (req: Request, res: Response) => {
+    try {
+        const { id, name, priceTdust } = req.body as { id?: string; name?: string; priceTdust?: number };
+        const params = parseInitParams(req.body);
+        if ("reason" in params) return res.status(400).json({ ok: false, reason: params.reason });
+        const price = priceTdust == null ? DEFAULT_PRICE_TDUST : parsePrice(priceTdust);
+        if (price == null) return res.status(400).json({ ok: false, reason: "priceTdust must be a non-negative integer" });
+        let event: TicketEvent;
+        try {
+            const tiers = req.body.tiers == null ? undefined : parseTiers(req.body.tiers);
+            event = events.create({ id: String(id || ""), name: String(name || id || "").slice(0, 120), priceTdust: price, tiers });
+        } catch (e: any) {
+            return res.status(400).json({ ok: false, reason: e.message });
+        }
+        const onchain = initEvent(eventFiles(event.id), params);
+        res.json({ ok: true, event, onchain });
+    } catch (e: any) {
+        res.status(500).json({ ok: false, reason: e?.message || 'create event failed' });
+    }
+});
+
+app.use("/api/events/:eventId", (req: Request, res: Response, next) => {
+    const event = events.get(req.params.eventId);
+    if (!event) return res.status(404).json({ ok: false, reason: "Unknown event" });
+    res.locals.event = event;
+    next();
+}, api);
+app.use("/api", (_req: Request, res: Response, next) => {
+    res.locals.event = events.get(DEFAULT_EVENT_ID);
+    next();
+}, api);
+
+// Top-level fields are the store's (pending) view, as before; `confirmed` is the contract's
+api.get("/state", (_req: Request, res: Response) => {
+    const ev = eventOf(res);
+    res.json({ ...stateJson(ev, readOnchain(ev)), ...chainView(ev) });
+});
+
+// Whether one ticket is spent, without listing the rest; `onChain` once the contract's set holds it
+api.get("/nullifiers/:nullifier", (req: Request, res: Response) => {
+    const ev = eventOf(res);
+    const nullifier = String(req.params.nullifier).toLowerCase();
+    if (!/^0x[0-9a-f]{64}$/.test(nullifier)) return res.status(400).json({ ok: false, reason: "Invalid nullifier" });
+    const onChain = chainLinked(ev) ? confirmedLedger(ev)?.nullifiers.has(nullifier) ?? null : null;
+    res.json({ ok: true, nullifier, spent: store.hasNullifier(ev.id, nullifier), onChain });
 });
 
-// Buyers (issuer-only view; demo-level exposure)
-app.get("/api/buyers", (_req: Request, res: Response) => {
+// Buyers (issuer-only view: names and emails)
+api.get("/buyers", requireRole("admin"), (_req: Request, res: Response) => {
+    const ev = eventOf(res);
     try {
         res.setHeader('Cache-Control', 'no-store');
-        const list = readBuyers().buyers.map(b => ({
+        const list = store.getBuyers(ev.id).map(b => ({
             name: b.name || undefined,
             email: b.email || undefined,
             index: b.index,
@@ -130,72 +846,187 @@ app.get("/api/buyers", (_req: Request, res: Response) => {
     }
 });
 
-app.get("/api/tickets", (_req: Request, res: Response) => {
-    const system = TicketSystem.fromLocal();
-    res.json({ tickets: system ? system.getRecords() : [] });
+// Server-held ticket secrets of the developer demo
+api.get("/tickets", requireRole("admin"), (_req: Request, res: Response) => {
+    const ev = eventOf(res);
+    const system = localSystem(ev);
+    const publication = publicationSummary(ev);
+    const tickets = system ? system.getRecords() : [];
+    res.json({
+        tickets: publication ? tickets.map(t => ({ ...t, publication: t.index < publication.anchored ? "anchored" : "pending" })) : tickets,
+        publication
+    });
+});
+
+// Gate audit log of the event: `?gate=` and `?device=` filter the entries, `?format=csv` exports
+// them. `verification` always covers the whole chain, whatever the filter. `conflicts` are tickets
+// admitted twice, reported when an offline scanner synced (/checkins/sync).
+api.get("/audit", requireRole("admin"), (req: Request, res: Response) => {
+    const ev = eventOf(res);
+    const log = store.getGateLog(ev.id);
+    const { gate, device, format } = req.query as { gate?: string; device?: string; format?: string };
+    const entries = log.filter(e => (!gate || e.gateId === gate) && (!device || e.deviceId === device));
+    res.setHeader('Cache-Control', 'no-store');
+    if (format === "csv") {
+        const suffix = gate ? `-${gate}` : device ? `-${device}` : "";
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader("Content-Disposition", `attachment; filename="${ev.id}-gate-log${suffix}.csv"`);
+        return res.send(gateLogCsv(entries));
+    }
+    const devices = new Map(store.getDevices().map(d => [d.id, d]));
+    const conflicts = store.getCheckInConflicts(ev.id).filter(c => (!gate || c.gateId === gate || c.first?.gateId === gate)
+        && (!device || c.deviceId === device || c.first?.deviceId === device));
+    res.json({ ok: true, verification: verifyGateLog(log, devices), gates: gateSummary(log), entries, conflicts });
 });
 
 // Payment info (for Lace Midnight Preview demo)
-app.get("/api/payment-info", (_req: Request, res: Response) => {
-    // Price: 10 tDust (as requested)
-    const priceTdust = 10; // integer tDust units
-    res.json({ ok: true, issuerAddress, priceTdust, network: "Midnight Testnet" });
+api.get("/payment-info", (_req: Request, res: Response) => {
+    const event = res.locals.event as TicketEvent;
+    // Per-event price, integer tDust units (10 unless set at init/creation); tiers carry their own
+    res.json({
+        ok: true, issuerAddress, priceTdust: event.priceTdust, eventId: event.id, network: NETWORK.label,
+        tiers: tierSummary(event, readIssuerTree(eventOf(res)))
+    });
+});
+
+// Tier config with sold counts per tier
+api.get("/tiers", (_req: Request, res: Response) => {
+    const event = res.locals.event as TicketEvent;
+    res.json({ ok: true, tiers: tierSummary(event, readIssuerTree(eventOf(res))) });
 });
 
-app.post("/api/init", (req: Request, res: Response) => {
+type InitParams = { maxAgeMs: number; depth: number; hashAlgorithm: HashAlgorithm; rootHistorySize: number };
+
+function parseInitParams(body: any): InitParams | { reason: string } {
+    const { maxAgeHours, depth, hashAlgorithm: hashRaw, rootHistorySize: historyRaw } = body as {
+        maxAgeHours: number; depth: number; hashAlgorithm?: string; rootHistorySize?: number;
+    };
+    if (maxAgeHours == null || isNaN(Number(maxAgeHours))) return { reason: "maxAgeHours must be a number" };
+    if (depth == null || isNaN(Number(depth)) || Number(depth) <= 0 || Number(depth) > 32) {
+        return { reason: "depth must be an integer between 1 and 32" };
+    }
+    if (hashRaw != null && !isHashAlgorithm(hashRaw)) return { reason: "hashAlgorithm must be sha256 or poseidon" };
+    const rootHistorySize = historyRaw == null ? DEFAULT_ROOT_HISTORY : Number(historyRaw);
+    if (!Number.isInteger(rootHistorySize) || rootHistorySize < 1 || rootHistorySize > MAX_ROOT_HISTORY) {
+        return { reason: `rootHistorySize must be an integer between 1 and ${MAX_ROOT_HISTORY}` };
+    }
+    return {
+        maxAgeMs: Math.floor(Number(maxAgeHours) * 60 * 60 * 1000),
+        depth: Number(depth),
+        hashAlgorithm: hashRaw ?? "sha256",
+        rootHistorySize
+    };
+}
+
+function parsePrice(raw: unknown): number | null {
+    const n = Number(raw);
+    return Number.isInteger(n) && n >= 0 ? n : null;
+}
+
+// The contract deployment.json points at now, if the event follows the chain
+function deployedContract(ev: EventFiles): string | undefined {
+    if (!chainLinked(ev)) return undefined;
     try {
-        const { maxAgeHours, depth } = req.body as { maxAgeHours: number; depth: number };
-        if (maxAgeHours == null || isNaN(Number(maxAgeHours))) {
-            return res.status(400).json({ ok: false, reason: "maxAgeHours must be a number" });
-        }
-        if (depth == null || isNaN(Number(depth)) || Number(depth) <= 0 || Number(depth) > 32) {
-            return res.status(400).json({ ok: false, reason: "depth must be an integer between 1 and 32" });
-        }
-        const maxAgeMs = Math.floor(Number(maxAgeHours) * 60 * 60 * 1000);
-        const d = Number(depth);
-        // Initialize local system file too
-        const system = new TicketSystem(d, maxAgeMs);
+        return readDeployment(DEPLOYMENT_FILE, NETWORK).contractAddress;
+    } catch {
+        return undefined;
+    }
+}
+
+// (Re)initialize one event: wipes its tickets, leaves and nullifiers, and binds it to the current
+// deployment so chain syncs of an earlier contract no longer merge into it
+function initEvent(ev: EventFiles, p: InitParams) {
+    clearEventCaches(ev);
+    const onchain: OnchainDoc = {
+        version: 1, root: "", maxAgeMs: p.maxAgeMs, leafCount: 0, depth: p.depth,
+        hashAlgorithm: p.hashAlgorithm, derivation: TICKET_DERIVATION, recentRoots: [], rootHistorySize: p.rootHistorySize,
+        contractAddress: deployedContract(ev)
+    };
+    store.transaction(() => {
+        // Initialize local system state too
+        const system = new TicketSystem(p.depth, p.maxAgeMs, [], p.hashAlgorithm, masterSeedFor(ev), localSink(ev));
         system.saveLocal();
-        const onchain = { version: 1, root: "", maxAgeMs, nullifiers: [], leafCount: 0, depth: d };
-        writeOnchain(onchain);
+        writeOnchain(ev, onchain);
+        store.resetNullifiers(ev.id);
         // Initialize issuer-only tree (no secrets)
-        writeIssuerTree({ depth: d, leaves: [], maxAgeMs });
-        res.json({ ok: true, ...onchain });
+        store.putIssuerTree(ev.id, { depth: p.depth, leaves: [], maxAgeMs: p.maxAgeMs, hashAlgorithm: p.hashAlgorithm, derivation: TICKET_DERIVATION });
+        localSystemCache.set(ev.id, system);
+    });
+    return stateJson(ev, onchain);
+}
+
+// Optional name/priceTdust/tiers in the body update the event as well
+api.post("/init", requireRole("admin"), requireConfirmation("init"), (req: Request, res: Response) => {
+    const ev = eventOf(res);
+    try {
+        const params = parseInitParams(req.body);
+        if ("reason" in params) return res.status(400).json({ ok: false, reason: params.reason });
+        const { name, priceTdust, tiers: tiersRaw } = req.body as { name?: string; priceTdust?: number; tiers?: unknown };
+        if (priceTdust != null && parsePrice(priceTdust) == null) {
+            return res.status(400).json({ ok: false, reason: "priceTdust must be a non-negative integer" });
+        }
+        let tiers: TicketTier[] | undefined;
+        try {
+            if (tiersRaw != null && tiersRaw !== "") tiers = parseTiers(tiersRaw);
+        } catch (e: any) {
+            return res.status(400).json({ ok: false, reason: e.message });
+        }
+        if (name || priceTdust != null || tiers) {
+            events.update(ev.id, {
+                ...(name ? { name: String(name).slice(0, 120) } : {}),
+                ...(priceTdust != null ? { priceTdust: Number(priceTdust) } : {}),
+                ...(tiers ? { tiers } : {})
+            });
+        }
+        res.json({ ok: true, ...initEvent(ev, params) });
     } catch (e: any) {
         res.status(500).json({ ok: false, reason: e?.message || 'init failed' });
     }
 });
 
-// Reset all local demo state (issued tickets, issuer leaves, onchain JSON)
+// Reset one event's local demo state (issued tickets, issuer leaves, onchain JSON)
 const doReset = (_req: Request, res: Response) => {
-    try {
-        const localPath = path.join(DATA_DIR, '.tickets.local.json');
-        const onchainPath = path.join(DATA_DIR, '.tickets.onchain.json');
-        const issuerPath = path.join(DATA_DIR, '.issuer.tree.json');
-        const buyersPath = path.join(DATA_DIR, '.buyers.json');
-        const paymentsPath = path.join(DATA_DIR, '.payments.json');
-        if (fs.existsSync(localPath)) fs.unlinkSync(localPath);
-        if (fs.existsSync(onchainPath)) fs.unlinkSync(onchainPath);
-        if (fs.existsSync(issuerPath)) fs.unlinkSync(issuerPath);
-        // Also clear optional stores so a fresh initialize truly resets the environment
-        if (fs.existsSync(buyersPath)) fs.unlinkSync(buyersPath);
-        if (fs.existsSync(paymentsPath)) fs.unlinkSync(paymentsPath);
-    } catch { }
+    const ev = eventOf(res);
+    clearEventCaches(ev);
+    // Buyers, used txIds and intents go too, so a fresh initialize truly resets the environment
+    store.clearEvent(ev.id);
     res.json({ ok: true });
 };
-app.post('/api/reset', doReset);
-app.get('/api/reset', doReset);
+api.post("/reset", requireRole("admin"), requireConfirmation("reset"), doReset);
+
+// Confirmation token for init or reset of this event, valid for two minutes. Body: { action }
+api.post("/confirm", requireRole("admin"), (req: Request, res: Response) => {
+    const action = req.body?.action;
+    if (!CONFIRM_ACTIONS.includes(action)) return res.status(400).json({ ok: false, reason: `action must be ${CONFIRM_ACTIONS.join(" or ")}` });
+    const ev = eventOf(res);
+    res.json({ ok: true, action, eventId: ev.id, ...auth.confirmation(res.locals.principal, action, ev.id) });
+});
 
-app.post("/api/issue", (_req: Request, res: Response) => {
+api.post("/issue", requireRole("admin"), (req: Request, res: Response) => {
+    const ev = eventOf(res);
     try {
-        let onchain = readOnchain();
-        if (!onchain.depth || !onchain.maxAgeMs) return res.status(400).json({ ok: false, reason: "Not initialized" });
-        let system = TicketSystem.fromLocal() || new TicketSystem(onchain.depth, onchain.maxAgeMs);
-        const rec = system.issueTicket();
-        onchain.root = system.getRoot();
-        onchain.leafCount = system.getLeafCount();
-        writeOnchain(onchain);
-        res.json({ ticket: rec, onchain });
+        sendInTransaction(ev, res, () => {
+            const onchain = readOnchain(ev);
+            if (!onchain.depth || !onchain.maxAgeMs) return reply({ ok: false, reason: "Not initialized" }, 400);
+            const tierId = parseTierField(req.body?.tier);
+            const tier = tierId === null ? null : findTier(res.locals.event, tierId ?? 0);
+            if (!tier) return reply({ ok: false, reason: "Unknown tier" }, 400);
+            let system = localSystem(ev);
+            if (!system) {
+                system = new TicketSystem(onchain.depth, onchain.maxAgeMs, [], onchain.hashAlgorithm, masterSeedFor(ev), localSink(ev), derivationOf(onchain));
+                localSystemCache.set(ev.id, system);
+            }
+            if (tierSoldOut(tier, system.countTier(tier.id))) {
+                return reply({ ok: false, reason: `${tier.name} tickets are sold out` }, 409);
+            }
+            const rec = system.issueTicket(tier.id);
+            recordRoot(onchain, system.getRoot());
+            onchain.leafCount = system.getLeafCount();
+            writeOnchain(ev, onchain);
+            afterIssue();
+            const payload = payloadKey.payloadFor(ev.id, rec, hashFunctionFor(system.hashAlgorithm), system.getRoot(), system.derivation);
+            return reply({ ticket: rec, payload, onchain: stateJson(ev, onchain) });
+        });
     } catch (e: any) {
         if ((e?.message || "").includes("Merkle tree is full")) {
             return res.status(409).json({ ok: false, reason: "Merkle tree is full (All Tickets are sold)" });
@@ -204,92 +1035,191 @@ app.post("/api/issue", (_req: Request, res: Response) => {
     }
 });
 
-app.post("/api/redeem", (req: Request, res: Response) => {
-    const { secret, issuedAt } = req.body as { secret: string; issuedAt: number };
-    const system = TicketSystem.fromLocal();
+// Bulk issuance (e.g. a whole venue): all leaves go in at once under a single new root, and the
+// response carries each ticket's v2 QR payload for the export bundle. Body: { count, tier }
+const MAX_ISSUE_BATCH = 10_000;
+api.post("/issue-batch", requireRole("admin"), (req: Request, res: Response) => {
+    const ev = eventOf(res);
+    const count = Number(req.body?.count);
+    if (!Number.isSafeInteger(count) || count < 1 || count > MAX_ISSUE_BATCH) {
+        return res.status(400).json({ ok: false, reason: `count must be an integer between 1 and ${MAX_ISSUE_BATCH}` });
+    }
+    try {
+        sendInTransaction(ev, res, () => {
+            const onchain = readOnchain(ev);
+            if (!onchain.depth || !onchain.maxAgeMs) return reply({ ok: false, reason: "Not initialized" }, 400);
+            const tierId = parseTierField(req.body?.tier);
+            const tier = tierId === null ? null : findTier(res.locals.event, tierId ?? 0);
+            if (!tier) return reply({ ok: false, reason: "Unknown tier" }, 400);
+            let system = localSystem(ev);
+            if (!system) {
+                system = new TicketSystem(onchain.depth, onchain.maxAgeMs, [], onchain.hashAlgorithm, masterSeedFor(ev), localSink(ev), derivationOf(onchain));
+                localSystemCache.set(ev.id, system);
+            }
+            const sold = system.countTier(tier.id);
+            if (tier.capacity != null && sold + count > tier.capacity) {
+                return reply({ ok: false, reason: `Only ${Math.max(tier.capacity - sold, 0)} ${tier.name} tickets left` }, 409);
+            }
+            const free = 2 ** system.depth - system.getLeafCount();
+            if (count > free) return reply({ ok: false, reason: free === 0 ? "Merkle tree is full (All Tickets are sold)" : `Only ${free} tickets left in the tree` }, 409);
+            const tickets = system.issueBatch(count, tier.id);
+            recordRoot(onchain, system.getRoot());
+            onchain.leafCount = system.getLeafCount();
+            writeOnchain(ev, onchain);
+            afterIssue();
+            return reply({
+                ok: true,
+                tickets: tickets.map(t => ({ ...t, payload: payloadKey.payloadFor(ev.id, t, hashFunctionFor(system.hashAlgorithm), system.getRoot(), system.derivation) })),
+                onchain: stateJson(ev, onchain)
+            });
+        });
+    } catch (e: any) {
+        res.status(500).json({ ok: false, reason: e?.message || 'batch issue failed' });
+    }
+});
+
+api.post("/redeem", requireRole("scanner"), (req: Request, res: Response) => {
+    const ev = eventOf(res);
+    // `proof` is optional: a path fetched earlier (e.g. from /api/proof) stays valid while its
+    // root is in the history window; otherwise a fresh one is generated against the current root.
+    // The ticket is either secret + issuedAt or the payload the batch handed out
+    const { proof: clientProof } = req.body as { proof?: { siblings: Hash[]; index: number } };
+    const fields = ticketFields(req.body);
+    if ("reason" in fields) return res.status(fields.status).json({ ok: false, reason: fields.reason });
+    const { secret, issuedAt, v2 } = fields;
+    const requiredTier = parseTierField(req.body.requiredTier);
+    if (requiredTier === null) return res.status(400).json({ ok: false, reason: "Invalid requiredTier" });
+    const system = localSystem(ev);
     if (!system) return res.status(400).json({ ok: false, reason: "No local tickets" });
     const rec = system.getRecords().find(r => r.secret === secret && r.issuedAt === issuedAt);
     if (!rec) return res.status(404).json({ ok: false, reason: "Ticket not found" });
-    const proof = system.generateProof(rec);
-    const onchain = readOnchain();
-    const attempt = { secret, issuedAt, proof, nullifier: nullifierFromSecret(secret) } as any;
-    const result = verifyRedemption(onchain, attempt, Date.now());
-    if (!result.ok) return res.status(400).json({ ok: false, reason: result.reason });
-    onchain.nullifiers = onchain.nullifiers || [];
-    onchain.nullifiers.push(attempt.nullifier);
-    writeOnchain(onchain);
-    res.json({ ok: true, nullifier: attempt.nullifier, onchain });
-});
-
-// Redemption for realistic flow: validate by computing leaf from secret+issuedAt
+    const hash = hashFunctionFor(system.hashAlgorithm);
+    const tampered = v2 && checkTicketPayloadV2(ev, v2, leafFromTicket(rec.secret, rec.issuedAt, hash, rec.tier ?? 0, system.derivation), hash);
+    if (tampered) return res.status(403).json({ ok: false, reason: tampered });
+    const proof = clientProof && Array.isArray(clientProof.siblings) ? clientProof : system.generateProof(rec);
+    const attempt = {
+        secret: rec.secret, issuedAt: rec.issuedAt, proof, tier: rec.tier ?? 0, requiredTier,
+        nullifier: nullifierFromSecret(rec.secret, hash, system.derivation)
+    };
+    // Check and record the nullifier in one transaction
+    sendInTransaction(ev, res, () => {
+        const onchain = readOnchain(ev);
+        const result = verifyRedemption({ ...onchain, nullifiers: spentSet(ev) }, attempt, Date.now());
+        if (!result.ok) return reply({ ok: false, reason: tierReason(res.locals.event, result.reason, requiredTier) }, 400);
+        const gate = gateCheckIn(ev, res, req.body.device, attempt.nullifier);
+        if ("reason" in gate) return reply({ ok: false, reason: gate.reason }, gate.status);
+        if (!store.addNullifier(ev.id, attempt.nullifier)) return reply({ ok: false, reason: "Already used" }, 400);
+        const checkIn = appendGateLog(ev, gate);
+        return reply({ ok: true, nullifier: attempt.nullifier, onchain: stateJson(ev, onchain), checkIn });
+    });
+});
+
+// Redemption for realistic flow: validate by computing leaf from secret+issuedAt (or the payload)
 // and checking membership in issuer's leaves set. Records nullifier only if valid and unexpired.
-app.post("/api/redeem-leaf", (req: Request, res: Response) => {
-    const { secret, issuedAt } = req.body as { secret: string; issuedAt: number };
+api.post("/redeem-leaf", requireRole("scanner"), (req: Request, res: Response) => {
+    const ev = eventOf(res);
+    const fields = ticketFields(req.body);
+    if ("reason" in fields) return res.status(fields.status).json({ ok: false, reason: fields.reason });
+    const { secret, issuedAt, v2 } = fields;
     if (!secret || !issuedAt) return res.status(400).json({ ok: false, reason: "Missing secret or issuedAt" });
-    const issuer = readIssuerTree();
+    const claimedTier = parseTierField(fields.tier);
+    const requiredTier = parseTierField(req.body.requiredTier);
+    if (claimedTier === null || requiredTier === null) return res.status(400).json({ ok: false, reason: "Invalid tier" });
+    const tier = claimedTier ?? 0;
+    sendInTransaction(ev, res, () => {
+        const issuer = readIssuerTree(ev);
+        if (!issuer) return reply({ ok: false, reason: "Not initialized" }, 400);
+        const onchain = readOnchain(ev);
+        // Expiry check
+        const now = Date.now();
+        if (onchain.maxAgeMs && now > issuedAt + onchain.maxAgeMs) {
+            return reply({ ok: false, reason: "Ticket expired" }, 400);
+        }
+        const hash = hashFunctionFor(issuer.hashAlgorithm);
+        const derivation = derivationOf(issuer);
+        if (derivation !== TICKET_DERIVATION && tier !== 0) return reply({ ok: false, reason: "Ticket not found" }, 404);
+        const leaf = leafFromTicket(secret, issuedAt, hash, tier, derivation);
+        const tampered = v2 && checkTicketPayloadV2(ev, v2, leaf, hash);
+        if (tampered) return reply({ ok: false, reason: tampered }, 403);
+        const idx = issuerMerkle(ev, issuer).indexOf(leaf);
+        if (idx < 0) return reply({ ok: false, reason: "Ticket not found" }, 404);
+        if (issuedTier(issuer, idx) !== tier) return reply({ ok: false, reason: TIER_MISMATCH }, 403);
+        const mismatch = wrongTier(res.locals.event, tier, requiredTier);
+        if (mismatch) return reply({ ok: false, reason: mismatch }, 403);
+        const n = nullifierFromSecret(secret, hash, derivation);
+        const gate = gateCheckIn(ev, res, req.body.device, n);
+        if ("reason" in gate) return reply({ ok: false, reason: gate.reason }, gate.status);
+        if (!store.addNullifier(ev.id, n)) return reply({ ok: false, reason: "Already used" }, 400);
+        const checkIn = appendGateLog(ev, gate);
+        return reply({ ok: true, nullifier: n, onchain: stateJson(ev, onchain), index: idx, tier: tierName(res.locals.event, tier), checkIn });
+    });
+});
+
+// Merkle path for holders to check inclusion themselves (MerkleTree.verify in the wallet).
+// `root` is the issuer tree root the siblings were computed against.
+function proofResponse(ev: EventFiles, issuer: IssuerTree, index: number) {
+    const tree = issuerMerkle(ev, issuer);
+    const { siblings } = tree.getProof(index);
+    return {
+        ok: true,
+        index,
+        leaf: issuer.leaves[index],
+        siblings,
+        root: tree.getRoot(),
+        leafCount: tree.getLeafCount(),
+        depth: issuer.depth,
+        hashAlgorithm: issuer.hashAlgorithm || "sha256",
+        derivation: derivationOf(issuer)
+    };
+}
+
+api.get("/proof/by-leaf/:leaf", (req: Request, res: Response) => {
+    const ev = eventOf(res);
+    const issuer = readIssuerTree(ev);
     if (!issuer) return res.status(400).json({ ok: false, reason: "Not initialized" });
-    const onchain = readOnchain();
-    // Expiry check
-    const now = Date.now();
-    if (onchain.maxAgeMs && (now > (Number(issuedAt) + Number(onchain.maxAgeMs)))) {
-        return res.status(400).json({ ok: false, reason: "Ticket expired" });
-    }
-    const leaf = leafFromTicket(secret, Number(issuedAt));
-    const idx = issuer.leaves.indexOf(leaf);
-    if (idx < 0) return res.status(404).json({ ok: false, reason: "Ticket not found" });
-    const n = nullifierFromSecret(secret);
-    onchain.nullifiers = onchain.nullifiers || [];
-    if (onchain.nullifiers.includes(n)) return res.status(400).json({ ok: false, reason: "Already used" });
-    onchain.nullifiers.push(n);
-    writeOnchain(onchain);
-    return res.json({ ok: true, nullifier: n, onchain, index: idx });
+    const index = issuerMerkle(ev, issuer).indexOf(String(req.params.leaf).toLowerCase());
+    if (index < 0) return res.status(404).json({ ok: false, reason: "Ticket not found" });
+    res.json(proofResponse(ev, issuer, index));
 });
 
-// --- Realistic flow (issuer-only leaves, wallet issues via leaf) ---
-app.post("/api/issue-leaf", (req: Request, res: Response) => {
-    const { leaf } = req.body as { leaf: Hash };
-    if (!leaf) return res.status(400).json({ ok: false, reason: "Missing leaf" });
-    const issuer = readIssuerTree();
+api.get("/proof/:index", (req: Request, res: Response) => {
+    const ev = eventOf(res);
+    const issuer = readIssuerTree(ev);
     if (!issuer) return res.status(400).json({ ok: false, reason: "Not initialized" });
-    // Prevent duplicate issuance of the same leaf
-    if (issuer.leaves.includes(leaf)) {
-        return res.status(409).json({ ok: false, reason: "Leaf already issued" });
-    }
-    // Enforce Merkle capacity
-    const capacity = 1 << issuer.depth;
-    if (issuer.leaves.length >= capacity) {
-        return res.status(409).json({ ok: false, reason: "Merkle tree is full (All Tickets are sold)" });
-    }
-    const leaves = issuer.leaves.slice();
-    leaves.push(leaf);
-    const tree = new MerkleTree(issuer.depth, leaves);
-    writeIssuerTree({ depth: issuer.depth, leaves, maxAgeMs: issuer.maxAgeMs });
-    const onchain = readOnchain();
-    onchain.root = tree.getRoot();
-    onchain.leafCount = leaves.length;
-    writeOnchain(onchain);
-    const index = leaves.length - 1;
-    // Optional buyer info
-    const buyerRaw = (req.body as any).buyer;
-    const buyer = sanitizeBuyer(buyerRaw);
-    if (buyer) {
-        try {
-            const buyers = readBuyers();
-            buyer.leaf = leaf;
-            buyer.index = index;
-            buyer.savedAt = Date.now();
-            buyers.buyers.push(buyer);
-            writeBuyers(buyers);
-        } catch { /* ignore persist errors */ }
-    }
-    res.json({ index, onchain });
+    const index = /^\d+$/.test(req.params.index) ? Number(req.params.index) : NaN;
+    if (!Number.isSafeInteger(index)) return res.status(400).json({ ok: false, reason: "Invalid index" });
+    if (index >= issuer.leaves.length) return res.status(404).json({ ok: false, reason: "Ticket not found" });
+    res.json(proofResponse(ev, issuer, index));
+});
+
+// --- Realistic flow (issuer-only leaves, wallet issues via leaf) ---
+// Body: { commitment, tier }, optional buyer. Free tiers are open to anyone; a paid tier is
+// issued here only for an issuer admin (comps), buyers go through /paid-issue.
+api.post("/issue-leaf", (req: Request, res: Response) => {
+    const ev = eventOf(res);
+    const principal = principalOf(req);
+    const admin = !!principal && Auth.allows(principal, "admin");
+    sendInTransaction(ev, res, () => {
+        const issuer = readIssuerTree(ev);
+        if (!issuer) return reply({ ok: false, reason: "Not initialized" }, 400);
+        const issue = leafForIssue(ev, res.locals.event, issuer, req.body);
+        if ("reason" in issue) return reply({ ok: false, reason: issue.reason }, issue.status);
+        const { leaf, tier } = issue;
+        if (tier.priceTdust > 0 && !admin) {
+            return reply({ ok: false, reason: `${tier.name} tickets cost ${tier.priceTdust} tDust: pay through /payment-intent and /paid-issue` }, 403);
+        }
+        const { index, onchain, ticketAuth } = appendIssuerLeaf(ev, issuer, leaf, tier.id);
+        saveBuyer(ev, (req.body as any).buyer, leaf, index);
+        return reply({ index, leaf, tier: tier.id, ticketAuth, onchain: stateJson(ev, onchain) });
+    });
 });
 
 // Upsert buyer info after issuance (by index or leaf)
 // This lets a buyer share their name/email even if they toggled consent after Generate/Buy.
-app.post("/api/buyer", (req: Request, res: Response) => {
+api.post("/buyer", (req: Request, res: Response) => {
+    const ev = eventOf(res);
     try {
-        const issuer = readIssuerTree();
+        const issuer = readIssuerTree(ev);
         if (!issuer) return res.status(400).json({ ok: false, reason: "Not initialized" });
         const { index: idxRaw, leaf: leafRaw, buyer: rawBuyer } = req.body as any;
         let index: number | null = null;
@@ -298,21 +1228,21 @@ app.post("/api/buyer", (req: Request, res: Response) => {
             index = Math.floor(idxRaw);
             leaf = issuer.leaves[index] as any;
         } else if (leafRaw) {
-            const i = issuer.leaves.indexOf(leafRaw);
+            const i = issuerMerkle(ev, issuer).indexOf(leafRaw);
             if (i >= 0) { index = i; leaf = issuer.leaves[i] as any; }
         }
         if (index == null || leaf == null) return res.status(404).json({ ok: false, reason: "Ticket not found" });
         const buyer = sanitizeBuyer(rawBuyer);
         if (!buyer) return res.status(400).json({ ok: false, reason: "Missing consent or info" });
-        const store = readBuyers();
-        const existing = store.buyers.find(b => b.index === index) || null;
+        const buyers = store.getBuyers(ev.id);
+        const existing = buyers.find(b => b.index === index) || null;
         if (existing) {
             existing.name = buyer.name;
             existing.email = buyer.email;
             existing.savedAt = Date.now();
             existing.leaf = leaf;
         } else {
-            store.buyers.push({
+            buyers.push({
                 name: buyer.name,
                 email: buyer.email,
                 consent: true,
@@ -321,101 +1251,290 @@ app.post("/api/buyer", (req: Request, res: Response) => {
                 savedAt: Date.now()
             });
         }
-        writeBuyers(store);
+        store.putBuyers(ev.id, buyers);
         res.json({ ok: true });
     } catch (e: any) {
         res.status(500).json({ ok: false, reason: e?.message || 'failed' });
     }
 });
 
-// Hardened nullifier recording: require secret + issuedAt so we can validate membership
-// in issuer tree (realistic flow) or local TicketSystem (legacy demo).
-app.post("/api/record-nullifier", (req: Request, res: Response) => {
-    const { secret, issuedAt } = req.body as { secret?: string; issuedAt?: number; nullifier?: string };
+// The ticket fields of a check-in: the scanned `payload` (v1 or v2) as is, or secret, issuedAt and
+// tier taken from it. Only a payload lets the server check a v2 ticket's issuer tag.
+function ticketFields(body: any): { secret?: string; issuedAt?: number; tier?: unknown; v2?: TicketPayloadV2 } | { reason: string; status: number } {
+    if (body.payload == null) {
+        const issuedAt = parseIssuedAtField(body.issuedAt);
+        if (issuedAt === null) return { reason: "Invalid issuedAt", status: 400 };
+        return { secret: body.secret, issuedAt, tier: body.tier };
+    }
+    try {
+        const ticket = decodeAnyTicketPayload(String(body.payload));
+        return { secret: ticket.secret, issuedAt: ticket.issuedAt, tier: ticket.tier ?? 0, v2: isTicketPayloadV2(ticket) ? ticket : undefined };
+    } catch (e: any) {
+        return { reason: e instanceof TicketPayloadError ? e.message : `Invalid ticket payload: ${e?.message || e}`, status: 400 };
+    }
+}
+
+// A v2 payload must be for this event, carry this issuer's tag and, if it has one, a proof that
+// leads to the root it references
+function checkTicketPayloadV2(ev: EventFiles, ticket: TicketPayloadV2, leaf: Hash, hash: HashFunction): string | null {
+    if (ticket.eventId !== ev.id) return `Ticket is for event "${ticket.eventId}", not "${ev.id}"`;
+    if (!payloadKey.verify({ eventId: ticket.eventId, tier: ticket.tier, index: ticket.index, leaf }, ticket.auth)) {
+        return "Ticket payload was altered or not issued by this issuer";
+    }
+    if (!payloadProofMatches(ticket, leaf, hash)) return "Ticket payload proof does not lead to its root";
+    return null;
+}
+
+// Hardened nullifier recording: require secret + issuedAt (or the payload carrying them) so we can
+// validate membership in issuer tree (realistic flow) or local TicketSystem (legacy demo).
+// `checkedAt` is when the ticket was presented: now, or the signed scan time of a check-in an
+// offline scanner syncs. Runs inside a store transaction.
+function checkInTicket(ev: EventFiles, res: Response, body: any, checkedAt = Date.now()): Reply {
     // Explicitly reject clients that try to send a precomputed nullifier.
     // The server must derive the nullifier from the secret to prevent arbitrary inserts.
-    if ((req.body as any).nullifier) {
-        return res.status(400).json({ ok: false, reason: "Do not send nullifier; server derives it" });
-    }
-    if (!secret || !issuedAt) return res.status(400).json({ ok: false, reason: "Missing secret or issuedAt" });
-    const onchain = readOnchain();
+    if (body.nullifier) return reply({ ok: false, reason: "Do not send nullifier; server derives it" }, 400);
+    const fields = ticketFields(body);
+    if ("reason" in fields) return reply({ ok: false, reason: fields.reason }, fields.status);
+    const { secret, issuedAt, v2 } = fields;
+    if (!secret || !issuedAt) return reply({ ok: false, reason: "Missing secret or issuedAt" }, 400);
+    const claimedTier = parseTierField(fields.tier);
+    const requiredTier = parseTierField(body.requiredTier);
+    if (claimedTier === null || requiredTier === null) return reply({ ok: false, reason: "Invalid tier" }, 400);
+    let tier = claimedTier ?? 0;
+    const onchain = readOnchain(ev);
     // Expiry check if initialized
-    if (onchain.maxAgeMs && Date.now() > issuedAt + onchain.maxAgeMs) {
-        return res.status(400).json({ ok: false, reason: "Ticket expired" });
+    if (onchain.maxAgeMs && checkedAt > issuedAt + onchain.maxAgeMs) {
+        return reply({ ok: false, reason: "Ticket expired" }, 400);
     }
     // Determine validation source
     let valid = false;
     let index: number | undefined = undefined;
-    const issuer = readIssuerTree();
+    const issuer = readIssuerTree(ev);
+    const hash = hashFunctionFor(issuer ? issuer.hashAlgorithm : localSystem(ev)?.hashAlgorithm);
+    const derivation = issuer ? derivationOf(issuer) : localSystem(ev)?.derivation ?? TICKET_DERIVATION;
+    if (derivation !== TICKET_DERIVATION && tier !== 0) return reply({ ok: false, reason: "Ticket not found" }, 404);
     if (issuer) {
-        const leaf = leafFromTicket(secret, issuedAt);
-        index = issuer.leaves.indexOf(leaf);
+        const leaf = leafFromTicket(secret, issuedAt, hash, tier, derivation);
+        index = issuerMerkle(ev, issuer).indexOf(leaf);
+        if (index >= 0 && issuedTier(issuer, index) !== tier) return reply({ ok: false, reason: TIER_MISMATCH }, 403);
         if (index >= 0) valid = true;
     } else {
         // Legacy demo: fall back to local TicketSystem records
-        const system = TicketSystem.fromLocal();
+        const system = localSystem(ev);
         if (system) {
             const rec = system.getRecords().find(r => r.secret === secret && r.issuedAt === issuedAt);
-            if (rec) { valid = true; index = rec.index; }
+            if (rec) { valid = true; index = rec.index; tier = rec.tier ?? 0; }
         }
     }
-    if (!valid) return res.status(404).json({ ok: false, reason: "Ticket not found" });
-    const nullifier = nullifierFromSecret(secret);
-    onchain.nullifiers = onchain.nullifiers || [];
-    if (onchain.nullifiers.includes(nullifier)) {
-        return res.status(400).json({ ok: false, reason: "Already used" });
+    if (v2) {
+        const tampered = checkTicketPayloadV2(ev, v2, leafFromTicket(secret, issuedAt, hash, tier, derivation), hash);
+        if (tampered) return reply({ ok: false, reason: tampered }, 403);
     }
-    onchain.nullifiers.push(nullifier);
-    writeOnchain(onchain);
-    res.json({ ok: true, nullifier, onchain, index });
+    if (!valid) return reply({ ok: false, reason: "Ticket not found" }, 404);
+    const mismatch = wrongTier(res.locals.event, tier, requiredTier);
+    if (mismatch) return reply({ ok: false, reason: mismatch }, 403);
+    const nullifier = nullifierFromSecret(secret, hash, derivation);
+    const gate = gateCheckIn(ev, res, body.device, nullifier);
+    if ("reason" in gate) return reply({ ok: false, reason: gate.reason }, gate.status);
+    if (!store.addNullifier(ev.id, nullifier)) return reply({ ok: false, reason: "Already used", nullifier }, 400);
+    const checkIn = appendGateLog(ev, gate);
+    return reply({ ok: true, nullifier, onchain: stateJson(ev, onchain), index, tier: tierName(res.locals.event, tier), checkIn });
+}
+
+api.post("/record-nullifier", requireRole("scanner"), (req: Request, res: Response) => {
+    const ev = eventOf(res);
+    sendInTransaction(ev, res, () => checkInTicket(ev, res, req.body));
 });
 
-// Paid issuance: verify txId has not been used and accept leaf (demo-level verification)
-app.post("/api/paid-issue", (req: Request, res: Response) => {
-    const { leaf, txId } = req.body as { leaf: Hash; txId: string };
-    if (!leaf) return res.status(400).json({ ok: false, reason: "Missing leaf" });
-    if (!txId) return res.status(400).json({ ok: false, reason: "Missing txId" });
-    const issuer = readIssuerTree();
-    if (!issuer) return res.status(400).json({ ok: false, reason: "Not initialized" });
-    // Reject if leaf already exists (duplicate issuance)
-    if (issuer.leaves.includes(leaf)) {
-        return res.status(409).json({ ok: false, reason: "Leaf already issued" });
-    }
-    // Enforce Merkle capacity
-    const capacity = 1 << issuer.depth;
-    if (issuer.leaves.length >= capacity) {
-        return res.status(409).json({ ok: false, reason: "Merkle tree is full (All Tickets are sold)" });
-    }
-    // Minimal replay protection: store used txIds
-    const payments = readPayments();
-    if (payments.usedTxIds.includes(txId)) return res.status(400).json({ ok: false, reason: "Payment already used" });
-    // TODO: Integrate indexer verification: ensure txId sends >= price to issuerAddress
-    // Only mark txId used once we're sure we're going to accept the leaf
-    const leaves = issuer.leaves.slice();
-    leaves.push(leaf);
-    const tree = new MerkleTree(issuer.depth, leaves);
-    writeIssuerTree({ depth: issuer.depth, leaves, maxAgeMs: issuer.maxAgeMs });
-    const onchain = readOnchain();
-    onchain.root = tree.getRoot();
-    onchain.leafCount = leaves.length;
-    writeOnchain(onchain);
-    payments.usedTxIds.push(txId);
-    writePayments(payments);
-    const index = leaves.length - 1;
-    // Optional buyer info
-    const buyerRaw = (req.body as any).buyer;
-    const buyer = sanitizeBuyer(buyerRaw);
-    if (buyer) {
+// What an offline scanner needs to check tickets on its own (ui/src/offline.ts): the root, the
+// issuer leaves to rebuild Merkle paths from, the validity window and the spent nullifiers.
+// Legacy demo tickets (server-held secrets) are not covered.
+api.get("/scanner-bundle", requireRole("scanner"), (_req: Request, res: Response) => {
+    const ev = eventOf(res);
+    const bundle = store.transaction(() => {
+        const issuer = readIssuerTree(ev);
+        if (!issuer) return null;
+        return {
+            ok: true,
+            eventId: ev.id,
+            fetchedAt: Date.now(),
+            root: issuerMerkle(ev, issuer).getRoot(),
+            depth: issuer.depth,
+            hashAlgorithm: issuer.hashAlgorithm || "sha256",
+            derivation: derivationOf(issuer),
+            maxAgeMs: readOnchain(ev).maxAgeMs,
+            leaves: issuer.leaves,
+            leafTiers: issuer.leaves.map((_, i) => issuedTier(issuer, i)),
+            nullifiers: store.listNullifiers(ev.id),
+            tiers: eventTiers(res.locals.event).map(t => ({ id: t.id, name: t.name })),
+            // Lets the scanner check v2 payload signatures offline; MAC tags wait for sync
+            payloadKey: { kind: payloadKey.kind, publicKey: payloadKey.publicKey }
+        };
+    });
+    if (!bundle) return res.status(400).json({ ok: false, reason: "Not initialized" });
+    res.setHeader('Cache-Control', 'no-store');
+    res.json(bundle);
+});
+
+// Check-ins an offline scanner queued, oldest first: { checkIns: [{ id, secret, issuedAt, tier,
+// requiredTier, device }] }. Each is checked and recorded on its own, as of its signed scan time;
+// issuedAt goes through ticketFields like a live scan, so a string one still expires.
+// A ticket that was let in elsewhere in the meantime comes back as a conflict naming the gate log
+// entry that spent it, and the conflict is kept for the issuer's audit.
+const MAX_SYNC_BATCH = 500;
+// How far back a synced scan time may lie (TICKETS_MAX_OFFLINE_HOURS, default 24). Expiry is judged
+// at that time, so without a floor a scanner could backdate an expired ticket into its window.
+const MAX_OFFLINE_HOURS = process.env.TICKETS_MAX_OFFLINE_HOURS ? Number(process.env.TICKETS_MAX_OFFLINE_HOURS) : 24;
+if (!(MAX_OFFLINE_HOURS > 0)) {
+    console.error("TICKETS_MAX_OFFLINE_HOURS must be a positive number");
+    process.exit(1);
+}
+api.post("/checkins/sync", requireRole("scanner"), (req: Request, res: Response) => {
+    const ev = eventOf(res);
+    const items = req.body?.checkIns;
+    if (!Array.isArray(items) || items.length > MAX_SYNC_BATCH) {
+        return res.status(400).json({ ok: false, reason: `checkIns must be a list of at most ${MAX_SYNC_BATCH}` });
+    }
+    const now = Date.now();
+    const results = items.map((raw: unknown) => {
+        const item = (raw && typeof raw === "object" ? raw : {}) as any;
+        const id = String(item.id ?? "");
+        const signedAt = Number(item.device?.at);
+        const checkedAt = Number.isSafeInteger(signedAt) ? Math.min(signedAt, now) : now;
+        if (checkedAt < now - MAX_OFFLINE_HOURS * 60 * 60 * 1000) {
+            return { id, status: "rejected", reason: `Check-in is older than the ${MAX_OFFLINE_HOURS} h offline window` };
+        }
+        let out: Reply;
         try {
-            const buyers = readBuyers();
-            buyer.leaf = leaf;
-            buyer.index = index;
-            buyer.savedAt = Date.now();
-            buyers.buyers.push(buyer);
-            writeBuyers(buyers);
-        } catch { /* ignore persist errors */ }
-    }
-    res.json({ ok: true, index, onchain });
+            out = store.transaction(() => checkInTicket(ev, res, item, checkedAt));
+        } catch (e) {
+            clearEventCaches(ev);
+            if (!(e instanceof StoreConflictError)) throw e;
+            out = reply({ ok: false, reason: "Concurrent update, please retry", retryable: true }, 409);
+        }
+        const body = out.body as { ok: boolean; reason?: string; nullifier?: Hash; retryable?: boolean; checkIn?: unknown };
+        if (body.ok) return { id, status: "recorded", nullifier: body.nullifier, checkIn: body.checkIn };
+        if (body.reason === "Already used" && body.nullifier) {
+            return { id, status: "conflict", nullifier: body.nullifier, reason: body.reason, conflict: store.transaction(() => recordConflict(ev, res, item, body.nullifier!, checkedAt)) };
+        }
+        return { id, status: body.retryable ? "retry" : "rejected", reason: body.reason };
+    });
+    res.json({ ok: true, results });
+});
+
+// A second admission of a spent ticket, with the entry that spent it (null when the ticket was
+// spent without a gate log entry, e.g. before the log existed)
+function recordConflict(ev: EventFiles, res: Response, item: any, nullifier: Hash, at: number): CheckInConflict {
+    const device = item.device?.id ? store.getDevice(String(item.device.id)) : null;
+    const first = store.getGateLog(ev.id).find(e => e.nullifier === nullifier);
+    const conflict: CheckInConflict = {
+        eventId: ev.id, nullifier, gateId: device?.gateId ?? UNSIGNED_GATE_ID, deviceId: device?.id ?? null, at, receivedAt: Date.now(),
+        principal: (res.locals.principal as Principal).name,
+        first: first ? { seq: first.seq, gateId: first.gateId, deviceId: first.deviceId, at: first.at, receivedAt: first.receivedAt } : null
+    };
+    store.addCheckInConflict(ev.id, conflict);
+    return conflict;
+}
+
+// Payment intent: binds the buyer's commitment + tier to an exact amount (price plus a nonce in
+// the sub-tDust digits) and a time window. /paid-issue then only mints that commitment, and only
+// for a payment of exactly that amount, so a txId seen in flight cannot be claimed for another leaf.
+api.post("/payment-intent", (req: Request, res: Response) => {
+    const ev = eventOf(res);
+    if (!req.body.commitment) return res.status(400).json({ ok: false, reason: "Missing commitment" });
+    if (!issuerAddress) return res.status(503).json({ ok: false, reason: `No issuer address configured for network "${NETWORK.name}"` });
+    sendInTransaction(ev, res, () => {
+        const issuer = readIssuerTree(ev);
+        if (!issuer) return reply({ ok: false, reason: "Not initialized" }, 400);
+        const issue = leafForIssue(ev, res.locals.event, issuer, req.body);
+        if ("reason" in issue) return reply({ ok: false, reason: issue.reason }, issue.status);
+        const now = Date.now();
+        const intents = pruneIntents(store.getIntents(ev.id), now);
+        // Nonces are unique across events too: they share the issuer address
+        const open = events.list().flatMap(e => e.id === ev.id ? intents : store.getIntents(e.id))
+            .filter(i => !i.usedAt && i.expiresAt > now);
+        let amount: bigint;
+        try {
+            amount = intentAmount(issue.tier.priceTdust, open);
+        } catch (e: any) {
+            return reply({ ok: false, reason: e?.message || "No payment intent available" }, 503);
+        }
+        const id = randomSecretHex(16);
+        const intent: PaymentIntent = {
+            id,
+            commitment: "0x" + String(req.body.commitment).replace(/^0x/, "").toLowerCase(),
+            tier: issue.tier.id,
+            amount: amount.toString(),
+            memo: `midnight-ticket:intent:${ev.id}:${id}`,
+            createdAt: now,
+            expiresAt: now + PAYMENT_INTENT_TTL_MS
+        };
+        intents.push(intent);
+        store.putIntents(ev.id, intents);
+        return reply({
+            ok: true, intentId: id, payTo: issuerAddress, amount: intent.amount, amountTdust: formatTdust(amount),
+            memo: intent.memo, tier: intent.tier, expiresAt: intent.expiresAt
+        });
+    });
+});
+
+// Paid issuance: redeems a payment intent. The txId must be unused and verified (see
+// paymentVerifier) to pay exactly the intent's amount to the issuer inside its window; the leaf
+// is the intent's commitment + tier, never one taken from this request.
+api.post("/paid-issue", async (req: Request, res: Response) => {
+    const ev = eventOf(res);
+    if (!req.body.intentId) return res.status(400).json({ ok: false, reason: "Missing intentId (request one from /payment-intent)" });
+    if (!req.body.txId) return res.status(400).json({ ok: false, reason: "Missing txId" });
+    const txId = normalizeTxId(req.body.txId);
+    if (!txId) return res.status(400).json({ ok: false, reason: "Invalid txId" });
+    const intent = store.getIntents(ev.id).find(i => i.id === req.body.intentId);
+    if (!intent) return res.status(404).json({ ok: false, reason: "Unknown payment intent" });
+    if (intent.usedAt) return res.status(400).json({ ok: false, reason: "Payment intent already used" });
+    // Older clients still send the commitment; it must be the one the intent was issued for
+    if (req.body.commitment && "0x" + String(req.body.commitment).replace(/^0x/, "").toLowerCase() !== intent.commitment) {
+        return res.status(400).json({ ok: false, reason: "Commitment does not match the payment intent" });
+    }
+    const intentBody = { commitment: intent.commitment, tier: intent.tier };
+    const issuer = readIssuerTree(ev);
+    if (!issuer) return res.status(400).json({ ok: false, reason: "Not initialized" });
+    const issue = leafForIssue(ev, res.locals.event, issuer, intentBody);
+    if ("reason" in issue) return res.status(issue.status).json({ ok: false, reason: issue.reason });
+    // One payment buys one ticket in one event: a txId is spent once across all events
+    if (store.txIdUsed(txId) || txIdsInFlight.has(txId)) return res.status(400).json({ ok: false, reason: "Payment already used" });
+    if (!paymentVerifier && PAYMENT_VERIFIER_MODE !== "none") {
+        return res.status(503).json({ ok: false, reason: "Payment verification unavailable (issuer wallet not configured)" });
+    }
+    txIdsInFlight.add(txId);
+    try {
+        if (paymentVerifier) {
+            const verdict = await paymentVerifier.verify({
+                txId, recipient: issuerAddress, amount: BigInt(intent.amount), notBefore: intent.createdAt, notAfter: intent.expiresAt
+            });
+            if (!verdict.ok) return res.status(402).json({ ok: false, reason: verdict.reason, retryable: !!verdict.retryable });
+        }
+        // Other issuances may have landed while we waited on the indexer: re-check and mint in one transaction
+        sendInTransaction(ev, res, () => {
+            const issuer = readIssuerTree(ev);
+            if (!issuer) return reply({ ok: false, reason: "Not initialized" }, 400);
+            const issue = leafForIssue(ev, res.locals.event, issuer, intentBody);
+            if ("reason" in issue) return reply({ ok: false, reason: issue.reason }, issue.status);
+            const intents = store.getIntents(ev.id);
+            const current = intents.find(i => i.id === intent.id);
+            if (!current || current.usedAt) return reply({ ok: false, reason: "Payment intent already used" }, 400);
+            const { leaf, tier } = issue;
+            const { index, onchain, ticketAuth } = appendIssuerLeaf(ev, issuer, leaf, tier.id);
+            store.markTxIdUsed(ev.id, txId);
+            current.txId = txId;
+            current.usedAt = Date.now();
+            store.putIntents(ev.id, intents);
+            saveBuyer(ev, (req.body as any).buyer, leaf, index);
+            return reply({ ok: true, index, leaf, tier: tier.id, ticketAuth, onchain: stateJson(ev, onchain) });
+        });
+    } catch (e: any) {
+        res.status(500).json({ ok: false, reason: e?.message || 'paid issue failed' });
+    } finally {
+        txIdsInFlight.delete(txId);
+    }
 });
 
 // Friendly landing and health
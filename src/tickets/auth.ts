@@ -0,0 +1,183 @@
+// Roles for the server: issuer admins (init, reset, issue, buyer data), gate scanners (redeem)
+// and public buyers (everyone else, no credentials). Admins and scanners sign in with an API key
+// or by signing a challenge with a registered wallet key, and get a session token back.
+// Tokens, challenges and confirmation tokens are HMAC-signed rather than kept in memory, so any
+// server process sharing TICKETS_AUTH_SECRET accepts them. Used challenges go to the shared store.
+import crypto from "crypto";
+import { verifySignature } from "@midnight-ntwrk/ledger";
+
+export type Role = "admin" | "scanner";
+export const ROLES: Role[] = ["admin", "scanner"];
+
+export interface Principal {
+    role: Role;
+    name: string; // e.g. "gate-a", from the credential's configuration
+    via: "api-key" | "wallet" | "open"; // open: TICKETS_AUTH=off
+}
+
+// Actions that wipe an event and need a confirmation token on top of the admin session
+export type ConfirmAction = "init" | "reset";
+export const CONFIRM_ACTIONS: ConfirmAction[] = ["init", "reset"];
+
+export const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+export const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+export const CONFIRM_TTL_MS = 2 * 60 * 1000;
+
+// What the wallet signs: a fixed prefix keeps these signatures useless anywhere else
+export const CHALLENGE_PREFIX = "midnight-ticket:auth:v1:";
+
+const MIN_API_KEY_LENGTH = 16;
+
+// Where used challenges are kept until they expire (the server's TicketStore), so each one signs
+// in once across every process sharing it. `claimChallenge` is false for one already claimed.
+export interface ChallengeLog {
+    claimChallenge(challenge: string, expiresAt: number, now: number): boolean;
+}
+
+interface Credential {
+    role: Role;
+    name: string;
+    digest?: Buffer; // API keys are kept as SHA-256 only
+    verifyingKey?: string; // wallet signature verifying key (hex)
+}
+
+export interface AuthConfig {
+    enabled: boolean;
+    secret: Buffer;
+    credentials: Credential[];
+    sessionTtlMs?: number;
+}
+
+const sha256 = (value: string) => crypto.createHash("sha256").update(value).digest();
+const base64url = (buf: Buffer) => buf.toString("base64url");
+
+// "key" or "name=key", comma separated; unnamed entries become <role>-1, <role>-2, ...
+function parseList(raw: string | undefined, role: Role): Array<{ name: string; value: string }> {
+    return (raw || "").split(",").map(s => s.trim()).filter(Boolean).map((entry, i) => {
+        const eq = entry.indexOf("=");
+        return eq > 0 ? { name: entry.slice(0, eq).trim(), value: entry.slice(eq + 1).trim() } : { name: `${role}-${i + 1}`, value: entry };
+    });
+}
+
+export class Auth {
+    constructor(private readonly config: AuthConfig) { }
+
+    // TICKETS_AUTH (on | off), TICKETS_AUTH_SECRET, TICKETS_ADMIN_KEYS, TICKETS_SCANNER_KEYS,
+    // TICKETS_ADMIN_WALLETS, TICKETS_SCANNER_WALLETS, TICKETS_AUTH_SESSION_HOURS. With no admin
+    // credential configured, a random admin key is generated and returned for the log.
+    static fromEnv(env: NodeJS.ProcessEnv = process.env): { auth: Auth; generatedAdminKey?: string } {
+        const mode = env.TICKETS_AUTH || "on";
+        if (mode !== "on" && mode !== "off") throw new Error(`Unknown TICKETS_AUTH "${mode}" (on or off)`);
+        const credentials: Credential[] = [];
+        for (const role of ROLES) {
+            const prefix = role.toUpperCase();
+            for (const { name, value } of parseList(env[`TICKETS_${prefix}_KEYS`], role)) {
+                if (value.length < MIN_API_KEY_LENGTH) throw new Error(`API key "${name}" in TICKETS_${prefix}_KEYS is shorter than ${MIN_API_KEY_LENGTH} characters`);
+                credentials.push({ role, name, digest: sha256(value) });
+            }
+            for (const { name, value } of parseList(env[`TICKETS_${prefix}_WALLETS`], role)) {
+                if (!/^[0-9a-fA-F]+$/.test(value)) throw new Error(`Wallet key "${name}" in TICKETS_${prefix}_WALLETS is not hex`);
+                credentials.push({ role, name, verifyingKey: value.toLowerCase() });
+            }
+        }
+        let generatedAdminKey: string | undefined;
+        if (mode === "on" && !credentials.some(c => c.role === "admin")) {
+            generatedAdminKey = crypto.randomBytes(24).toString("base64url");
+            credentials.push({ role: "admin", name: "admin", digest: sha256(generatedAdminKey) });
+        }
+        const hours = env.TICKETS_AUTH_SESSION_HOURS ? Number(env.TICKETS_AUTH_SESSION_HOURS) : undefined;
+        if (hours !== undefined && !(hours > 0)) throw new Error("TICKETS_AUTH_SESSION_HOURS must be a positive number");
+        const auth = new Auth({
+            enabled: mode === "on",
+            // Without a shared secret, tokens are only good for this process and its lifetime
+            secret: env.TICKETS_AUTH_SECRET ? sha256(env.TICKETS_AUTH_SECRET) : crypto.randomBytes(32),
+            credentials,
+            sessionTtlMs: hours !== undefined ? hours * 60 * 60 * 1000 : undefined
+        });
+        return { auth, generatedAdminKey };
+    }
+
+    get enabled(): boolean {
+        return this.config.enabled;
+    }
+
+    // Whether `principal` may act as `role`: admins can do everything scanners can
+    static allows(principal: Principal, role: Role): boolean {
+        return principal.role === "admin" || principal.role === role;
+    }
+
+    checkApiKey(key: string): Principal | null {
+        const digest = sha256(key);
+        const match = this.config.credentials.find(c => c.digest && crypto.timingSafeEqual(c.digest, digest));
+        return match ? { role: match.role, name: match.name, via: "api-key" } : null;
+    }
+
+    // A fresh challenge; the wallet signs CHALLENGE_PREFIX + challenge and sends its verifying key along
+    challenge(now = Date.now()): { challenge: string; message: string; expiresAt: number } {
+        const expiresAt = now + CHALLENGE_TTL_MS;
+        const challenge = this.sign({ typ: "challenge", nonce: crypto.randomBytes(16).toString("hex"), exp: expiresAt });
+        return { challenge, message: CHALLENGE_PREFIX + challenge, expiresAt };
+    }
+
+    // The principal for a registered wallet key that signed a live, unused challenge
+    verifyChallenge(verifyingKey: string, challenge: string, signature: string, used: ChallengeLog, now = Date.now()): Principal | null {
+        const vk = verifyingKey.toLowerCase();
+        const claims = this.open(challenge, "challenge", now);
+        if (!claims) return null;
+        const match = this.config.credentials.find(c => c.verifyingKey === vk);
+        if (!match) return null;
+        let valid = false;
+        try {
+            valid = verifySignature(vk, new TextEncoder().encode(CHALLENGE_PREFIX + challenge), signature);
+        } catch {
+            valid = false;
+        }
+        if (!valid || !used.claimChallenge(challenge, claims.exp, now)) return null;
+        return { role: match.role, name: match.name, via: "wallet" };
+    }
+
+    session(principal: Principal, now = Date.now()): { token: string; expiresAt: number } {
+        const expiresAt = now + (this.config.sessionTtlMs ?? SESSION_TTL_MS);
+        return { token: this.sign({ typ: "session", ...principal, exp: expiresAt }), expiresAt };
+    }
+
+    // A session token, or an API key used directly (scripts)
+    principalOf(bearer: string, now = Date.now()): Principal | null {
+        const claims = this.open(bearer, "session", now);
+        if (claims && ROLES.includes(claims.role)) return { role: claims.role, name: String(claims.name), via: claims.via };
+        return this.checkApiKey(bearer);
+    }
+
+    // Short-lived, bound to the action, the event and the admin who asked for it
+    confirmation(principal: Principal, action: ConfirmAction, eventId: string, now = Date.now()): { token: string; expiresAt: number } {
+        const expiresAt = now + CONFIRM_TTL_MS;
+        return { token: this.sign({ typ: "confirm", action, event: eventId, sub: principal.name, exp: expiresAt }), expiresAt };
+    }
+
+    checkConfirmation(token: string, principal: Principal, action: ConfirmAction, eventId: string, now = Date.now()): boolean {
+        const claims = this.open(token, "confirm", now);
+        return !!claims && claims.action === action && claims.event === eventId && claims.sub === principal.name;
+    }
+
+    private sign(claims: Record<string, unknown>): string {
+        const body = base64url(Buffer.from(JSON.stringify(claims)));
+        const mac = base64url(crypto.createHmac("sha256", this.config.secret).update(body).digest());
+        return `${body}.${mac}`;
+    }
+
+    // Claims of an authentic, unexpired token of the given type; null otherwise
+    private open(token: string, typ: string, now: number): Record<string, any> | null {
+        const [body, mac, extra] = String(token).split(".");
+        if (!body || !mac || extra !== undefined) return null;
+        const expected = crypto.createHmac("sha256", this.config.secret).update(body).digest();
+        const given = Buffer.from(mac, "base64url");
+        if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) return null;
+        let claims: Record<string, any>;
+        try {
+            claims = JSON.parse(Buffer.from(body, "base64url").toString("utf-8"));
+        } catch {
+            return null;
+        }
+        return claims.typ === typ && typeof claims.exp === "number" && claims.exp > now ? claims : null;
+    }
+}
@@ -0,0 +1,370 @@
+// Link between the server's store and the deployed tickets contract. ChainSync follows the
+// contract through the indexer and decodes its ledger; ChainPublisher sends what the store has
+// and the chain does not yet (the latest root, new nullifiers) in as few calls as it can.
+import * as fs from "fs";
+import * as Rx from "rxjs";
+import type { Wallet } from "@midnight-ntwrk/wallet-api";
+import type { PublicDataProvider } from "@midnight-ntwrk/midnight-js-types";
+import { createBalancedTx } from "@midnight-ntwrk/midnight-js-types";
+import { httpClientProofProvider } from "@midnight-ntwrk/midnight-js-http-client-proof-provider";
+import { indexerPublicDataProvider } from "@midnight-ntwrk/midnight-js-indexer-public-data-provider";
+import { NodeZkConfigProvider } from "@midnight-ntwrk/midnight-js-node-zk-config-provider";
+import { levelPrivateStateProvider } from "@midnight-ntwrk/midnight-js-level-private-state-provider";
+import { getZswapNetworkId, getLedgerNetworkId } from "@midnight-ntwrk/midnight-js-network-id";
+import { Transaction } from "@midnight-ntwrk/ledger";
+import { Transaction as ZswapTransaction } from "@midnight-ntwrk/zswap";
+import { TICKET_DERIVATION, derivationOf, type Hash, type HashAlgorithm, type TicketDerivation } from "../lib/ticket-crypto.js";
+import { CONTRACT_DIR, PRIVATE_STATE_STORE, decodeLedger, hexToBytes32 } from "./contract.js";
+import type { NullifierSet, TicketLedgerStateOnChain } from "./state.js";
+
+export interface ChainEndpoints {
+    indexer: string;
+    indexerWS: string;
+    node: string;
+    proofServer: string;
+}
+
+export interface Deployment {
+    contract: "tickets";
+    contractAddress: string;
+    network?: string; // profile name the contract was deployed with
+    networkId?: string;
+    deployedAt?: string;
+}
+
+// Deployments written before network profiles existed were all on testnet
+const LEGACY_DEPLOYMENT_NETWORK = "testnet";
+
+// deployment.json as written by `npm run deploy`; throws with the fix when it is missing, stale or,
+// given the run's network, was deployed on another one
+export function readDeployment(file = "deployment.json", network?: { name: string; networkId: string }): Deployment {
+    if (!fs.existsSync(file)) throw new Error(`No ${file} found! Run npm run deploy first.`);
+    const deployment: Deployment = JSON.parse(fs.readFileSync(file, "utf-8"));
+    if (deployment.contract !== "tickets") {
+        throw new Error(`${file} points at the legacy hello-world contract. Run npm run compile && npm run deploy.`);
+    }
+    const deployedOn = deployment.network ?? LEGACY_DEPLOYMENT_NETWORK;
+    if (network && (deployedOn !== network.name || (deployment.networkId && deployment.networkId !== network.networkId))) {
+        throw new Error(
+            `${file} is a deployment on network "${deployedOn}", but this run uses "${network.name}". ` +
+            `Pass --network ${deployedOn}, or deploy again with --network ${network.name}.`
+        );
+    }
+    return deployment;
+}
+
+// Balances and proves contract calls with the given wallet
+export function walletProviderFor(wallet: Wallet, coinPublicKey: string, encryptionPublicKey: string) {
+    return {
+        coinPublicKey,
+        encryptionPublicKey,
+        balanceTx(tx: any, newCoins: any) {
+            return wallet
+                .balanceTransaction(
+                    ZswapTransaction.deserialize(tx.serialize(getLedgerNetworkId()), getZswapNetworkId()),
+                    newCoins
+                )
+                .then((tx) => wallet.proveTransaction(tx))
+                .then((zswapTx) => Transaction.deserialize(zswapTx.serialize(getZswapNetworkId()), getLedgerNetworkId()))
+                .then(createBalancedTx);
+        },
+        submitTx(tx: any) {
+            return wallet.submitTransaction(tx);
+        }
+    };
+}
+
+// Everything deployContract / findDeployedContract need for the tickets contract
+export async function ticketProviders(wallet: Wallet, endpoints: ChainEndpoints) {
+    const state = await Rx.firstValueFrom(wallet.state());
+    const walletProvider = walletProviderFor(wallet, state.coinPublicKey, state.encryptionPublicKey);
+    return {
+        privateStateProvider: levelPrivateStateProvider({ privateStateStoreName: PRIVATE_STATE_STORE }),
+        publicDataProvider: indexerPublicDataProvider(endpoints.indexer, endpoints.indexerWS),
+        zkConfigProvider: new NodeZkConfigProvider(CONTRACT_DIR),
+        proofProvider: httpClientProofProvider(endpoints.proofServer),
+        walletProvider,
+        midnightProvider: walletProvider
+    };
+}
+
+export interface ChainSyncStatus {
+    contractAddress: string;
+    confirmed: TicketLedgerStateOnChain | null; // null until the first state arrives
+    syncedAt: number | null;
+    error: string | null;
+}
+
+// Follows the contract's state through the indexer subscription and keeps the latest decoded
+// ledger. Listeners see every update; the subscription restarts after errors.
+export class ChainSync {
+    private confirmed: TicketLedgerStateOnChain | null = null;
+    private syncedAt: number | null = null;
+    private error: string | null = null;
+    private subscription: Rx.Subscription | null = null;
+    private retry: NodeJS.Timeout | null = null;
+    private readonly listeners: Array<(ledger: TicketLedgerStateOnChain) => void> = [];
+
+    constructor(
+        private readonly publicData: PublicDataProvider,
+        readonly contractAddress: string,
+        private readonly ticketsModule: any, // compiled contract module, for its ledger() decoder
+        private readonly retryMs = 10_000
+    ) { }
+
+    // Returns a function that removes the listener again
+    onUpdate(listener: (ledger: TicketLedgerStateOnChain) => void): () => void {
+        this.listeners.push(listener);
+        return () => {
+            const i = this.listeners.indexOf(listener);
+            if (i >= 0) this.listeners.splice(i, 1);
+        };
+    }
+
+    start() {
+        this.subscription = this.publicData
+            .contractStateObservable(this.contractAddress, { type: "latest" })
+            .pipe(Rx.map(state => decodeLedger(this.ticketsModule, state.data)))
+            .subscribe({
+                next: ledger => this.apply(ledger),
+                error: (e: any) => {
+                    this.error = `Indexer subscription failed: ${e?.message || e}`;
+                    this.subscription = null;
+                    this.retry = setTimeout(() => this.start(), this.retryMs);
+                }
+            });
+    }
+
+    stop() {
+        this.subscription?.unsubscribe();
+        this.subscription = null;
+        if (this.retry) clearTimeout(this.retry);
+    }
+
+    // The first decoded state, for one-shot callers that cannot wait on updates
+    ready(timeoutMs = 60_000): Promise<TicketLedgerStateOnChain> {
+        if (this.confirmed) return Promise.resolve(this.confirmed);
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                unsubscribe();
+                reject(new Error(this.error ?? `No contract state from the indexer within ${timeoutMs / 1000}s`));
+            }, timeoutMs);
+            const unsubscribe = this.onUpdate(ledger => {
+                clearTimeout(timer);
+                unsubscribe();
+                resolve(ledger);
+            });
+        });
+    }
+
+    private apply(ledger: TicketLedgerStateOnChain) {
+        this.confirmed = ledger;
+        this.syncedAt = Date.now();
+        this.error = null;
+        // A copy: listeners such as ready()'s remove themselves while being called
+        for (const listener of [...this.listeners]) {
+            try {
+                listener(ledger);
+            } catch (e: any) {
+                this.error = `Applying chain state failed: ${e?.message || e}`;
+            }
+        }
+    }
+
+    status(): ChainSyncStatus {
+        return { contractAddress: this.contractAddress, confirmed: this.confirmed, syncedAt: this.syncedAt, error: this.error };
+    }
+}
+
+// Must match the Vector length of `recordNullifiers` in the contract
+export const NULLIFIER_BATCH_SIZE = 8;
+
+// The two calls the publisher makes; `deployed.callTx` of the tickets contract, or a fake
+export interface TicketsContractCalls {
+    publishRoot(expectedRoot: Uint8Array, newRoot: Uint8Array, newLeafCount: bigint): Promise<unknown>;
+    recordNullifiers(batch: Array<{ is_some: boolean; value: Uint8Array }>): Promise<unknown>;
+}
+
+// What the store has that the confirmed ledger lacks. `root` is only set when the store's tree
+// extends the confirmed one; `blocked` says why the root cannot be published (e.g. another writer).
+export interface PendingChanges {
+    root: { expected: Hash; root: Hash; leafCount: number } | null;
+    nullifiers: Hash[];
+    blocked?: string;
+}
+
+// The issuer's side of the comparison; `rootAt(n)` is its tree's root after the first n leaves
+export interface LocalTree {
+    root: Hash;
+    leafCount: number;
+    depth: number;
+    hashAlgorithm?: HashAlgorithm;
+    derivation?: TicketDerivation;
+    nullifiers: Hash[]; // spent locally and not yet seen in the contract's set
+    rootAt(count: number): Hash;
+}
+
+// Leaves of `local` the confirmed root covers: all confirmed leaves when the confirmed root is
+// one of the local tree's own roots, none when another writer's tree is on chain
+export function anchoredLeafCount(local: LocalTree, confirmed: TicketLedgerStateOnChain): number {
+    if (!confirmed.depth || confirmed.leafCount > local.leafCount) return 0;
+    return local.rootAt(confirmed.leafCount).toLowerCase() === confirmed.root.toLowerCase() ? confirmed.leafCount : 0;
+}
+
+export function pendingChanges(local: LocalTree, confirmed: TicketLedgerStateOnChain): PendingChanges {
+    if (!confirmed.depth) return { root: null, nullifiers: [], blocked: "Contract not initialized (run the CLI's Initialize)" };
+    const nullifiers = local.nullifiers.filter(n => !confirmed.nullifiers.has(n));
+    if (confirmed.depth !== local.depth || confirmed.hashAlgorithm !== (local.hashAlgorithm ?? "sha256")) {
+        return { root: null, nullifiers, blocked: "Contract depth or hash differs from the local tree's" };
+    }
+    if (derivationOf(local) !== TICKET_DERIVATION) {
+        return { root: null, nullifiers, blocked: "Local tree has version 1 leaves, which the contract cannot redeem (initialize a new tree)" };
+    }
+    if (confirmed.leafCount > 0 && anchoredLeafCount(local, confirmed) === 0) {
+        return { root: null, nullifiers, blocked: "On-chain root is not one of the local tree's roots (another issuer published)" };
+    }
+    const root = local.leafCount > confirmed.leafCount ? { expected: confirmed.root, root: local.root, leafCount: local.leafCount } : null;
+    return { root, nullifiers };
+}
+
+// `set` plus a few nullifiers it does not hold yet
+function withNullifiers(set: NullifierSet, extra: Hash[]): NullifierSet {
+    return {
+        has: (nullifier: Hash) => extra.includes(nullifier) || set.has(nullifier),
+        get size() { return set.size + extra.length; },
+        *[Symbol.iterator]() { yield* set; yield* extra; }
+    };
+}
+
+export interface ChainPublisherOptions {
+    intervalMs?: number; // T: whatever is pending goes out at least this often
+    batchSize?: number; // N: a root goes out as soon as this many tickets wait for one
+    log?: (message: string) => void;
+}
+
+export interface ChainPublisherStatus {
+    publishing: boolean;
+    batchSize: number;
+    intervalMs: number;
+    nextRoundAt: number | null;
+    lastPublishedAt: number | null;
+    lastError: string | null;
+}
+
+// Batches publication: one publishRoot per N new tickets or T milliseconds, whichever comes
+// first, for however many tickets were issued since the last root; nullifiers go in batches of
+// NULLIFIER_BATCH_SIZE. Pending changes are recomputed from the local tree and the confirmed
+// ledger every round, so nothing is queued twice and a restart loses nothing.
+export class ChainPublisher {
+    private publishing = false;
+    private lastPublishedAt: number | null = null;
+    private lastError: string | null = null;
+    private nextRoundAt: number | null = null;
+    private timer: NodeJS.Timeout | null = null;
+    // What our own finalized calls wrote, until the indexer subscription reports it
+    private landed: { root: Hash; leafCount: number; nullifiers: Hash[] } | null = null;
+    readonly batchSize: number;
+    readonly intervalMs: number;
+
+    constructor(
+        private readonly calls: TicketsContractCalls,
+        private readonly sync: ChainSync,
+        private readonly localTree: () => LocalTree | null,
+        private readonly options: ChainPublisherOptions = {}
+    ) {
+        this.batchSize = options.batchSize ?? 10;
+        this.intervalMs = options.intervalMs ?? 30_000;
+    }
+
+    start() {
+        this.nextRoundAt = Date.now() + this.intervalMs;
+        this.timer = setInterval(() => {
+            this.nextRoundAt = Date.now() + this.intervalMs;
+            void this.flush();
+        }, this.intervalMs);
+    }
+
+    stop() {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+        this.nextRoundAt = null;
+    }
+
+    // The chain as of our last finalized call: the subscription can trail it by a few blocks
+    confirmed(): TicketLedgerStateOnChain | null {
+        const confirmed = this.sync.status().confirmed;
+        if (!confirmed || !this.landed) return confirmed;
+        const unseen = this.landed.nullifiers.filter(n => !confirmed.nullifiers.has(n));
+        if (confirmed.leafCount >= this.landed.leafCount && unseen.length === 0) {
+            this.landed = null;
+            return confirmed;
+        }
+        const nullifiers = withNullifiers(confirmed.nullifiers, unseen);
+        return confirmed.leafCount >= this.landed.leafCount
+            ? { ...confirmed, nullifiers }
+            : { ...confirmed, root: this.landed.root, leafCount: this.landed.leafCount, nullifiers };
+    }
+
+    pending(): PendingChanges | null {
+        const confirmed = this.confirmed();
+        const local = this.localTree();
+        return confirmed && local ? pendingChanges(local, confirmed) : null;
+    }
+
+    // Called after issuing: publishes right away once a full batch of tickets is waiting
+    notify() {
+        const confirmed = this.confirmed();
+        const pending = this.pending();
+        if (this.publishing || !confirmed || !pending?.root) return;
+        if (pending.root.leafCount - confirmed.leafCount >= this.batchSize) void this.flush();
+    }
+
+    // One publication round; skipped while the previous one is still running
+    async flush(): Promise<void> {
+        const pending = this.pending();
+        if (this.publishing || !pending) return;
+        if (!pending.root && pending.nullifiers.length === 0) {
+            this.lastError = pending.blocked ?? null;
+            return;
+        }
+        this.publishing = true;
+        const landed = { ...(this.landed ?? { root: "", leafCount: 0 }), nullifiers: [...(this.landed?.nullifiers ?? [])] };
+        try {
+            if (pending.root) {
+                const { expected, root, leafCount } = pending.root;
+                await this.calls.publishRoot(expected ? hexToBytes32(expected) : new Uint8Array(32), hexToBytes32(root), BigInt(leafCount));
+                Object.assign(landed, { root, leafCount });
+                this.landed = landed;
+                this.options.log?.(`Published root for ${leafCount} tickets`);
+            }
+            for (let i = 0; i < pending.nullifiers.length; i += NULLIFIER_BATCH_SIZE) {
+                const chunk = pending.nullifiers.slice(i, i + NULLIFIER_BATCH_SIZE);
+                const batch = chunk.map(n => ({ is_some: true, value: hexToBytes32(n) }));
+                while (batch.length < NULLIFIER_BATCH_SIZE) batch.push({ is_some: false, value: new Uint8Array(32) });
+                await this.calls.recordNullifiers(batch);
+                landed.nullifiers.push(...chunk);
+                this.landed = landed;
+            }
+            if (pending.nullifiers.length) this.options.log?.(`Published ${pending.nullifiers.length} nullifiers`);
+            this.lastPublishedAt = Date.now();
+            this.lastError = pending.blocked ?? null;
+        } catch (e: any) {
+            // Next round recomputes from the confirmed ledger, so whatever did land is not resent
+            this.lastError = `Publishing failed: ${e?.message || e}`;
+            this.options.log?.(this.lastError);
+        } finally {
+            this.publishing = false;
+        }
+    }
+
+    status(): ChainPublisherStatus {
+        return {
+            publishing: this.publishing,
+            batchSize: this.batchSize,
+            intervalMs: this.intervalMs,
+            nextRoundAt: this.nextRoundAt,
+            lastPublishedAt: this.lastPublishedAt,
+            lastError: this.lastError
+        };
+    }
+}
@@ -0,0 +1,74 @@
+// Helpers for the dedicated ticketing contract (contracts/tickets.compact).
+import * as fs from "fs";
+import * as path from "path";
+import { HASH_ALGORITHMS, type Hash, type HashAlgorithm } from "../lib/hash.js";
+import { TICKET_DERIVATION } from "../lib/ticket-crypto.js";
+import type { NullifierSet, RootEntry, TicketLedgerStateOnChain } from "./state.js";
+
+export const CONTRACT_DIR = path.join(process.cwd(), "contracts", "managed", "tickets");
+export const CONTRACT_MODULE_PATH = path.join(CONTRACT_DIR, "contract", "index.cjs");
+export const PRIVATE_STATE_STORE = "tickets-state";
+export const PRIVATE_STATE_ID = "ticketsState";
+
+export async function loadTicketsContract(): Promise<any> {
+    if (!fs.existsSync(CONTRACT_MODULE_PATH)) {
+        throw new Error("Contract not found! Run: npm run compile");
+    }
+    return import(CONTRACT_MODULE_PATH);
+}
+
+export function hexToBytes32(hex: Hash): Uint8Array {
+    const clean = hex.replace(/^0x/, "");
+    if (!/^[0-9a-fA-F]{64}$/.test(clean)) throw new Error(`Expected 32-byte hex, got "${hex}"`);
+    return Uint8Array.from(Buffer.from(clean, "hex"));
+}
+
+export function bytes32ToHex(bytes: Uint8Array): Hash {
+    return "0x" + Buffer.from(bytes).toString("hex");
+}
+
+const EMPTY_ROOT = "0x" + "00".repeat(32);
+
+// Decode the typed ledger into the same shape the local tooling already uses.
+export function decodeLedger(TicketsModule: any, data: unknown): TicketLedgerStateOnChain {
+    const ledger = TicketsModule.ledger(data);
+    const root = bytes32ToHex(ledger.root);
+    return {
+        root: root === EMPTY_ROOT ? "" : root,
+        maxAgeMs: Number(ledger.maxAgeMs),
+        nullifiers: ledgerNullifiers(ledger.nullifiers),
+        leafCount: Number(ledger.leafCount),
+        depth: Number(ledger.depth),
+        hashAlgorithm: HASH_ALGORITHMS[Number(ledger.hashAlgorithm)] ?? "sha256",
+        derivation: TICKET_DERIVATION,
+        recentRoots: ledgerRecentRoots(ledger),
+        rootHistorySize: Number(ledger.rootHistorySize)
+    };
+}
+
+// The ring buffer read back oldest first, starting at the cursor. The ledger keeps no publication
+// times, so `at` is 0.
+function ledgerRecentRoots(ledger: any): RootEntry[] {
+    const size = Number(ledger.rootHistorySize);
+    const cursor = Number(ledger.rootCursor);
+    const roots: RootEntry[] = [];
+    for (let i = 0; i < size; i++) {
+        const slot = BigInt((cursor + i) % size);
+        if (ledger.rootRing.member(slot)) roots.push({ root: bytes32ToHex(ledger.rootRing.lookup(slot)), at: 0 });
+    }
+    return roots;
+}
+
+// Membership goes to the ledger Set's own lookup instead of copying every spent nullifier out
+function ledgerNullifiers(set: any): NullifierSet {
+    return {
+        has: (nullifier: Hash) => set.member(hexToBytes32(nullifier)),
+        get size() { return Number(set.size()); },
+        *[Symbol.iterator]() { for (const n of set) yield bytes32ToHex(n); }
+    };
+}
+
+// Compact enums are passed to circuits as their ordinal.
+export function hashAlgorithmToLedger(algorithm: HashAlgorithm): number {
+    return HASH_ALGORITHMS.indexOf(algorithm);
+}
@@ -1,8 +1,20 @@
 // Local test harness for ticket system logic without blockchain interaction.
-import { TicketSystem, verifyRedemption, nullifierFromSecret } from "./state.js";
+import { LocalTicketState, TicketSystem, verifyRedemption, nullifierFromSecret } from "./state.js";
+import { LEGACY_DERIVATION, TICKET_DERIVATION, TicketDerivation, fromHex } from "../lib/ticket-crypto.js";
 
 function sleep(ms: number) { return new Promise(r => setTimeout(r, ms)); }
 
+// Issues tickets from a master seed, then rebuilds the system from the saved records' issuedAt and
+// tier alone, as after losing the local file. True when the secrets and root come back the same.
+function restoresFromSeed(derivation: TicketDerivation, tiers: number[]): boolean {
+    const seed = fromHex("00112233445566778899aabbccddeeff");
+    let saved: LocalTicketState | undefined;
+    const original = new TicketSystem(4, 60_000, [], "sha256", seed, state => { saved = state; }, derivation);
+    for (const tier of tiers) original.issueTicket(tier);
+    const restored = TicketSystem.restore(4, 60_000, seed, saved!.tickets, "sha256", original.getRoot(), saved!.derivation);
+    return JSON.stringify(restored.getRecords()) === JSON.stringify(original.getRecords());
+}
+
 async function run() {
     console.log("TicketSystem Demo Test\n");
     // Initialize a small tree for speed
@@ -28,7 +40,7 @@ async function run() {
     };
     let res1 = verifyRedemption(onchain, attempt1, Date.now());
     console.log("Redeem t1 valid:", res1);
-    if (res1.ok) onchain.nullifiers.push(attempt1.nullifier);
+    if (res1.ok) onchain.nullifiers.add(attempt1.nullifier);
 
     // Attempt double spend t1
     let resDouble = verifyRedemption(onchain, attempt1, Date.now());
@@ -46,8 +58,14 @@ async function run() {
     let res2 = verifyRedemption(onchain, attempt2, Date.now());
     console.log("Redeem t2 after expiry (should fail):", res2);
 
+    // Save/restore round trip, with a tier 1 ticket and with a legacy-derivation tree
+    const restoredTiers = restoresFromSeed(TICKET_DERIVATION, [0, 1, 0]);
+    const restoredLegacy = restoresFromSeed(LEGACY_DERIVATION, [0, 0]);
+    console.log("Restore tiered tickets from seed:", restoredTiers);
+    console.log("Restore legacy-derivation tickets from seed:", restoredLegacy);
+
     // Summary assertions (simple console checks)
-    const allOk = res1.ok && !resDouble.ok && !res2.ok;
+    const allOk = res1.ok && !resDouble.ok && !res2.ok && restoredTiers && restoredLegacy;
     console.log("\nSummary: ", allOk ? "PASS" : "FAIL");
     process.exit(allOk ? 0 : 1);
 }
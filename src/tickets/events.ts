@@ -0,0 +1,121 @@
+// Event registry: each event (show/batch) has its own tree, validity window, price,
+// root history and nullifier set, stored in its own directory under the data dir.
+import fs from "fs";
+import path from "path";
+import { MAX_TIER, isTier } from "../lib/ticket-crypto.js";
+import { writeFileAtomic } from "./store.js";
+
+export const DEFAULT_EVENT_ID = "default";
+export const DEFAULT_PRICE_TDUST = 10;
+
+// Seat class. `id` is the integer committed into the leaf (see leafFromCommitment) and the
+// position in the event's tier list; capacity is optional (unbounded up to the tree size).
+export interface TicketTier {
+    id: number;
+    name: string;
+    priceTdust: number;
+    capacity?: number;
+}
+
+export interface TicketEvent {
+    id: string;
+    name: string;
+    priceTdust: number;
+    tiers?: TicketTier[]; // absent ⇒ a single "General" tier at priceTdust
+    createdAt: number;
+}
+
+const DEFAULT_EVENT: TicketEvent = { id: DEFAULT_EVENT_ID, name: "Default event", priceTdust: DEFAULT_PRICE_TDUST, createdAt: 0 };
+
+// URL- and filesystem-safe slug
+export function isEventId(value: unknown): value is string {
+    return typeof value === "string" && /^[a-z0-9][a-z0-9-]{0,39}$/.test(value);
+}
+
+export function eventTiers(event: TicketEvent): TicketTier[] {
+    return event.tiers && event.tiers.length ? event.tiers : [{ id: 0, name: "General", priceTdust: event.priceTdust }];
+}
+
+export function findTier(event: TicketEvent, tier: unknown): TicketTier | null {
+    return isTier(tier) ? eventTiers(event).find(t => t.id === tier) ?? null : null;
+}
+
+// Accepts a list of { name, priceTdust, capacity? } or the compact form "General:10, VIP:50:16"
+// (name:price[:capacity]). Ids follow list order, so the first tier is 0 (general admission).
+export function parseTiers(raw: unknown): TicketTier[] {
+    const items: unknown[] = typeof raw === "string"
+        ? raw.split(",").map(s => s.trim()).filter(Boolean).map(s => {
+            const [name, price, capacity] = s.split(":").map(p => p.trim());
+            return { name, priceTdust: price, capacity: capacity || undefined };
+        })
+        : Array.isArray(raw) ? raw : [];
+    if (items.length === 0) throw new Error("At least one tier is required");
+    if (items.length > MAX_TIER + 1) throw new Error(`At most ${MAX_TIER + 1} tiers are supported`);
+    const names = new Set<string>();
+    return items.map((item, id) => {
+        const { name, priceTdust, capacity } = (item || {}) as { name?: unknown; priceTdust?: unknown; capacity?: unknown };
+        const tierName = String(name ?? "").trim().slice(0, 60);
+        if (!tierName) throw new Error(`Tier ${id} needs a name`);
+        if (names.has(tierName.toLowerCase())) throw new Error(`Duplicate tier name "${tierName}"`);
+        names.add(tierName.toLowerCase());
+        const price = Number(priceTdust);
+        if (!Number.isInteger(price) || price < 0) throw new Error(`Tier "${tierName}": price must be a non-negative integer`);
+        const tier: TicketTier = { id, name: tierName, priceTdust: price };
+        if (capacity != null && capacity !== "") {
+            const cap = Number(capacity);
+            if (!Number.isInteger(cap) || cap < 1) throw new Error(`Tier "${tierName}": capacity must be a positive integer`);
+            tier.capacity = cap;
+        }
+        return tier;
+    });
+}
+
+// The default event keeps the original top-level files so existing data stays valid.
+export function eventDir(dataDir: string, id: string): string {
+    return id === DEFAULT_EVENT_ID ? dataDir : path.join(dataDir, "events", id);
+}
+
+export class EventRegistry {
+    private readonly file: string;
+
+    constructor(private readonly dataDir: string) {
+        this.file = path.join(dataDir, ".events.json");
+    }
+
+    private read(): TicketEvent[] {
+        if (!fs.existsSync(this.file)) return [];
+        return (JSON.parse(fs.readFileSync(this.file, "utf-8")) as { events: TicketEvent[] }).events;
+    }
+
+    private write(events: TicketEvent[]) {
+        writeFileAtomic(this.file, JSON.stringify({ events }, null, 2));
+    }
+
+    // The default event always exists, even before it is written to the registry.
+    list(): TicketEvent[] {
+        const stored = this.read();
+        return stored.some(e => e.id === DEFAULT_EVENT_ID) ? stored : [DEFAULT_EVENT, ...stored];
+    }
+
+    get(id: string): TicketEvent | null {
+        return this.list().find(e => e.id === id) ?? null;
+    }
+
+    create(event: Omit<TicketEvent, "createdAt">): TicketEvent {
+        if (!isEventId(event.id)) throw new Error("Event id must be 1-40 lowercase letters, digits or dashes");
+        if (this.get(event.id)) throw new Error(`Event "${event.id}" already exists`);
+        const created = { ...event, createdAt: Date.now() };
+        this.write([...this.read(), created]);
+        fs.mkdirSync(eventDir(this.dataDir, event.id), { recursive: true });
+        return created;
+    }
+
+    update(id: string, patch: Partial<Pick<TicketEvent, "name" | "priceTdust" | "tiers">>): TicketEvent {
+        const current = this.get(id);
+        if (!current) throw new Error(`Unknown event "${id}"`);
+        const updated = { ...current, ...patch };
+        const stored = this.read();
+        this.write(stored.some(e => e.id === id) ? stored.map(e => (e.id === id ? updated : e)) : [updated, ...stored]);
+        return updated;
+    }
+}
@@ -0,0 +1,152 @@
+// Gate scanner devices and the gate audit log. A device holds an ECDSA P-256 key pair (WebCrypto
+// in the scanner page), is registered under a gate id by its public key, and signs every check-in
+// it sends (src/lib/checkin.ts). Each accepted check-in is appended to the event's audit log, and
+// every entry hashes the one before it, so an edited, dropped or reordered entry breaks the chain
+// from that point on. The device signatures stay in the log, so entries cannot be forged either.
+import crypto from "crypto";
+import { CheckIn, checkInMessage, deviceIdOf } from "../lib/checkin.js";
+import { csvField } from "../lib/ticket-bundle.js";
+import { Hash, sha256Hex } from "../lib/ticket-crypto.js";
+
+export interface ScannerDevice {
+    id: string; // deviceIdOf(publicKey)
+    gateId: string; // e.g. "north-1"
+    name: string;
+    publicKey: string; // SPKI DER, base64url
+    registeredAt: number;
+    registeredBy: string; // principal name
+    revokedAt?: number;
+}
+
+export interface GateLogEntry {
+    seq: number; // 0, 1, 2, ... per event
+    eventId: string;
+    gateId: string; // "issuer" for an admin's check-in without a device
+    deviceId: string | null;
+    nullifier: Hash;
+    at: number; // device clock (server clock when unsigned)
+    receivedAt: number;
+    principal: string; // who was signed in
+    signature: string | null; // the device's, over checkInMessage
+    prevHash: Hash;
+    hash: Hash;
+}
+
+export type GateLogFields = Omit<GateLogEntry, "seq" | "prevHash" | "hash">;
+
+// A ticket let in a second time, found when an offline scanner synced its queue: who admitted it
+// again, and the log entry that had already spent it (null if it was spent without one)
+export interface CheckInConflict {
+    eventId: string;
+    nullifier: Hash;
+    gateId: string;
+    deviceId: string | null;
+    at: number; // when the second gate scanned it
+    receivedAt: number;
+    principal: string;
+    first: Pick<GateLogEntry, "seq" | "gateId" | "deviceId" | "at" | "receivedAt"> | null;
+}
+
+export const GENESIS_HASH: Hash = "0x" + "0".repeat(64);
+// Device clocks may run ahead a little; a check-in from further in the future is refused
+export const CHECKIN_MAX_SKEW_MS = 5 * 60 * 1000;
+export const UNSIGNED_GATE_ID = "issuer";
+
+export function isGateId(value: unknown): value is string {
+    return typeof value === "string" && /^[a-z0-9][a-z0-9-]{0,39}$/.test(value);
+}
+
+function publicKeyObject(publicKey: string): crypto.KeyObject {
+    const key = crypto.createPublicKey({ key: Buffer.from(publicKey, "base64url"), format: "der", type: "spki" });
+    if (key.asymmetricKeyType !== "ec" || key.asymmetricKeyDetails?.namedCurve !== "prime256v1") throw new Error("Device key must be ECDSA P-256");
+    return key;
+}
+
+// A registration request checked and turned into a device; throws with a message for the caller
+export function newDevice(body: { gateId?: unknown; name?: unknown; publicKey?: unknown }, registeredBy: string, now = Date.now()): ScannerDevice {
+    const { gateId, name, publicKey } = body;
+    if (!isGateId(gateId)) throw new Error("gateId must be 1-40 lowercase letters, digits or dashes");
+    if (typeof publicKey !== "string" || !publicKey) throw new Error("Missing publicKey (SPKI, base64url)");
+    try {
+        publicKeyObject(publicKey);
+    } catch (e: any) {
+        throw new Error(`Invalid publicKey: ${e?.message || e}`);
+    }
+    const id = deviceIdOf(publicKey);
+    return { id, gateId, name: String(name || id).slice(0, 80), publicKey, registeredAt: now, registeredBy };
+}
+
+// The signature is IEEE P1363 (r || s), base64url, as WebCrypto produces it
+export function verifyCheckIn(device: ScannerDevice, checkIn: CheckIn, signature: string): boolean {
+    try {
+        const key = publicKeyObject(device.publicKey);
+        const data = Buffer.from(checkInMessage(checkIn), "utf-8");
+        return crypto.verify("sha256", data, { key, dsaEncoding: "ieee-p1363" }, Buffer.from(signature, "base64url"));
+    } catch {
+        return false;
+    }
+}
+
+// Fixed field order, so the hash never depends on how an entry was (de)serialized
+function entryHash(seq: number, fields: GateLogFields, prevHash: Hash): Hash {
+    return sha256Hex(JSON.stringify([
+        seq, fields.eventId, fields.gateId, fields.deviceId, fields.nullifier, fields.at,
+        fields.receivedAt, fields.principal, fields.signature, prevHash
+    ]));
+}
+
+// The next entry after `last` (null: the event's first)
+export function chainEntry(last: GateLogEntry | null, fields: GateLogFields): GateLogEntry {
+    const seq = last ? last.seq + 1 : 0;
+    const prevHash = last ? last.hash : GENESIS_HASH;
+    return { seq, ...fields, prevHash, hash: entryHash(seq, fields, prevHash) };
+}
+
+export type GateLogCheck =
+    | { ok: true; length: number; head: Hash }
+    | { ok: false; length: number; brokenAt: number; reason: string };
+
+// Walks the whole chain: sequence, links, hashes, and each signed entry's device signature
+export function verifyGateLog(entries: GateLogEntry[], devices: Map<string, ScannerDevice>): GateLogCheck {
+    let prev: GateLogEntry | null = null;
+    for (const [i, entry] of entries.entries()) {
+        const broken = (reason: string): GateLogCheck => ({ ok: false, length: entries.length, brokenAt: i, reason });
+        if (entry.seq !== i) return broken(`Entry ${i} has sequence number ${entry.seq}`);
+        if (entry.prevHash !== (prev ? prev.hash : GENESIS_HASH)) return broken(`Entry ${i} does not link to entry ${i - 1}`);
+        const { seq, prevHash, hash, ...fields } = entry;
+        if (hash !== entryHash(seq, fields, prevHash)) return broken(`Entry ${i} was altered`);
+        if (entry.deviceId) {
+            const device = devices.get(entry.deviceId);
+            if (!device) return broken(`Entry ${i} names unknown device ${entry.deviceId}`);
+            const checkIn = { eventId: entry.eventId, deviceId: entry.deviceId, nullifier: entry.nullifier, at: entry.at };
+            if (!entry.signature || !verifyCheckIn(device, checkIn, entry.signature)) return broken(`Entry ${i} has no valid signature from ${entry.deviceId}`);
+        }
+        prev = entry;
+    }
+    return { ok: true, length: entries.length, head: prev ? prev.hash : GENESIS_HASH };
+}
+
+// Check-ins, devices and first/last time per gate
+export function gateSummary(entries: GateLogEntry[]) {
+    const gates = new Map<string, { gateId: string; checkIns: number; devices: Set<string>; first: number; last: number }>();
+    for (const e of entries) {
+        const gate = gates.get(e.gateId) ?? { gateId: e.gateId, checkIns: 0, devices: new Set<string>(), first: e.receivedAt, last: e.receivedAt };
+        gate.checkIns++;
+        if (e.deviceId) gate.devices.add(e.deviceId);
+        gate.first = Math.min(gate.first, e.receivedAt);
+        gate.last = Math.max(gate.last, e.receivedAt);
+        gates.set(e.gateId, gate);
+    }
+    return [...gates.values()].map(g => ({ ...g, devices: [...g.devices] }));
+}
+
+const LOG_COLUMNS = ["seq", "event", "gate", "device", "nullifier", "at", "received_at", "principal", "signature", "prev_hash", "hash"];
+
+// One row per entry with everything needed to re-verify the chain; times are ISO 8601 UTC
+export function gateLogCsv(entries: GateLogEntry[]): string {
+    const iso = (ms: number) => new Date(ms).toISOString();
+    const rows = entries.map(e => [
+        e.seq, e.eventId, e.gateId, e.deviceId ?? "", e.nullifier, iso(e.at), iso(e.receivedAt), e.principal, e.signature ?? "", e.prevHash, e.hash
+    ].map(csvField).join(","));
+    return [LOG_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
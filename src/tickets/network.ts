@@ -0,0 +1,118 @@
+// Named network profiles: which indexer, node and proof server a run talks to, and under which
+// network id. Built-in profiles can be overridden or extended from a JSON file, and the selected
+// one from env vars. Every entry point selects its profile with --network (else TICKETS_NETWORK,
+// else testnet) before it builds a wallet or reads deployment.json.
+import * as fs from "fs";
+import { NetworkId, setNetworkId } from "@midnight-ntwrk/midnight-js-network-id";
+import type { ChainEndpoints } from "./chain.js";
+
+export interface NetworkProfile extends ChainEndpoints {
+    name: string;
+    label: string; // shown to buyers, e.g. "Midnight Testnet"
+    networkId: NetworkId;
+    issuerAddress?: string; // where buyers pay when the server has no ISSUER_SEED
+}
+
+export const DEFAULT_NETWORK = "testnet";
+
+const BUILTIN_PROFILES: Record<string, Omit<NetworkProfile, "name">> = {
+    // Local standalone network (node, indexer and proof server in Docker)
+    undeployed: {
+        label: "Midnight Standalone",
+        networkId: NetworkId.Undeployed,
+        indexer: "http://127.0.0.1:8088/api/v1/graphql",
+        indexerWS: "ws://127.0.0.1:8088/api/v1/graphql/ws",
+        node: "http://127.0.0.1:9944",
+        proofServer: "http://127.0.0.1:6300"
+    },
+    testnet: {
+        label: "Midnight Testnet",
+        networkId: NetworkId.TestNet,
+        indexer: "https://indexer.testnet-02.midnight.network/api/v1/graphql",
+        indexerWS: "wss://indexer.testnet-02.midnight.network/api/v1/graphql/ws",
+        node: "https://rpc.testnet-02.midnight.network",
+        proofServer: "http://127.0.0.1:6300",
+        issuerAddress: "mn_shield-addr_test1lz3swvmx3nuh5f98857se90cmc9fqe0hg26mf6gkctaslsr3su2sxqpyyjdmdtulmjetd2w4g52r2pm4u6pahcv5pd8y7ukljkpgy5a2qg83reu6"
+    },
+    // No endpoints are assumed for mainnet: they must come from the profiles file or the env
+    mainnet: {
+        label: "Midnight Mainnet",
+        networkId: NetworkId.MainNet,
+        indexer: "",
+        indexerWS: "",
+        node: "",
+        proofServer: "http://127.0.0.1:6300"
+    }
+};
+
+const ENDPOINT_ENV: Record<keyof ChainEndpoints, string> = {
+    indexer: "TICKETS_INDEXER",
+    indexerWS: "TICKETS_INDEXER_WS",
+    node: "TICKETS_NODE",
+    proofServer: "TICKETS_PROOF_SERVER"
+};
+
+function isNetworkId(value: unknown): value is NetworkId {
+    return Object.values(NetworkId).includes(value as NetworkId);
+}
+
+// Profiles file (TICKETS_NETWORKS_FILE, else networks.json if present): { "<name>": { networkId?,
+// label?, indexer?, indexerWS?, node?, proofServer?, issuerAddress? } }. Fields override the
+// built-in profile of that name; a new name needs a networkId.
+function readProfilesFile(file: string): Record<string, Partial<NetworkProfile>> {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(fs.readFileSync(file, "utf-8"));
+    } catch (e: any) {
+        throw new Error(`Cannot read network profiles from ${file}: ${e?.message || e}`);
+    }
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+        throw new Error(`${file} must map profile names to { networkId, indexer, indexerWS, node, proofServer }`);
+    }
+    return parsed as Record<string, Partial<NetworkProfile>>;
+}
+
+export function networkProfiles(file = process.env.TICKETS_NETWORKS_FILE): Record<string, Omit<NetworkProfile, "name">> {
+    const profiles = { ...BUILTIN_PROFILES };
+    const path = file ?? (fs.existsSync("networks.json") ? "networks.json" : undefined);
+    if (!path) return profiles;
+    for (const [name, overrides] of Object.entries(readProfilesFile(path))) {
+        const base = Object.hasOwn(profiles, name) ? profiles[name] : undefined;
+        const networkId = overrides.networkId ?? base?.networkId;
+        if (!isNetworkId(networkId)) {
+            throw new Error(`Network profile "${name}" in ${path} needs a networkId (${Object.values(NetworkId).join(", ")})`);
+        }
+        const blank = { label: `Midnight ${name}`, indexer: "", indexerWS: "", node: "", proofServer: "" };
+        profiles[name] = { ...blank, ...base, ...overrides, networkId };
+    }
+    return profiles;
+}
+
+// The named profile with TICKETS_INDEXER / _INDEXER_WS / _NODE / _PROOF_SERVER / _ISSUER_ADDRESS
+// applied on top; throws when the name is unknown or an endpoint is still missing
+export function loadNetwork(name = process.env.TICKETS_NETWORK || DEFAULT_NETWORK): NetworkProfile {
+    const profiles = networkProfiles();
+    const base = Object.hasOwn(profiles, name) ? profiles[name] : undefined;
+    if (!base) throw new Error(`Unknown network "${name}" (${Object.keys(profiles).join(", ")})`);
+    const profile: NetworkProfile = { ...base, name };
+    for (const [key, env] of Object.entries(ENDPOINT_ENV) as Array<[keyof ChainEndpoints, string]>) {
+        if (process.env[env]) profile[key] = process.env[env]!;
+    }
+    // An indexer set on its own implies its websocket next to it
+    if (profile.indexer && (!profile.indexerWS || (process.env.TICKETS_INDEXER && !process.env.TICKETS_INDEXER_WS))) {
+        profile.indexerWS = profile.indexer.replace(/^http/, "ws") + "/ws";
+    }
+    if (process.env.TICKETS_ISSUER_ADDRESS) profile.issuerAddress = process.env.TICKETS_ISSUER_ADDRESS;
+    const missing = (Object.keys(ENDPOINT_ENV) as Array<keyof ChainEndpoints>).filter(key => !profile[key]);
+    if (missing.length) {
+        throw new Error(`Network "${name}" has no ${missing.join(", ")}: set ${missing.map(key => ENDPOINT_ENV[key]).join(", ")} or add them to the profiles file`);
+    }
+    return profile;
+}
+
+// Loads the profile and points the Midnight libraries at its network id
+export function selectNetwork(name?: string): NetworkProfile {
+    const profile = loadNetwork(name);
+    setNetworkId(profile.networkId);
+    return profile;
+}
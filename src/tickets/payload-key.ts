@@ -0,0 +1,79 @@
+// The issuer's key for v2 ticket payloads (src/lib/ticket-payload.ts). TICKETS_PAYLOAD_KEY is either
+// an EC P-256 private key in PEM, and tags are signatures anyone holding the public key can check
+// (offline scanners included), or a passphrase of at least 16 characters, and tags are MACs only
+// the server can check. A P-256 key made for this run, whose tickets stop verifying after a
+// restart, only with TICKETS_PAYLOAD_KEY=ephemeral or in the TICKETS_AUTH=off demo mode.
+import crypto from "crypto";
+import { Hash, HashFunction } from "../lib/hash.js";
+import { TICKET_DERIVATION, TicketDerivation, TicketPayload, leafFromTicket } from "../lib/ticket-crypto.js";
+import { PayloadAuth, PayloadAuthKind, encodeTicketPayloadV2, issuerMessage, payloadMac, rootRefOf, verifyPayloadMac } from "../lib/ticket-payload.js";
+
+const MIN_PASSPHRASE_LENGTH = 16;
+// TICKETS_PAYLOAD_KEY value asking for a key made for this run only
+export const EPHEMERAL_PAYLOAD_KEY = "ephemeral";
+
+export interface TaggedTicket {
+    eventId: string;
+    tier: number;
+    index: number;
+    leaf: Hash;
+}
+
+export class PayloadKey {
+    private constructor(
+        readonly kind: PayloadAuthKind,
+        private readonly signingKey: crypto.KeyObject | null,
+        private readonly macKey: Uint8Array | null,
+        readonly generated = false
+    ) { }
+
+    static fromEnv(env: NodeJS.ProcessEnv = process.env): PayloadKey {
+        const raw = env.TICKETS_PAYLOAD_KEY?.trim();
+        if (raw === EPHEMERAL_PAYLOAD_KEY || (!raw && env.TICKETS_AUTH === "off")) {
+            return new PayloadKey("sig", crypto.generateKeyPairSync("ec", { namedCurve: "P-256" }).privateKey, null, true);
+        }
+        if (!raw) {
+            throw new Error(`TICKETS_PAYLOAD_KEY is not set: give a P-256 private key (PEM) or a passphrase, or "${EPHEMERAL_PAYLOAD_KEY}" for a key that lasts one run`);
+        }
+        if (raw.startsWith("-----BEGIN")) {
+            let key: crypto.KeyObject;
+            try { key = crypto.createPrivateKey(raw.replace(/\\n/g, "\n")); } catch (e: any) { throw new Error(`TICKETS_PAYLOAD_KEY is not a readable private key: ${e?.message || e}`); }
+            if (key.asymmetricKeyType !== "ec" || key.asymmetricKeyDetails?.namedCurve !== "prime256v1") {
+                throw new Error("TICKETS_PAYLOAD_KEY must be an EC P-256 (prime256v1) private key");
+            }
+            return new PayloadKey("sig", key, null);
+        }
+        if (raw.length < MIN_PASSPHRASE_LENGTH) throw new Error(`TICKETS_PAYLOAD_KEY is shorter than ${MIN_PASSPHRASE_LENGTH} characters`);
+        return new PayloadKey("mac", null, crypto.createHash("sha256").update(raw).digest());
+    }
+
+    // SPKI DER, base64url; null for a MAC key, which must stay on the server
+    get publicKey(): string | null {
+        return this.signingKey ? crypto.createPublicKey(this.signingKey).export({ type: "spki", format: "der" }).toString("base64url") : null;
+    }
+
+    // The tag for a ticket issued under `root`, handed to its holder with the issuance response
+    authFor(ticket: TaggedTicket, root: Hash): PayloadAuth {
+        const rootRef = rootRefOf(root);
+        const message = issuerMessage({ ...ticket, rootRef });
+        const tag = this.signingKey
+            ? crypto.sign("sha256", message, { key: this.signingKey, dsaEncoding: "ieee-p1363" }).toString("base64url")
+            : payloadMac(this.macKey!, message);
+        return { kind: this.kind, rootRef, tag };
+    }
+
+    // The whole v2 payload, for a ticket whose secret the issuer holds (batch and demo tickets)
+    payloadFor(eventId: string, ticket: TicketPayload, hash: HashFunction, root: Hash, derivation: TicketDerivation = TICKET_DERIVATION): string {
+        const tier = ticket.tier ?? 0;
+        const leaf = leafFromTicket(ticket.secret, ticket.issuedAt, hash, tier, derivation);
+        const auth = this.authFor({ eventId, tier, index: ticket.index, leaf }, root);
+        return encodeTicketPayloadV2({ ...ticket, tier, eventId, auth });
+    }
+
+    verify(ticket: TaggedTicket, auth: PayloadAuth): boolean {
+        if (auth.kind !== this.kind) return false;
+        const message = issuerMessage({ ...ticket, rootRef: auth.rootRef });
+        if (this.macKey) return verifyPayloadMac(this.macKey, message, auth.tag);
+        return crypto.verify("sha256", message, { key: this.signingKey!, dsaEncoding: "ieee-p1363" }, Buffer.from(auth.tag, "base64url"));
+    }
+}
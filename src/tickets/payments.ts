@@ -0,0 +1,193 @@
+// Payment verification for paid issuance. The server only needs a yes/no per txId, so the
+// check sits behind PaymentVerifier: the indexer-backed one below in production, a fake in tests.
+import { LocalState, SecretKeys, Transaction, nativeToken } from "@midnight-ntwrk/zswap";
+import { getZswapNetworkId } from "@midnight-ntwrk/midnight-js-network-id";
+import { fromHex } from "../lib/ticket-crypto.js";
+
+// tDUST has 6 decimals; prices are configured in whole tDust
+export const TDUST_ATOMIC_UNITS = 1_000_000n;
+export const DEFAULT_MIN_CONFIRMATIONS = 3;
+
+export interface PaymentRequest {
+    txId: string; // transaction hash (64 hex) or identifier, as returned by the wallet
+    recipient: string; // issuer address the payment must go to
+    amount: bigint; // exact amount in atomic units (see PaymentIntent)
+    notBefore?: number; // ms; the transaction's block must fall inside [notBefore, notAfter]
+    notAfter?: number;
+}
+
+export type PaymentVerdict =
+    | { ok: true; amount: bigint; blockHeight: number }
+    // retryable: the transaction may still show up / finalize, so the buyer can try again later
+    | { ok: false; reason: string; retryable?: boolean };
+
+export interface PaymentVerifier {
+    verify(request: PaymentRequest): Promise<PaymentVerdict>;
+}
+
+// A payment intent binds one payment to one leaf. Shielded transfers carry no memo the issuer
+// could check, so the binding is the amount: price plus a nonce in the sub-tDust digits, unique
+// among the intents open at the same time. The issuer decodes the exact amount it received, so
+// a txId only satisfies the intent it was paid for and cannot be claimed for another leaf.
+export interface PaymentIntent {
+    id: string;
+    commitment: string;
+    tier: number;
+    amount: string; // atomic units, decimal string (bigint in JSON)
+    memo: string; // also passed to wallets that support memos; informational only
+    createdAt: number;
+    expiresAt: number;
+    txId?: string; // set once redeemed
+    usedAt?: number;
+}
+
+export const PAYMENT_INTENT_TTL_MS = 30 * 60 * 1000;
+
+// 1 .. TDUST_ATOMIC_UNITS-1, skipping nonces held by intents whose window is still open
+export function intentAmount(priceTdust: number, openIntents: PaymentIntent[], random: () => number = secureRandom): bigint {
+    const base = BigInt(priceTdust) * TDUST_ATOMIC_UNITS;
+    const taken = new Set(openIntents.map(i => i.amount));
+    for (let attempt = 0; attempt < 100; attempt++) {
+        const nonce = 1n + BigInt(Math.floor(random() * Number(TDUST_ATOMIC_UNITS - 1n)));
+        const amount = base + nonce;
+        if (!taken.has(amount.toString())) return amount;
+    }
+    throw new Error("Too many open payment intents; try again shortly");
+}
+
+function secureRandom(): number {
+    const buf = new Uint32Array(1);
+    globalThis.crypto.getRandomValues(buf);
+    return buf[0] / 2 ** 32;
+}
+
+// Atomic units as a decimal tDust string, e.g. 10000123n => "10.000123"
+export function formatTdust(amount: bigint): string {
+    const whole = amount / TDUST_ATOMIC_UNITS;
+    const frac = (amount % TDUST_ATOMIC_UNITS).toString().padStart(6, "0");
+    return `${whole}.${frac}`;
+}
+
+// Hex, optionally 0x-prefixed; normalized to lowercase without prefix
+export function normalizeTxId(raw: unknown): string | null {
+    if (typeof raw !== "string") return null;
+    const hex = raw.trim().replace(/^0x/i, "").toLowerCase();
+    return /^[0-9a-f]{64,256}$/.test(hex) && hex.length % 2 === 0 ? hex : null;
+}
+
+// Amount of tDUST the holder of `keys` received in a serialized transaction. Shielded outputs
+// are only readable by the recipient, so this is also the recipient check.
+export type ReceiptDecoder = (rawTxHex: string) => bigint;
+
+export function shieldedReceiptDecoder(keys: SecretKeys): ReceiptDecoder {
+    return (rawTxHex: string) => {
+        const tx = Transaction.deserialize(fromHex(rawTxHex), getZswapNetworkId());
+        const state = new LocalState().applyTx(keys, tx, "success");
+        let total = 0n;
+        for (const coin of state.coins) if (coin.type === nativeToken()) total += coin.value;
+        return total;
+    };
+}
+
+type IndexerTransaction = { hash: string; applyStage: string; raw: string; block: { height: number; timestamp: number } | null };
+
+export interface IndexerPaymentVerifierOptions {
+    recipient: string; // address the decoder's keys belong to
+    decodeReceipt: ReceiptDecoder;
+    minConfirmations?: number;
+    fetch?: typeof fetch; // injectable for a local fake indexer
+}
+
+// Looks the transaction up through the indexer GraphQL API and accepts it when it applied
+// entirely, has `minConfirmations` blocks on top, landed inside the intent's window and paid
+// exactly the intent's amount to the issuer.
+export class IndexerPaymentVerifier implements PaymentVerifier {
+    private readonly minConfirmations: number;
+    private readonly fetchFn: typeof fetch;
+
+    constructor(private readonly indexerUrl: string, private readonly options: IndexerPaymentVerifierOptions) {
+        this.minConfirmations = options.minConfirmations ?? DEFAULT_MIN_CONFIRMATIONS;
+        this.fetchFn = options.fetch ?? fetch;
+    }
+
+    private async query<T>(query: string, variables: Record<string, unknown>): Promise<T> {
+        const res = await this.fetchFn(this.indexerUrl, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ query, variables })
+        });
+        if (!res.ok) throw new Error(`Indexer HTTP ${res.status}`);
+        const body = await res.json() as { data?: T; errors?: Array<{ message: string }> };
+        if (body.errors?.length) throw new Error(`Indexer error: ${body.errors[0].message}`);
+        if (!body.data) throw new Error("Indexer returned no data");
+        return body.data;
+    }
+
+    async verify(request: PaymentRequest): Promise<PaymentVerdict> {
+        const txId = normalizeTxId(request.txId);
+        if (!txId) return { ok: false, reason: "Invalid txId" };
+        if (request.recipient !== this.options.recipient) {
+            return { ok: false, reason: "Cannot verify payments to this address" };
+        }
+        // Hashes are 32 bytes; anything longer is a wallet transaction identifier
+        const offset = txId.length === 64 ? "hash" : "identifier";
+        let data: { transactions: IndexerTransaction[]; block: { height: number } | null };
+        try {
+            data = await this.query(
+                `query PaymentTx($id: HexEncoded!) {
+                    transactions(offset: { ${offset}: $id }) { hash applyStage raw block { height timestamp } }
+                    block { height }
+                }`,
+                { id: txId }
+            );
+        } catch (e: any) {
+            return { ok: false, reason: `Payment lookup failed: ${e?.message || e}`, retryable: true };
+        }
+        const tx = data.transactions[0];
+        if (!tx || !tx.block) return { ok: false, reason: "Transaction not found", retryable: true };
+        if (tx.applyStage !== "SucceedEntirely") return { ok: false, reason: "Transaction did not succeed" };
+        const confirmations = (data.block?.height ?? 0) - tx.block.height + 1;
+        if (confirmations < this.minConfirmations) {
+            return { ok: false, reason: `Transaction not final yet (${Math.max(confirmations, 0)}/${this.minConfirmations} confirmations)`, retryable: true };
+        }
+        if (!withinWindow(tx.block.timestamp, request)) return { ok: false, reason: "Transaction is outside the payment intent window" };
+        let amount: bigint;
+        try {
+            amount = this.options.decodeReceipt(tx.raw);
+        } catch (e: any) {
+            return { ok: false, reason: `Could not decode transaction: ${e?.message || e}` };
+        }
+        if (amount === 0n) return { ok: false, reason: "Transaction does not pay the issuer" };
+        if (amount !== request.amount) return { ok: false, reason: "Payment amount does not match the payment intent" };
+        return { ok: true, amount, blockHeight: tx.block.height };
+    }
+}
+
+function withinWindow(timestamp: number, request: PaymentRequest): boolean {
+    return (request.notBefore == null || timestamp >= request.notBefore) && (request.notAfter == null || timestamp <= request.notAfter);
+}
+
+type FakePayment = { recipient: string; amount: bigint; final: boolean; timestamp: number };
+
+// In-memory stand-in for tests and local demos: register payments, then verify against them.
+export class FakePaymentVerifier implements PaymentVerifier {
+    private readonly payments = new Map<string, FakePayment>();
+
+    add(txId: string, payment: { recipient: string; amount: bigint; final?: boolean; timestamp?: number }) {
+        const id = normalizeTxId(txId);
+        if (!id) throw new Error("Invalid txId");
+        this.payments.set(id, { ...payment, final: payment.final ?? true, timestamp: payment.timestamp ?? Date.now() });
+    }
+
+    async verify(request: PaymentRequest): Promise<PaymentVerdict> {
+        const txId = normalizeTxId(request.txId);
+        if (!txId) return { ok: false, reason: "Invalid txId" };
+        const p = this.payments.get(txId);
+        if (!p) return { ok: false, reason: "Transaction not found", retryable: true };
+        if (!p.final) return { ok: false, reason: "Transaction not final yet", retryable: true };
+        if (!withinWindow(p.timestamp, request)) return { ok: false, reason: "Transaction is outside the payment intent window" };
+        if (p.recipient !== request.recipient) return { ok: false, reason: "Transaction does not pay the issuer" };
+        if (p.amount !== request.amount) return { ok: false, reason: "Payment amount does not match the payment intent" };
+        return { ok: true, amount: p.amount, blockHeight: 0 };
+    }
+}
@@ -0,0 +1,309 @@
+// What the CLI's menu and its subcommands share. A reader follows the deployed contract through
+// the indexer only (state, verify); a session adds the wallet, the connected contract and the
+// batch publisher for commands that send transactions. The ticket operations below return plain
+// results and throw CommandError, so both front ends print them their own way.
+import fs from "fs";
+import * as Rx from "rxjs";
+import { WalletBuilder } from "@midnight-ntwrk/wallet";
+import { findDeployedContract } from "@midnight-ntwrk/midnight-js-contracts";
+import { indexerPublicDataProvider } from "@midnight-ntwrk/midnight-js-indexer-public-data-provider";
+import type { PublicDataProvider } from "@midnight-ntwrk/midnight-js-types";
+import { getZswapNetworkId } from "@midnight-ntwrk/midnight-js-network-id";
+import { PRIVATE_STATE_ID, decodeLedger, hashAlgorithmToLedger, loadTicketsContract } from "./contract.js";
+import {
+    ChainPublisher,
+    ChainSync,
+    Deployment,
+    LocalTree,
+    anchoredLeafCount,
+    pendingChanges,
+    readDeployment,
+    ticketProviders
+} from "./chain.js";
+import type { NetworkProfile } from "./network.js";
+import { buildRedemptionWitness, emptyPrivateState, issuerSecretKeyFromSeed, redeemNotAfter, witnesses } from "./witness.js";
+import {
+    DEFAULT_ROOT_HISTORY,
+    LOCAL_STATE_FILE,
+    TicketLedgerStateOnChain,
+    TicketRecord,
+    TicketSystem,
+    masterSeedFromEnv,
+    nullifierFromSecret,
+    verifyRedemption
+} from "./state.js";
+import { withFileLock } from "./store.js";
+import type { HashAlgorithm } from "../lib/hash.js";
+import { MAX_TIER, TicketPayload, encodeTicketPayload, isTier, payloadFromScanUrl } from "../lib/ticket-crypto.js";
+import { decodeAnyTicketPayload } from "../lib/ticket-payload.js";
+import { hashFunctionFor } from "../lib/poseidon.js";
+import { DEFAULT_EVENT_ID } from "./events.js";
+import { EPHEMERAL_PAYLOAD_KEY, PayloadKey } from "./payload-key.js";
+
+// Process exit codes of the subcommands
+export const EXIT = {
+    ok: 0,
+    rejected: 1, // the ticket or the contract said no (expired, already used, not initialized, ...)
+    usage: 2, // bad arguments
+    unavailable: 3 // no deployment, no seed, network or proof server unreachable
+} as const;
+
+export class CommandError extends Error {
+    constructor(message: string, readonly exitCode: number = EXIT.rejected) {
+        super(message);
+        this.name = "CommandError";
+    }
+}
+
+// Wallet seed from --seed-file, else WALLET_SEED_FILE, else WALLET_SEED; null when none is set
+export function readWalletSeed(seedFile = process.env.WALLET_SEED_FILE): string | null {
+    let seed: string | undefined;
+    if (seedFile) {
+        try {
+            seed = fs.readFileSync(seedFile, "utf-8");
+        } catch (e: any) {
+            throw new CommandError(`Cannot read seed file ${seedFile}: ${e?.message || e}`, EXIT.unavailable);
+        }
+    } else {
+        seed = process.env.WALLET_SEED;
+    }
+    if (seed === undefined) return null;
+    seed = seed.trim();
+    if (!/^[0-9a-fA-F]{64}$/.test(seed)) throw new CommandError("Wallet seed must be 64 hex characters", EXIT.usage);
+    return seed;
+}
+
+export interface Reader {
+    network: NetworkProfile;
+    deployment: Deployment;
+    ticketsModule: any;
+    publicDataProvider: PublicDataProvider;
+    readOnChainState(): Promise<TicketLedgerStateOnChain | null>;
+}
+
+export async function openReader(network: NetworkProfile, deploymentFile?: string): Promise<Reader> {
+    let deployment: Deployment;
+    try {
+        deployment = readDeployment(deploymentFile, network);
+    } catch (e: any) {
+        throw new CommandError(e?.message || String(e), EXIT.unavailable);
+    }
+    const ticketsModule = await loadTicketsContract();
+    const publicDataProvider = indexerPublicDataProvider(network.indexer, network.indexerWS);
+    return {
+        network,
+        deployment,
+        ticketsModule,
+        publicDataProvider,
+        // Current on-chain state from the typed ledger, or null if unavailable
+        async readOnChainState() {
+            try {
+                const state = await publicDataProvider.queryContractState(deployment.contractAddress);
+                if (state) return decodeLedger(ticketsModule, state.data);
+            } catch { }
+            return null;
+        }
+    };
+}
+
+export interface Session extends Reader {
+    wallet: Awaited<ReturnType<typeof WalletBuilder.buildFromSeed>>;
+    providers: Awaited<ReturnType<typeof ticketProviders>>;
+    deployed: any;
+    sync: ChainSync;
+    // Issued tickets wait for a batched root: one publishRoot per TICKETS_PUBLISH_BATCH tickets
+    // (default 10) or every TICKETS_PUBLISH_INTERVAL_MS (default 30000), not one per ticket
+    publisher: ChainPublisher;
+    // Key for the issuer-only circuits (init, publishRoot, recordNullifiers); only the deployer's
+    // seed gives the key the contract accepts
+    issuerKey: Uint8Array;
+    close(): Promise<void>;
+}
+
+export interface SessionOptions {
+    network: NetworkProfile;
+    deploymentFile?: string;
+    walletLogLevel?: "info" | "warn" | "error";
+    log?: (message: string) => void;
+}
+
+export async function openSession(seed: string, options: SessionOptions): Promise<Session> {
+    const { network } = options;
+    const reader = await openReader(network, options.deploymentFile);
+    const wallet = await WalletBuilder.buildFromSeed(
+        network.indexer,
+        network.indexerWS,
+        network.proofServer,
+        network.node,
+        seed,
+        getZswapNetworkId(),
+        options.walletLogLevel ?? "info"
+    );
+    wallet.start();
+    await Rx.firstValueFrom(wallet.state().pipe(Rx.filter(s => s.syncProgress?.synced === true)));
+
+    const providers = await ticketProviders(wallet, network);
+    const issuerKey = issuerSecretKeyFromSeed(seed);
+    const deployed: any = await findDeployedContract(providers, {
+        contractAddress: reader.deployment.contractAddress,
+        contract: new reader.ticketsModule.Contract(witnesses),
+        privateStateId: PRIVATE_STATE_ID,
+        initialPrivateState: emptyPrivateState(issuerKey)
+    });
+
+    const sync = new ChainSync(providers.publicDataProvider, reader.deployment.contractAddress, reader.ticketsModule);
+    sync.start();
+    const publisher = new ChainPublisher(deployed.callTx, sync, () => {
+        const system = TicketSystem.fromLocal();
+        return system ? localTreeOf(system) : null;
+    }, {
+        batchSize: process.env.TICKETS_PUBLISH_BATCH ? Number(process.env.TICKETS_PUBLISH_BATCH) : undefined,
+        intervalMs: process.env.TICKETS_PUBLISH_INTERVAL_MS ? Number(process.env.TICKETS_PUBLISH_INTERVAL_MS) : undefined,
+        log: options.log
+    });
+    return {
+        ...reader,
+        wallet,
+        providers,
+        deployed,
+        sync,
+        publisher,
+        issuerKey,
+        async close() {
+            publisher.stop();
+            sync.stop();
+            await wallet.close();
+        }
+    };
+}
+
+export function localTreeOf(system: TicketSystem): LocalTree {
+    return {
+        root: system.getLeafCount() ? system.getRoot() : "",
+        leafCount: system.getLeafCount(),
+        depth: system.depth,
+        hashAlgorithm: system.hashAlgorithm,
+        derivation: system.derivation,
+        nullifiers: [], // CLI redemptions put their nullifier on chain themselves
+        rootAt: count => system.rootAt(count)
+    };
+}
+
+// Tickets under the confirmed root, and those still waiting for publication
+export function publicationOf(system: TicketSystem | null, onchain: TicketLedgerStateOnChain | null) {
+    const total = system?.getLeafCount() ?? 0;
+    const anchored = system && onchain ? anchoredLeafCount(localTreeOf(system), onchain) : 0;
+    return { anchored, pending: total - anchored };
+}
+
+// The ledger as JSON: the nullifier set is summarized by its size rather than listed
+export function ledgerSummary(onchain: TicketLedgerStateOnChain | null) {
+    if (!onchain) return null;
+    const { nullifiers, ...ledger } = onchain;
+    return { ...ledger, nullifierCount: nullifiers.size };
+}
+
+export function parseTierOption(raw: string | undefined, label = "Tier"): number | undefined {
+    if (raw === undefined || raw.trim() === "") return undefined;
+    const tier = /^\d+$/.test(raw.trim()) ? Number(raw) : NaN;
+    if (!isTier(tier)) throw new CommandError(`${label} must be an integer between 0 and ${MAX_TIER}`, EXIT.usage);
+    return tier;
+}
+
+// A ticket given as a QR payload (v1 or v2), a scanner URL carrying one, or a bare secret and issuedAt
+export function ticketFromInput(input: { payload?: string; secret?: string; issuedAt?: string }): Pick<TicketPayload, "secret" | "issuedAt"> {
+    if (input.payload) {
+        const raw = input.payload.trim();
+        try {
+            return decodeAnyTicketPayload(/^https?:\/\//i.test(raw) ? payloadFromScanUrl(raw) ?? "" : raw);
+        } catch (e: any) {
+            throw new CommandError(e?.message || String(e), EXIT.usage);
+        }
+    }
+    if (!input.secret || !input.issuedAt) throw new CommandError("Give --payload, or --secret and --issued-at", EXIT.usage);
+    const issuedAt = /^\d+$/.test(input.issuedAt) ? Number(input.issuedAt) : NaN;
+    if (!Number.isSafeInteger(issuedAt)) throw new CommandError("--issued-at must be a timestamp in ms", EXIT.usage);
+    return { secret: input.secret, issuedAt };
+}
+
+export async function initContract(session: Session, maxAgeMs: number, depth: number, hashAlgorithm: HashAlgorithm, rootHistorySize = DEFAULT_ROOT_HISTORY) {
+    await session.deployed.callTx.init(BigInt(maxAgeMs), BigInt(depth), hashAlgorithmToLedger(hashAlgorithm), BigInt(rootHistorySize));
+}
+
+export interface IssuedTicket extends TicketRecord {
+    payload: string;
+}
+
+// Issues `count` tickets into the local tree in one batch; their root goes on chain with the next
+// publication. The file lock serializes CLIs sharing the local state. All or nothing.
+export async function issueTickets(session: Session, count: number, tier = 0) {
+    return withFileLock(LOCAL_STATE_FILE, async () => {
+        let system = TicketSystem.fromLocal();
+        const onchain = session.publisher.confirmed() ?? await session.readOnChainState();
+        if (!onchain || !onchain.depth || !onchain.maxAgeMs) throw new CommandError("Contract not initialized; run init first");
+        if (!system) system = new TicketSystem(onchain.depth, onchain.maxAgeMs, [], onchain.hashAlgorithm, masterSeedFromEnv());
+        // Refuse to grow a tree that can no longer be published
+        const { blocked } = pendingChanges(localTreeOf(system), onchain);
+        if (blocked) throw new CommandError(`${blocked}. Not issuing.`);
+        const free = 2 ** system.depth - system.getLeafCount();
+        if (count > free) throw new CommandError(`Only ${free} ticket(s) left in the tree`);
+        // v2 payloads need the issuer's payload key (the server's TICKETS_PAYLOAD_KEY); without it, v1
+        const rawKey = process.env.TICKETS_PAYLOAD_KEY?.trim();
+        const payloadKey = rawKey && rawKey !== EPHEMERAL_PAYLOAD_KEY ? PayloadKey.fromEnv() : null;
+        const records = system.issueBatch(count, tier);
+        const hash = hashFunctionFor(system.hashAlgorithm);
+        const root = system.getRoot();
+        const tickets: IssuedTicket[] = records.map(rec => ({
+            ...rec,
+            payload: payloadKey ? payloadKey.payloadFor(DEFAULT_EVENT_ID, rec, hash, root) : encodeTicketPayload(rec)
+        }));
+        return { tickets, maxAgeMs: system.maxAgeMs, ...publicationOf(system, onchain) };
+    });
+}
+
+// Checks a ticket against the confirmed ledger the way the redeem circuit will: the local record
+// must exist and be anchored, then expiry, nullifier, inclusion and tier
+export async function checkTicket(reader: Reader, ticket: Pick<TicketPayload, "secret" | "issuedAt">, requiredTier?: number) {
+    const system = TicketSystem.fromLocal();
+    if (!system) throw new CommandError("Local ticket data not found. Issue a ticket first.");
+    const rec = system.getRecords().find(r => r.secret === ticket.secret && r.issuedAt === ticket.issuedAt);
+    if (!rec) throw new CommandError("Ticket not found locally");
+    const onchain = await reader.readOnChainState();
+    if (!onchain) throw new CommandError("On-chain state unavailable", EXIT.unavailable);
+    // The path must lead to the root on chain, which may not cover the newest tickets yet
+    const { anchored } = publicationOf(system, onchain);
+    if (rec.index >= anchored) throw new CommandError("Ticket is pending publication; publish its root first");
+    const proof = system.generateProof(rec, anchored);
+    const attempt = {
+        secret: rec.secret, issuedAt: rec.issuedAt, proof, tier: rec.tier ?? 0, requiredTier,
+        nullifier: nullifierFromSecret(rec.secret, hashFunctionFor(onchain.hashAlgorithm))
+    };
+    const result = verifyRedemption(onchain, attempt, Date.now());
+    return { ...result, record: rec, proof, nullifier: attempt.nullifier, maxAgeMs: onchain.maxAgeMs };
+}
+
+// Proves inclusion, freshness and nullifier in-circuit; secret and path stay private
+export async function redeemTicket(session: Session, ticket: Pick<TicketPayload, "secret" | "issuedAt">, requiredTier?: number) {
+    const check = await checkTicket(session, ticket, requiredTier);
+    if (!check.ok) throw new CommandError(`Redeem failed: ${check.reason}`);
+    // Freshness is checked against block time in-circuit; the witness only bounds it by the expiry
+    const notAfter = redeemNotAfter(check.record.issuedAt, check.maxAgeMs);
+    await session.providers.privateStateProvider.set(PRIVATE_STATE_ID, buildRedemptionWitness(check.record, check.proof, notAfter, session.issuerKey));
+    try {
+        await session.deployed.callTx.redeem({
+            is_some: requiredTier !== undefined,
+            value: BigInt(requiredTier ?? 0)
+        });
+    } finally {
+        await session.providers.privateStateProvider.set(PRIVATE_STATE_ID, emptyPrivateState(session.issuerKey));
+    }
+    return { nullifier: check.nullifier, index: check.record.index, tier: check.record.tier ?? 0 };
+}
+
+// One publication round, once the subscription has delivered the contract's state
+export async function publishPending(session: Session) {
+    await session.sync.ready();
+    await session.publisher.flush();
+    const { lastError } = session.publisher.status();
+    return { ...publicationOf(TicketSystem.fromLocal(), session.publisher.confirmed()), error: lastError };
+}
@@ -1,94 +1,230 @@
-import { MerkleTree, leafFromTicket, nullifierFromSecret, Hash } from "../lib/merkle.js";
+import {
+    MerkleTree,
+    Hash,
+    HashAlgorithm,
+    TICKET_DERIVATION,
+    TicketDerivation,
+    deriveTicketSecret,
+    derivationOf,
+    fromHex,
+    isTier,
+    leafFromTicket,
+    randomSecretHex
+} from "../lib/ticket-crypto.js";
+import { hashFunctionFor } from "../lib/poseidon.js";
 import fs from "fs";
 import path from "path";
+import { writeFileAtomic } from "./store.js";
 
 export interface TicketRecord {
-    secret: string; // randomly generated per ticket
+    secret: string; // random per ticket, or derived from the issuer master seed
     issuedAt: number; // ms timestamp
     index: number; // position in tree
+    tier?: number; // seat class committed into the leaf; absent ⇒ 0 (general admission)
 }
 
 export interface TicketLedgerStateOnChain {
     root: Hash;
     maxAgeMs: number; // validity window from issuedAt (e.g., 24h)
-    nullifiers: Hash[]; // used tickets
+    nullifiers: NullifierSet; // used tickets
     leafCount: number;
+    depth: number;
+    hashAlgorithm?: HashAlgorithm; // absent on legacy state ⇒ sha256
+    derivation?: TicketDerivation; // absent on legacy state ⇒ 1 (pre-circuit leaves)
+    recentRoots?: RootEntry[]; // oldest first, current root last; absent ⇒ only `root` is accepted
+    rootHistorySize?: number;
+}
+
+// Spent tickets, looked up by key so a redemption costs the same with 10 or 100,000 of them:
+// the contract's ledger Set, the store's keyed table, or a plain Set in tests and the demo
+export interface NullifierSet extends Iterable<Hash> {
+    has(nullifier: Hash): boolean;
+    readonly size: number;
+}
+
+export interface RootEntry {
+    root: Hash;
+    at: number; // ms timestamp the root was published
+}
+
+export const DEFAULT_ROOT_HISTORY = 32;
+export const MAX_ROOT_HISTORY = 1024;
+
+// Publish a new root and keep the last `rootHistorySize` ones, so proofs fetched a few
+// issuances ago still verify.
+export function recordRoot(state: Omit<TicketLedgerStateOnChain, "nullifiers">, root: Hash, at = Date.now()) {
+    state.root = root;
+    const history = (state.recentRoots || []).filter(r => r.root !== root);
+    history.push({ root, at });
+    state.recentRoots = history.slice(-(state.rootHistorySize || DEFAULT_ROOT_HISTORY));
+}
+
+export function isRecentRoot(state: Omit<TicketLedgerStateOnChain, "nullifiers">, root: Hash): boolean {
+    const r = root.toLowerCase();
+    if (state.root && state.root.toLowerCase() === r) return true;
+    return (state.recentRoots || []).some(e => e.root.toLowerCase() === r);
 }
 
 export interface LocalTicketState {
     treeDepth: number;
     tickets: TicketRecord[];
     maxAgeMs: number;
+    hashAlgorithm?: HashAlgorithm;
+    derivation?: TicketDerivation;
 }
 
+// Where TicketSystem persists itself: a JSON file (CLI, demo) or a callback (the server's TicketStore)
+export type LocalStateSink = string | ((state: LocalTicketState) => void);
+
 const DATA_DIR = process.env.TICKETS_DATA_DIR || process.cwd();
-const LOCAL_STATE_FILE = path.join(DATA_DIR, ".tickets.local.json");
+export const LOCAL_STATE_FILE = path.join(DATA_DIR, ".tickets.local.json");
+
+// Optional issuer master seed (hex, >= 16 bytes) enabling deterministic secrets.
+// Keep it out of DATA_DIR: the point is to survive losing the local state file.
+export function masterSeedFromEnv(): Uint8Array | undefined {
+    const hex = process.env.TICKETS_MASTER_SEED;
+    if (!hex) return undefined;
+    const seed = fromHex(hex);
+    if (seed.length < 16) throw new Error("TICKETS_MASTER_SEED must be at least 16 bytes of hex");
+    return seed;
+}
 
 export class TicketSystem {
     private tree: MerkleTree;
     private records: TicketRecord[] = [];
     readonly depth: number;
+    readonly hashAlgorithm: HashAlgorithm;
+    private readonly masterSeed?: Uint8Array;
     maxAgeMs: number;
 
-    constructor(depth: number, maxAgeMs: number, existing?: TicketRecord[]) {
+    constructor(
+        depth: number,
+        maxAgeMs: number,
+        existing?: TicketRecord[],
+        hashAlgorithm: HashAlgorithm = "sha256",
+        masterSeed?: Uint8Array,
+        readonly localFile: LocalStateSink = LOCAL_STATE_FILE,
+        readonly derivation: TicketDerivation = TICKET_DERIVATION
+    ) {
         this.depth = depth;
         this.maxAgeMs = maxAgeMs;
+        this.hashAlgorithm = hashAlgorithm;
+        this.masterSeed = masterSeed;
         if (existing) this.records = existing;
-        const leaves = this.records.map(r => leafFromTicket(r.secret, r.issuedAt));
-        this.tree = new MerkleTree(depth, leaves);
+        const hash = hashFunctionFor(hashAlgorithm);
+        const leaves = this.records.map(r => leafFromTicket(r.secret, r.issuedAt, hash, r.tier ?? 0, derivation));
+        this.tree = new MerkleTree(depth, leaves, hash);
+    }
+
+    issueTicket(tier = 0): TicketRecord {
+        return this.issueBatch(1, tier)[0];
     }
 
-    issueTicket(): TicketRecord {
-        const secret = cryptoRandomHex(32);
+    // Issues `count` tickets at once: all leaves are appended in one pass and the state is saved
+    // once, so the tree gets a single new root. All or nothing when the tree lacks room.
+    issueBatch(count: number, tier = 0): TicketRecord[] {
+        if (!isTier(tier)) throw new Error("Invalid ticket tier");
+        if (!Number.isSafeInteger(count) || count < 1) throw new Error("Ticket count must be a positive integer");
+        const free = this.tree.capacity() - this.tree.getLeafCount();
+        if (free === 0) throw new Error("Merkle tree is full");
+        if (count > free) throw new Error(`Only ${free} tickets left in the tree`);
         const issuedAt = Date.now();
-        const leaf = leafFromTicket(secret, issuedAt);
-        this.tree.append(leaf);
-        const index = this.tree.getLeafCount() - 1;
-        const record: TicketRecord = { secret, issuedAt, index };
-        this.records.push(record);
+        const records: TicketRecord[] = [];
+        for (let i = 0; i < count; i++) {
+            const index = this.tree.getLeafCount() + i;
+            const secret = this.masterSeed ? deriveTicketSecret(this.masterSeed, index) : randomSecretHex(32);
+            records.push(tier ? { secret, issuedAt, index, tier } : { secret, issuedAt, index });
+        }
+        this.tree.appendAll(records.map(r => leafFromTicket(r.secret, r.issuedAt, this.tree.hash, tier, this.derivation)));
+        this.records.push(...records);
         this.saveLocal();
-        return record;
+        return records;
     }
 
     getRoot(): Hash { return this.tree.getRoot(); }
+    // Root after the first `count` tickets ("" for none), e.g. to match a published root
+    rootAt(count: number): Hash {
+        return count === 0 ? "" : this.treeAt(count).getRoot();
+    }
+
+    private treeAt(count: number): MerkleTree {
+        if (count === this.tree.getLeafCount()) return this.tree;
+        const hash = this.tree.hash;
+        return new MerkleTree(this.depth, this.records.slice(0, count).map(r => leafFromTicket(r.secret, r.issuedAt, hash, r.tier ?? 0, this.derivation)), hash);
+    }
     getLeafCount(): number { return this.tree.getLeafCount(); }
     getRecords(): TicketRecord[] { return [...this.records]; }
+    countTier(tier: number): number { return this.records.filter(r => (r.tier ?? 0) === tier).length; }
 
-    generateProof(record: TicketRecord) {
-        return this.tree.getProof(record.index);
+    // Path against the root after the first `leafCount` tickets (default: all), e.g. the last
+    // published root while newer tickets still wait for publication
+    generateProof(record: TicketRecord, leafCount = this.tree.getLeafCount()) {
+        if (record.index >= leafCount) throw new Error("Ticket is not under that root");
+        return this.treeAt(leafCount).getProof(record.index);
     }
 
-    toOnChainState(nullifiers: Hash[]): TicketLedgerStateOnChain {
+    toOnChainState(nullifiers: Iterable<Hash>): TicketLedgerStateOnChain & { nullifiers: Set<Hash> } {
         return {
             root: this.getRoot(),
             maxAgeMs: this.maxAgeMs,
-            nullifiers,
-            leafCount: this.getLeafCount()
+            nullifiers: new Set(nullifiers),
+            leafCount: this.getLeafCount(),
+            depth: this.depth,
+            hashAlgorithm: this.hashAlgorithm,
+            derivation: this.derivation
         };
     }
 
-    static fromLocal(): TicketSystem | null {
-        if (!fs.existsSync(LOCAL_STATE_FILE)) return null;
-        const raw = JSON.parse(fs.readFileSync(LOCAL_STATE_FILE, "utf-8"));
-        const { treeDepth, tickets, maxAgeMs } = raw as LocalTicketState;
-        return new TicketSystem(treeDepth, maxAgeMs, tickets);
+    static fromLocal(file: string = LOCAL_STATE_FILE, masterSeed = masterSeedFromEnv()): TicketSystem | null {
+        if (!fs.existsSync(file)) return null;
+        return TicketSystem.fromState(JSON.parse(fs.readFileSync(file, "utf-8")), masterSeed, file);
     }
 
-    saveLocal() {
-        const data: LocalTicketState = {
+    static fromState(state: LocalTicketState, masterSeed: Uint8Array | undefined, sink: LocalStateSink): TicketSystem {
+        const { treeDepth, tickets, maxAgeMs, hashAlgorithm } = state;
+        return new TicketSystem(treeDepth, maxAgeMs, tickets, hashAlgorithm, masterSeed, sink, derivationOf(state));
+    }
+
+    // Rebuild a lost local state from the master seed. issuedAt and tier are not secret
+    // (holders' QR payloads and issuance logs carry them), and neither is the derivation the tree
+    // was issued under; pass the published root to make sure the regenerated leaves match what
+    // was anchored.
+    static restore(
+        depth: number,
+        maxAgeMs: number,
+        masterSeed: Uint8Array,
+        tickets: Array<Pick<TicketRecord, "issuedAt" | "tier">>,
+        hashAlgorithm: HashAlgorithm = "sha256",
+        expectedRoot?: Hash,
+        derivation: TicketDerivation = TICKET_DERIVATION
+    ): TicketSystem {
+        const records = tickets.map(({ issuedAt, tier }, index): TicketRecord => {
+            const secret = deriveTicketSecret(masterSeed, index);
+            return tier ? { secret, issuedAt, index, tier } : { secret, issuedAt, index };
+        });
+        const system = new TicketSystem(depth, maxAgeMs, records, hashAlgorithm, masterSeed, LOCAL_STATE_FILE, derivation);
+        if (expectedRoot && system.getRoot().toLowerCase() !== expectedRoot.toLowerCase()) {
+            throw new Error("Restored root does not match the published root (wrong seed, tickets or derivation)");
+        }
+        return system;
+    }
+
+    toLocalState(): LocalTicketState {
+        return {
             treeDepth: this.depth,
-            tickets: this.records,
-            maxAgeMs: this.maxAgeMs
+            tickets: [...this.records],
+            maxAgeMs: this.maxAgeMs,
+            hashAlgorithm: this.hashAlgorithm,
+            derivation: this.derivation
         };
-        try { fs.mkdirSync(DATA_DIR, { recursive: true }); } catch { /* ignore */ }
-        fs.writeFileSync(LOCAL_STATE_FILE, JSON.stringify(data, null, 2));
     }
-}
 
-export function cryptoRandomHex(bytes: number): string {
-    const b = Buffer.alloc(bytes);
-    for (let i = 0; i < bytes; i++) b[i] = Math.floor(Math.random() * 256); // non‑crypto fallback
-    return b.toString("hex");
+    saveLocal() {
+        const data = this.toLocalState();
+        if (typeof this.localFile === "function") return this.localFile(data);
+        try { fs.mkdirSync(path.dirname(this.localFile), { recursive: true }); } catch { /* ignore */ }
+        writeFileAtomic(this.localFile, JSON.stringify(data, null, 2));
+    }
 }
 
 export interface RedemptionAttempt {
@@ -96,6 +232,8 @@ export interface RedemptionAttempt {
     issuedAt: number;
     proof: { siblings: Hash[]; index: number };
     nullifier: Hash;
+    tier?: number; // tier the holder claims; only a leaf of that tier verifies
+    requiredTier?: number; // gate policy, e.g. the VIP entrance
 }
 
 export function verifyRedemption(
@@ -108,14 +246,19 @@ export function verifyRedemption(
         return { ok: false, reason: "Ticket expired" };
     }
     // Nullifier uniqueness
-    if (onChain.nullifiers.includes(attempt.nullifier)) {
+    if (onChain.nullifiers.has(attempt.nullifier)) {
         return { ok: false, reason: "Already used" };
     }
-    // Inclusion check
-    const leaf = leafFromTicket(attempt.secret, attempt.issuedAt);
-    const included = MerkleTree.verify(leaf, attempt.proof, onChain.root);
-    if (!included) return { ok: false, reason: "Merkle proof invalid" };
+    // Inclusion check against the current root or any root still in the history window
+    const hash = hashFunctionFor(onChain.hashAlgorithm);
+    const leaf = leafFromTicket(attempt.secret, attempt.issuedAt, hash, attempt.tier ?? 0, derivationOf(onChain));
+    const root = MerkleTree.computeRoot(leaf, attempt.proof, hash);
+    if (!isRecentRoot(onChain, root)) return { ok: false, reason: "Merkle proof invalid" };
+    // Same check as the circuit's requiredTier; the tier was bound by the inclusion check above
+    if (attempt.requiredTier != null && (attempt.tier ?? 0) !== attempt.requiredTier) {
+        return { ok: false, reason: "Wrong ticket tier" };
+    }
     return { ok: true };
 }
 
-export { nullifierFromSecret } from "../lib/merkle.js";
+export { nullifierFromSecret } from "../lib/ticket-crypto.js";
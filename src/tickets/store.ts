@@ -0,0 +1,685 @@
+// Persistence for the server: one TicketStore per process holding every event's state. SQLite
+// (node:sqlite, Node 22.13+) in production, an in-memory store for tests and throwaway demos.
+// Each write is atomic, and `transaction` groups the reads and writes of one issue/redeem so a
+// crash or a failed check never leaves half an issuance behind.
+import fs from "fs";
+import path from "path";
+import { createRequire } from "module";
+import type { DatabaseSync } from "node:sqlite";
+import type { Hash, HashAlgorithm, TicketDerivation } from "../lib/ticket-crypto.js";
+import type { LocalTicketState, TicketLedgerStateOnChain } from "./state.js";
+import type { PaymentIntent } from "./payments.js";
+import type { CheckInConflict, GateLogEntry, ScannerDevice } from "./gates.js";
+
+// Mirror of the on-chain ledger the demo server keeps (root, window, root history). Spent
+// nullifiers live in their own keyed set next to it, never inside the doc. `contractAddress` is the
+// contract whose synced nullifiers belong to the event (absent ⇒ the first one synced).
+export type OnchainDoc = Omit<TicketLedgerStateOnChain, "nullifiers"> & { version: number; contractAddress?: string };
+
+// `tiers[i]` is the tier of `leaves[i]` (absent ⇒ 0); the issuer computed those leaves itself
+export interface IssuerTree {
+    depth: number;
+    leaves: Hash[];
+    maxAgeMs: number;
+    hashAlgorithm?: HashAlgorithm;
+    derivation?: TicketDerivation; // absent on legacy state ⇒ 1
+    tiers?: number[];
+}
+
+export interface BuyerInfo {
+    name?: string;
+    email?: string;
+    consent?: boolean;
+    leaf?: string;
+    index?: number;
+    savedAt?: number;
+}
+
+// A compare-and-set lost to another writer (e.g. a second server process on the same database).
+// Nothing was written; the caller re-reads and retries.
+export class StoreConflictError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "StoreConflictError";
+    }
+}
+
+export interface TicketStore {
+    readonly kind: StoreKind;
+    // Runs `fn` atomically: all of its writes land, or none do if it throws. Nests.
+    transaction<T>(fn: () => T): T;
+
+    // A `nullifiers` field on the doc written is ignored: spending goes through addNullifier only
+    getOnchain(eventId: string): OnchainDoc | null;
+    putOnchain(eventId: string, doc: OnchainDoc): void;
+
+    // Insert-if-absent; false means the nullifier was already spent. Exactly one caller wins.
+    // Lookups, inserts and the count are keyed, so they cost the same however many are spent.
+    addNullifier(eventId: string, nullifier: Hash): boolean;
+    hasNullifier(eventId: string, nullifier: Hash): boolean;
+    nullifierCount(eventId: string): number;
+    listNullifiers(eventId: string): Hash[]; // all of them, in spending order; not for request paths
+    // Spent here but not yet seen in the contract's set, oldest first (what the publisher sends)
+    unconfirmedNullifiers(eventId: string): Hash[];
+    confirmNullifiers(eventId: string, nullifiers: Hash[]): void;
+    resetNullifiers(eventId: string): void;
+
+    getIssuerTree(eventId: string): IssuerTree | null;
+    putIssuerTree(eventId: string, tree: IssuerTree): void; // replaces leaves too
+    // Appends at `expectedIndex` (the leaf count the caller's root was computed from) and
+    // throws StoreConflictError if another writer appended first
+    appendIssuerLeaf(eventId: string, leaf: Hash, tier: number, expectedIndex: number): number;
+
+    // Legacy demo TicketSystem (server-held secrets)
+    getLocalState(eventId: string): LocalTicketState | null;
+    putLocalState(eventId: string, state: LocalTicketState): void;
+
+    // A txId pays for one ticket across all events
+    txIdUsed(txId: string): boolean;
+    markTxIdUsed(eventId: string, txId: string): void;
+
+    // Wallet sign-in challenges (auth.ts ChallengeLog): false when already claimed. Expired ones are dropped.
+    claimChallenge(challenge: string, expiresAt: number, now: number): boolean;
+
+    getBuyers(eventId: string): BuyerInfo[];
+    addBuyer(eventId: string, buyer: BuyerInfo): void;
+    putBuyers(eventId: string, buyers: BuyerInfo[]): void;
+
+    getIntents(eventId: string): PaymentIntent[];
+    putIntents(eventId: string, intents: PaymentIntent[]): void;
+
+    // Scanner devices are shared by all events
+    getDevices(): ScannerDevice[];
+    getDevice(id: string): ScannerDevice | null;
+    putDevice(device: ScannerDevice): void;
+
+    // Gate audit log, append-only. `appendGateLog` throws StoreConflictError when the entry's seq
+    // is taken (another writer appended first), so the chain never forks.
+    lastGateLogEntry(eventId: string): GateLogEntry | null;
+    appendGateLog(eventId: string, entry: GateLogEntry): void;
+    getGateLog(eventId: string): GateLogEntry[];
+    // Double admissions found when offline scanners synced; kept with the log
+    addCheckInConflict(eventId: string, conflict: CheckInConflict): void;
+    getCheckInConflicts(eventId: string): CheckInConflict[];
+
+    // Everything of the event except its gate log, which outlives resets
+    clearEvent(eventId: string): void;
+    close(): void;
+}
+
+export type StoreKind = "sqlite" | "memory";
+
+export function isStoreKind(value: unknown): value is StoreKind {
+    return value === "sqlite" || value === "memory";
+}
+
+export function openTicketStore(kind: StoreKind, dbFile: string): TicketStore {
+    return kind === "memory" ? new MemoryTicketStore() : new SqliteTicketStore(dbFile);
+}
+
+// Write-then-rename, so readers see the old file or the new one, never a torn write
+export function writeFileAtomic(file: string, data: string) {
+    const tmp = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, data);
+    fs.renameSync(tmp, file);
+}
+
+// Cross-process mutex for file-backed state (the CLI's local tickets): `${file}.lock` is created
+// exclusively and holds the owner's pid. A lock whose owner died is taken over.
+export async function withFileLock<T>(file: string, fn: () => Promise<T>, timeoutMs = 60_000): Promise<T> {
+    const lock = `${file}.lock`;
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+        try {
+            fs.writeFileSync(lock, String(process.pid), { flag: "wx" });
+            break;
+        } catch (e: any) {
+            if (e?.code !== "EEXIST") throw e;
+            if (staleLock(lock)) {
+                fs.rmSync(lock, { force: true });
+                continue;
+            }
+            if (Date.now() > deadline) throw new Error(`Timed out waiting for ${lock}; another process is updating ${path.basename(file)}`);
+            await new Promise(resolve => setTimeout(resolve, 100));
+        }
+    }
+    try {
+        return await fn();
+    } finally {
+        fs.rmSync(lock, { force: true });
+    }
+}
+
+function staleLock(lock: string): boolean {
+    let raw: string;
+    let age: number;
+    try {
+        raw = fs.readFileSync(lock, "utf-8").trim();
+        age = Date.now() - fs.statSync(lock).mtimeMs;
+    } catch {
+        return false; // released meanwhile; the next attempt will tell
+    }
+    // Empty while its owner is between create and write; only a long-empty lock is abandoned
+    if (!raw) return age > 5_000;
+    const pid = Number(raw);
+    if (!Number.isSafeInteger(pid) || pid <= 0) return true;
+    try {
+        process.kill(pid, 0); // signal 0 only probes for existence
+        return false;
+    } catch (e: any) {
+        return e?.code === "ESRCH";
+    }
+}
+
+type EventData = {
+    onchain?: OnchainDoc;
+    nullifiers: Map<Hash, boolean>; // nullifier -> seen on chain
+    issuer?: IssuerTree;
+    local?: LocalTicketState;
+    buyers: BuyerInfo[];
+    intents: PaymentIntent[];
+};
+
+export class MemoryTicketStore implements TicketStore {
+    readonly kind = "memory";
+    private readonly events = new Map<string, EventData>();
+    private readonly usedTxIds = new Map<string, string>(); // txId -> event id
+    private readonly usedChallenges = new Map<string, number>(); // challenge -> expiry
+    private readonly devices = new Map<string, ScannerDevice>();
+    private readonly gateLogs = new Map<string, GateLogEntry[]>();
+    private readonly conflicts = new Map<string, CheckInConflict[]>();
+    // Inside the outermost transaction: how to revert each write so far, in write order
+    private undo: (() => void)[] | null = null;
+
+    // Every write records its own undo step and rollback replays them newest first, so a
+    // transaction costs what it writes rather than a copy of every event
+    transaction<T>(fn: () => T): T {
+        const outer = this.undo === null;
+        if (outer) this.undo = [];
+        try {
+            return fn();
+        } catch (e) {
+            if (outer) for (const step of this.undo!.reverse()) step();
+            throw e;
+        } finally {
+            if (outer) this.undo = null;
+        }
+    }
+
+    private onRollback(step: () => void) {
+        this.undo?.push(step);
+    }
+
+    // Stored values are replaced rather than changed in place, so keeping the old reference is
+    // enough; the few in-place appends (issuer leaves, buyers, gate log) undo with a pop
+    private keepEntry<K, V>(map: Map<K, V>, key: K) {
+        const had = map.has(key);
+        const prev = map.get(key);
+        this.onRollback(() => { if (had) map.set(key, prev!); else map.delete(key); });
+    }
+    private keepField<F extends keyof EventData>(data: EventData, field: F) {
+        const prev = data[field];
+        this.onRollback(() => { data[field] = prev; });
+    }
+
+    private event(eventId: string): EventData {
+        let data = this.events.get(eventId);
+        if (!data) {
+            this.keepEntry(this.events, eventId);
+            data = { nullifiers: new Map(), buyers: [], intents: [] };
+            this.events.set(eventId, data);
+        }
+        return data;
+    }
+
+    // Copies in and out, so callers mutating a returned object do not write around the store
+    getOnchain(eventId: string): OnchainDoc | null {
+        const data = this.events.get(eventId);
+        return copy(data?.onchain ?? null);
+    }
+    putOnchain(eventId: string, doc: OnchainDoc) {
+        const data = this.event(eventId);
+        this.keepField(data, "onchain");
+        data.onchain = copy(withoutNullifiers(doc));
+    }
+
+    addNullifier(eventId: string, nullifier: Hash): boolean {
+        const spent = this.event(eventId).nullifiers;
+        if (spent.has(nullifier)) return false;
+        this.keepEntry(spent, nullifier);
+        spent.set(nullifier, false);
+        return true;
+    }
+    hasNullifier(eventId: string, nullifier: Hash) { return this.events.get(eventId)?.nullifiers.has(nullifier) ?? false; }
+    nullifierCount(eventId: string) { return this.events.get(eventId)?.nullifiers.size ?? 0; }
+    listNullifiers(eventId: string) { return [...this.events.get(eventId)?.nullifiers.keys() ?? []]; }
+    unconfirmedNullifiers(eventId: string) {
+        return [...this.events.get(eventId)?.nullifiers ?? []].filter(([, onChain]) => !onChain).map(([n]) => n);
+    }
+    confirmNullifiers(eventId: string, nullifiers: Hash[]) {
+        const spent = this.events.get(eventId)?.nullifiers;
+        for (const n of nullifiers) {
+            if (!spent?.has(n)) continue;
+            this.keepEntry(spent, n);
+            spent.set(n, true);
+        }
+    }
+    resetNullifiers(eventId: string) {
+        const data = this.event(eventId);
+        this.keepField(data, "nullifiers");
+        data.nullifiers = new Map();
+    }
+
+    getIssuerTree(eventId: string) { return copy(this.events.get(eventId)?.issuer ?? null); }
+    putIssuerTree(eventId: string, tree: IssuerTree) {
+        const data = this.event(eventId);
+        this.keepField(data, "issuer");
+        data.issuer = copy(tree);
+    }
+    appendIssuerLeaf(eventId: string, leaf: Hash, tier: number, expectedIndex: number): number {
+        const tree = this.events.get(eventId)?.issuer;
+        if (!tree) throw new Error("Not initialized");
+        if (tree.leaves.length !== expectedIndex) throw new StoreConflictError("Issuer tree changed concurrently; retry");
+        if (tree.leaves.includes(leaf)) throw new Error("Leaf already issued");
+        const tiers = tree.tiers;
+        tree.tiers = tree.leaves.map((_, i) => tree.tiers?.[i] ?? 0);
+        tree.leaves.push(leaf);
+        tree.tiers.push(tier);
+        this.onRollback(() => { tree.leaves.pop(); tree.tiers = tiers; });
+        return tree.leaves.length - 1;
+    }
+
+    getLocalState(eventId: string) { return copy(this.events.get(eventId)?.local ?? null); }
+    putLocalState(eventId: string, state: LocalTicketState) {
+        const data = this.event(eventId);
+        this.keepField(data, "local");
+        data.local = copy(state);
+    }
+
+    txIdUsed(txId: string) { return this.usedTxIds.has(txId); }
+    markTxIdUsed(eventId: string, txId: string) {
+        if (this.usedTxIds.has(txId)) throw new Error("Payment already used");
+        this.keepEntry(this.usedTxIds, txId);
+        this.usedTxIds.set(txId, eventId);
+    }
+
+    claimChallenge(challenge: string, expiresAt: number, now: number) {
+        for (const [used, exp] of this.usedChallenges) {
+            if (exp > now) continue;
+            this.keepEntry(this.usedChallenges, used);
+            this.usedChallenges.delete(used);
+        }
+        if (this.usedChallenges.has(challenge)) return false;
+        this.keepEntry(this.usedChallenges, challenge);
+        this.usedChallenges.set(challenge, expiresAt);
+        return true;
+    }
+
+    getBuyers(eventId: string) { return copy(this.events.get(eventId)?.buyers ?? []); }
+    addBuyer(eventId: string, buyer: BuyerInfo) {
+        const buyers = this.event(eventId).buyers;
+        buyers.push(copy(buyer));
+        this.onRollback(() => { buyers.pop(); });
+    }
+    putBuyers(eventId: string, buyers: BuyerInfo[]) {
+        const data = this.event(eventId);
+        this.keepField(data, "buyers");
+        data.buyers = copy(buyers);
+    }
+
+    getIntents(eventId: string) { return copy(this.events.get(eventId)?.intents ?? []); }
+    putIntents(eventId: string, intents: PaymentIntent[]) {
+        const data = this.event(eventId);
+        this.keepField(data, "intents");
+        data.intents = copy(intents);
+    }
+
+    getDevices() { return copy([...this.devices.values()]); }
+    getDevice(id: string) { return copy(this.devices.get(id) ?? null); }
+    putDevice(device: ScannerDevice) {
+        this.keepEntry(this.devices, device.id);
+        this.devices.set(device.id, copy(device));
+    }
+
+    lastGateLogEntry(eventId: string) { return copy(this.gateLogs.get(eventId)?.at(-1) ?? null); }
+    appendGateLog(eventId: string, entry: GateLogEntry) {
+        const log = this.gateLogs.get(eventId) ?? [];
+        if (entry.seq !== log.length) throw new StoreConflictError("Gate log changed concurrently; retry");
+        this.keepEntry(this.gateLogs, eventId);
+        log.push(copy(entry));
+        this.gateLogs.set(eventId, log);
+        this.onRollback(() => { log.pop(); });
+    }
+    getGateLog(eventId: string) { return copy(this.gateLogs.get(eventId) ?? []); }
+    addCheckInConflict(eventId: string, conflict: CheckInConflict) {
+        this.keepEntry(this.conflicts, eventId);
+        this.conflicts.set(eventId, [...this.conflicts.get(eventId) ?? [], copy(conflict)]);
+    }
+    getCheckInConflicts(eventId: string) { return copy(this.conflicts.get(eventId) ?? []); }
+
+    clearEvent(eventId: string) {
+        this.keepEntry(this.events, eventId);
+        this.events.delete(eventId);
+        for (const [txId, owner] of this.usedTxIds) {
+            if (owner !== eventId) continue;
+            this.keepEntry(this.usedTxIds, txId);
+            this.usedTxIds.delete(txId);
+        }
+    }
+
+    close() { /* nothing to release */ }
+}
+
+function copy<T>(value: T): T {
+    return value == null ? value : structuredClone(value);
+}
+
+// Callers may hand in a doc that still carries a nullifier view; it is not part of the stored doc
+function withoutNullifiers(doc: OnchainDoc): OnchainDoc {
+    const { nullifiers: _spent, ...rest } = doc as OnchainDoc & { nullifiers?: unknown };
+    return rest;
+}
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS onchain (event_id TEXT PRIMARY KEY, body TEXT NOT NULL);
+    CREATE TABLE IF NOT EXISTS nullifiers (
+        event_id TEXT NOT NULL, nullifier TEXT NOT NULL, on_chain INTEGER NOT NULL DEFAULT 0, PRIMARY KEY (event_id, nullifier)
+    );
+    CREATE INDEX IF NOT EXISTS unconfirmed_nullifiers ON nullifiers (event_id) WHERE on_chain = 0;
+    CREATE TABLE IF NOT EXISTS nullifier_counts (event_id TEXT PRIMARY KEY, n INTEGER NOT NULL);
+    CREATE TABLE IF NOT EXISTS issuer_trees (
+        event_id TEXT PRIMARY KEY, depth INTEGER NOT NULL, max_age_ms INTEGER NOT NULL, hash_algorithm TEXT, derivation INTEGER
+    );
+    CREATE TABLE IF NOT EXISTS issuer_leaves (
+        event_id TEXT NOT NULL, idx INTEGER NOT NULL, leaf TEXT NOT NULL, tier INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (event_id, idx), UNIQUE (event_id, leaf)
+    );
+    CREATE TABLE IF NOT EXISTS local_state (event_id TEXT PRIMARY KEY, body TEXT NOT NULL);
+    CREATE TABLE IF NOT EXISTS used_tx_ids (tx_id TEXT PRIMARY KEY, event_id TEXT NOT NULL, used_at INTEGER NOT NULL);
+    CREATE TABLE IF NOT EXISTS used_challenges (challenge TEXT PRIMARY KEY, expires_at INTEGER NOT NULL);
+    CREATE TABLE IF NOT EXISTS buyers (
+        event_id TEXT NOT NULL, seq INTEGER NOT NULL, body TEXT NOT NULL, PRIMARY KEY (event_id, seq)
+    );
+    CREATE TABLE IF NOT EXISTS intents (id TEXT PRIMARY KEY, event_id TEXT NOT NULL, body TEXT NOT NULL);
+    CREATE INDEX IF NOT EXISTS intents_by_event ON intents (event_id);
+    CREATE TABLE IF NOT EXISTS devices (id TEXT PRIMARY KEY, body TEXT NOT NULL);
+    CREATE TABLE IF NOT EXISTS gate_log (
+        event_id TEXT NOT NULL, seq INTEGER NOT NULL, body TEXT NOT NULL, PRIMARY KEY (event_id, seq)
+    );
+    CREATE TABLE IF NOT EXISTS checkin_conflicts (event_id TEXT NOT NULL, body TEXT NOT NULL);
+    CREATE INDEX IF NOT EXISTS checkin_conflicts_by_event ON checkin_conflicts (event_id);
+`;
+
+// node:sqlite is loaded lazily so the memory store still works on Node versions without it
+export function sqliteAvailable(): boolean {
+    try {
+        createRequire(import.meta.url)("node:sqlite");
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function loadSqlite(): typeof import("node:sqlite") {
+    try {
+        return createRequire(import.meta.url)("node:sqlite");
+    } catch {
+        throw new Error(`SQLite storage needs Node 22.13+ (node:sqlite); running ${process.version}. Set TICKETS_STORE=memory to run without persistence.`);
+    }
+}
+
+export class SqliteTicketStore implements TicketStore {
+    readonly kind = "sqlite";
+    private readonly db: DatabaseSync;
+    private depth = 0;
+
+    constructor(readonly file: string) {
+        const { DatabaseSync } = loadSqlite();
+        try { fs.mkdirSync(path.dirname(file), { recursive: true }); } catch { /* ignore */ }
+        this.db = new DatabaseSync(file);
+        // busy_timeout first: switching to WAL waits on other processes opening the same file
+        this.db.exec("PRAGMA busy_timeout = 5000; PRAGMA journal_mode = WAL; PRAGMA foreign_keys = ON;");
+        this.db.exec(SCHEMA);
+    }
+
+    // BEGIN IMMEDIATE takes the write lock up front, so a read-check-write cannot interleave
+    // with another writer; nested calls become savepoints.
+    transaction<T>(fn: () => T): T {
+        const savepoint = `sp${this.depth}`;
+        this.db.exec(this.depth === 0 ? "BEGIN IMMEDIATE" : `SAVEPOINT ${savepoint}`);
+        this.depth++;
+        try {
+            const result = fn();
+            this.db.exec(this.depth === 1 ? "COMMIT" : `RELEASE ${savepoint}`);
+            return result;
+        } catch (e) {
+            this.db.exec(this.depth === 1 ? "ROLLBACK" : `ROLLBACK TO ${savepoint}; RELEASE ${savepoint}`);
+            throw e;
+        } finally {
+            this.depth--;
+        }
+    }
+
+    private json<T>(sql: string, ...params: Array<string | number>): T | null {
+        const row = this.db.prepare(sql).get(...params) as { body: string } | undefined;
+        return row ? JSON.parse(row.body) as T : null;
+    }
+
+    getOnchain(eventId: string): OnchainDoc | null {
+        return this.json<OnchainDoc>("SELECT body FROM onchain WHERE event_id = ?", eventId);
+    }
+    putOnchain(eventId: string, doc: OnchainDoc) {
+        this.db.prepare("INSERT INTO onchain (event_id, body) VALUES (?, ?) ON CONFLICT (event_id) DO UPDATE SET body = excluded.body")
+            .run(eventId, JSON.stringify(withoutNullifiers(doc)));
+    }
+
+    // The primary key decides the race; the count moves in the same transaction as the insert
+    addNullifier(eventId: string, nullifier: Hash): boolean {
+        return this.transaction(() => {
+            const { changes } = this.db.prepare("INSERT OR IGNORE INTO nullifiers (event_id, nullifier) VALUES (?, ?)").run(eventId, nullifier);
+            if (Number(changes) !== 1) return false;
+            this.db.prepare("INSERT INTO nullifier_counts (event_id, n) VALUES (?, 1) ON CONFLICT (event_id) DO UPDATE SET n = n + 1").run(eventId);
+            return true;
+        });
+    }
+    hasNullifier(eventId: string, nullifier: Hash): boolean {
+        return !!this.db.prepare("SELECT 1 FROM nullifiers WHERE event_id = ? AND nullifier = ?").get(eventId, nullifier);
+    }
+    nullifierCount(eventId: string): number {
+        const row = this.db.prepare("SELECT n FROM nullifier_counts WHERE event_id = ?").get(eventId) as { n: number } | undefined;
+        return row?.n ?? 0;
+    }
+    listNullifiers(eventId: string): Hash[] {
+        const rows = this.db.prepare("SELECT nullifier FROM nullifiers WHERE event_id = ? ORDER BY rowid").all(eventId) as Array<{ nullifier: Hash }>;
+        return rows.map(r => r.nullifier);
+    }
+    unconfirmedNullifiers(eventId: string): Hash[] {
+        const rows = this.db.prepare("SELECT nullifier FROM nullifiers WHERE event_id = ? AND on_chain = 0 ORDER BY rowid").all(eventId) as
+            Array<{ nullifier: Hash }>;
+        return rows.map(r => r.nullifier);
+    }
+    confirmNullifiers(eventId: string, nullifiers: Hash[]) {
+        this.transaction(() => {
+            const update = this.db.prepare("UPDATE nullifiers SET on_chain = 1 WHERE event_id = ? AND nullifier = ?");
+            for (const n of nullifiers) update.run(eventId, n);
+        });
+    }
+    resetNullifiers(eventId: string) {
+        this.transaction(() => {
+            this.db.prepare("DELETE FROM nullifiers WHERE event_id = ?").run(eventId);
+            this.db.prepare("DELETE FROM nullifier_counts WHERE event_id = ?").run(eventId);
+        });
+    }
+
+    getIssuerTree(eventId: string): IssuerTree | null {
+        const meta = this.db.prepare("SELECT depth, max_age_ms, hash_algorithm, derivation FROM issuer_trees WHERE event_id = ?").get(eventId) as
+            { depth: number; max_age_ms: number; hash_algorithm: string | null; derivation: number | null } | undefined;
+        if (!meta) return null;
+        const rows = this.db.prepare("SELECT leaf, tier FROM issuer_leaves WHERE event_id = ? ORDER BY idx").all(eventId) as
+            Array<{ leaf: Hash; tier: number }>;
+        const tree: IssuerTree = { depth: meta.depth, leaves: rows.map(r => r.leaf), maxAgeMs: meta.max_age_ms, tiers: rows.map(r => r.tier) };
+        if (meta.hash_algorithm) tree.hashAlgorithm = meta.hash_algorithm as HashAlgorithm;
+        if (meta.derivation) tree.derivation = meta.derivation as TicketDerivation;
+        return tree;
+    }
+    putIssuerTree(eventId: string, tree: IssuerTree) {
+        this.transaction(() => {
+            this.db.prepare(`INSERT INTO issuer_trees (event_id, depth, max_age_ms, hash_algorithm, derivation) VALUES (?, ?, ?, ?, ?)
+                ON CONFLICT (event_id) DO UPDATE SET depth = excluded.depth, max_age_ms = excluded.max_age_ms,
+                    hash_algorithm = excluded.hash_algorithm, derivation = excluded.derivation`)
+                .run(eventId, tree.depth, tree.maxAgeMs, tree.hashAlgorithm ?? null, tree.derivation ?? null);
+            this.db.prepare("DELETE FROM issuer_leaves WHERE event_id = ?").run(eventId);
+            const insert = this.db.prepare("INSERT INTO issuer_leaves (event_id, idx, leaf, tier) VALUES (?, ?, ?, ?)");
+            tree.leaves.forEach((leaf, i) => insert.run(eventId, i, leaf, tree.tiers?.[i] ?? 0));
+        });
+    }
+    // (event_id, idx) is the primary key, so of two writers appending at the same index one fails
+    appendIssuerLeaf(eventId: string, leaf: Hash, tier: number, expectedIndex: number): number {
+        return this.transaction(() => {
+            if (!this.db.prepare("SELECT 1 FROM issuer_trees WHERE event_id = ?").get(eventId)) throw new Error("Not initialized");
+            const { n } = this.db.prepare("SELECT COUNT(*) AS n FROM issuer_leaves WHERE event_id = ?").get(eventId) as { n: number };
+            if (n !== expectedIndex) throw new StoreConflictError("Issuer tree changed concurrently; retry");
+            this.db.prepare("INSERT INTO issuer_leaves (event_id, idx, leaf, tier) VALUES (?, ?, ?, ?)").run(eventId, n, leaf, tier);
+            return n;
+        });
+    }
+
+    getLocalState(eventId: string) {
+        return this.json<LocalTicketState>("SELECT body FROM local_state WHERE event_id = ?", eventId);
+    }
+    putLocalState(eventId: string, state: LocalTicketState) {
+        this.db.prepare("INSERT INTO local_state (event_id, body) VALUES (?, ?) ON CONFLICT (event_id) DO UPDATE SET body = excluded.body")
+            .run(eventId, JSON.stringify(state));
+    }
+
+    txIdUsed(txId: string) {
+        return !!this.db.prepare("SELECT 1 FROM used_tx_ids WHERE tx_id = ?").get(txId);
+    }
+    // The primary key makes a second use fail even if a caller skipped txIdUsed
+    markTxIdUsed(eventId: string, txId: string) {
+        this.db.prepare("INSERT INTO used_tx_ids (tx_id, event_id, used_at) VALUES (?, ?, ?)").run(txId, eventId, Date.now());
+    }
+
+    // Of two processes claiming the same challenge, the primary key lets one insert
+    claimChallenge(challenge: string, expiresAt: number, now: number) {
+        return this.transaction(() => {
+            this.db.prepare("DELETE FROM used_challenges WHERE expires_at <= ?").run(now);
+            const { changes } = this.db.prepare("INSERT INTO used_challenges (challenge, expires_at) VALUES (?, ?) ON CONFLICT (challenge) DO NOTHING")
+                .run(challenge, expiresAt);
+            return Number(changes) === 1;
+        });
+    }
+
+    getBuyers(eventId: string): BuyerInfo[] {
+        const rows = this.db.prepare("SELECT body FROM buyers WHERE event_id = ? ORDER BY seq").all(eventId) as Array<{ body: string }>;
+        return rows.map(r => JSON.parse(r.body));
+    }
+    addBuyer(eventId: string, buyer: BuyerInfo) {
+        this.db.prepare("INSERT INTO buyers (event_id, seq, body) SELECT ?, COALESCE(MAX(seq) + 1, 0), ? FROM buyers WHERE event_id = ?")
+            .run(eventId, JSON.stringify(buyer), eventId);
+    }
+    putBuyers(eventId: string, buyers: BuyerInfo[]) {
+        this.transaction(() => {
+            this.db.prepare("DELETE FROM buyers WHERE event_id = ?").run(eventId);
+            const insert = this.db.prepare("INSERT INTO buyers (event_id, seq, body) VALUES (?, ?, ?)");
+            buyers.forEach((b, i) => insert.run(eventId, i, JSON.stringify(b)));
+        });
+    }
+
+    getIntents(eventId: string): PaymentIntent[] {
+        const rows = this.db.prepare("SELECT body FROM intents WHERE event_id = ?").all(eventId) as Array<{ body: string }>;
+        return rows.map(r => JSON.parse(r.body));
+    }
+    putIntents(eventId: string, intents: PaymentIntent[]) {
+        this.transaction(() => {
+            this.db.prepare("DELETE FROM intents WHERE event_id = ?").run(eventId);
+            const insert = this.db.prepare("INSERT INTO intents (id, event_id, body) VALUES (?, ?, ?)");
+            for (const i of intents) insert.run(i.id, eventId, JSON.stringify(i));
+        });
+    }
+
+    getDevices(): ScannerDevice[] {
+        const rows = this.db.prepare("SELECT body FROM devices ORDER BY rowid").all() as Array<{ body: string }>;
+        return rows.map(r => JSON.parse(r.body));
+    }
+    getDevice(id: string) {
+        return this.json<ScannerDevice>("SELECT body FROM devices WHERE id = ?", id);
+    }
+    putDevice(device: ScannerDevice) {
+        this.db.prepare("INSERT INTO devices (id, body) VALUES (?, ?) ON CONFLICT (id) DO UPDATE SET body = excluded.body")
+            .run(device.id, JSON.stringify(device));
+    }
+
+    lastGateLogEntry(eventId: string) {
+        return this.json<GateLogEntry>("SELECT body FROM gate_log WHERE event_id = ? ORDER BY seq DESC LIMIT 1", eventId);
+    }
+    // (event_id, seq) is the primary key: of two writers chaining onto the same entry, one loses
+    appendGateLog(eventId: string, entry: GateLogEntry) {
+        const { changes } = this.db.prepare("INSERT OR IGNORE INTO gate_log (event_id, seq, body) VALUES (?, ?, ?)")
+            .run(eventId, entry.seq, JSON.stringify(entry));
+        if (Number(changes) !== 1) throw new StoreConflictError("Gate log changed concurrently; retry");
+    }
+    getGateLog(eventId: string): GateLogEntry[] {
+        const rows = this.db.prepare("SELECT body FROM gate_log WHERE event_id = ? ORDER BY seq").all(eventId) as Array<{ body: string }>;
+        return rows.map(r => JSON.parse(r.body));
+    }
+    addCheckInConflict(eventId: string, conflict: CheckInConflict) {
+        this.db.prepare("INSERT INTO checkin_conflicts (event_id, body) VALUES (?, ?)").run(eventId, JSON.stringify(conflict));
+    }
+    getCheckInConflicts(eventId: string): CheckInConflict[] {
+        const rows = this.db.prepare("SELECT body FROM checkin_conflicts WHERE event_id = ? ORDER BY rowid").all(eventId) as Array<{ body: string }>;
+        return rows.map(r => JSON.parse(r.body));
+    }
+
+    clearEvent(eventId: string) {
+        this.transaction(() => {
+            for (const table of ["onchain", "nullifiers", "nullifier_counts", "issuer_trees", "issuer_leaves", "local_state", "used_tx_ids", "buyers", "intents"]) {
+                this.db.prepare(`DELETE FROM ${table} WHERE event_id = ?`).run(eventId);
+            }
+        });
+    }
+
+    close() { this.db.close(); }
+}
+
+// The per-event JSON files the server used before the store existed
+export interface LegacyEventFiles {
+    onchain: string;
+    issuer: string;
+    payments: string;
+    buyers: string;
+    intents: string;
+}
+
+// `.tickets.local.json` is not among them: the CLI and demo still keep their TicketSystem there
+const LEGACY_FILES: Array<keyof LegacyEventFiles> = ["onchain", "issuer", "payments", "buyers", "intents"];
+
+// One-time import of an event's JSON files. Skipped once the store holds state for the event.
+// Imported files are copied to `<file>.migrated`, which marks them as imported; the originals
+// stay where they are (some are tracked in git).
+export function migrateJsonFiles(store: TicketStore, eventId: string, files: LegacyEventFiles): string[] {
+    const present = LEGACY_FILES.filter(k => fs.existsSync(files[k]) && !fs.existsSync(`${files[k]}.migrated`));
+    if (present.length === 0) return [];
+    if (store.getOnchain(eventId) || store.getIssuerTree(eventId)) return [];
+    const read = <T>(file: string): T => JSON.parse(fs.readFileSync(file, "utf-8"));
+    store.transaction(() => {
+        if (present.includes("onchain")) {
+            const doc = read<OnchainDoc & { nullifiers?: Hash[] }>(files.onchain);
+            store.putOnchain(eventId, { ...doc, version: 1 });
+            for (const n of doc.nullifiers || []) store.addNullifier(eventId, n);
+        }
+        if (present.includes("issuer")) store.putIssuerTree(eventId, read<IssuerTree>(files.issuer));
+        if (present.includes("payments")) {
+            // Files written before txIds were normalized may hold 0x-prefixed or uppercase ids
+            // (normalizeTxId's form; not imported here to keep zswap out of the CLI's imports)
+            for (const raw of read<{ usedTxIds: string[] }>(files.payments).usedTxIds) {
+                const txId = String(raw).trim().replace(/^0x/i, "").toLowerCase();
+                if (!store.txIdUsed(txId)) store.markTxIdUsed(eventId, txId);
+            }
+        }
+        if (present.includes("buyers")) store.putBuyers(eventId, read<{ buyers: BuyerInfo[] }>(files.buyers).buyers);
+        if (present.includes("intents")) store.putIntents(eventId, read<{ intents: PaymentIntent[] }>(files.intents).intents);
+    });
+    for (const k of present) fs.copyFileSync(files[k], `${files[k]}.migrated`);
+    return present;
+}
@@ -0,0 +1,151 @@
+// Concurrency check for the server: several server processes share one SQLite database, tickets
+// are issued through all of them at once, then every ticket is redeemed many times in parallel.
+// Passes when the root covers every issued leaf and each nullifier was accepted exactly once, and
+// an expired ticket is refused however its issuedAt is sent.
+//   STRESS_SERVERS (default 2; 1 on the memory store), STRESS_TICKETS (50), STRESS_ATTEMPTS (8 per ticket)
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { spawn, type ChildProcess } from "child_process";
+import { fileURLToPath } from "url";
+import { MerkleTree, leafFromTicket, nullifierFromSecret, randomSecretHex, sha256Hash, type Hash } from "../lib/ticket-crypto.js";
+import { sqliteAvailable } from "./store.js";
+
+const SERVER_JS = path.join(path.dirname(fileURLToPath(import.meta.url)), "..", "server.js");
+const TICKETS = Number(process.env.STRESS_TICKETS || 50);
+const ATTEMPTS = Number(process.env.STRESS_ATTEMPTS || 8);
+const DEPTH = 10;
+// Admin key for init and scanner routes, shared by every server process
+const ADMIN_KEY = randomSecretHex(24);
+// Payload MAC passphrase, shared too so every process checks the others' tags
+const PAYLOAD_KEY = randomSecretHex(24);
+
+let failures = 0;
+function check(label: string, actual: unknown, expected: unknown) {
+    if (actual === expected) return;
+    failures++;
+    console.log(`FAIL ${label}\n  expected ${String(expected)}\n  actual   ${String(actual)}`);
+}
+
+
+// Starts one server on a free port and resolves with its base URL once it listens
+function startServer(env: NodeJS.ProcessEnv, children: ChildProcess[]): Promise<string> {
+    const child = spawn(process.execPath, [SERVER_JS], { env: { ...process.env, ...env, PORT: "0" }, stdio: ["ignore", "pipe", "pipe"] });
+    children.push(child);
+    return new Promise((resolve, reject) => {
+        let output = "";
+        const onData = (chunk: Buffer) => {
+            output += chunk.toString();
+            const m = output.match(/running on (http:\/\/localhost:\d+)/);
+            if (m) resolve(m[1]);
+        };
+        child.stdout!.on("data", onData);
+        child.stderr!.on("data", (chunk: Buffer) => { output += chunk.toString(); });
+        child.on("exit", code => reject(new Error(`Server exited (${code}):\n${output}`)));
+    });
+}
+
+async function post(base: string, route: string, body: unknown): Promise<{ status: number; body: any }> {
+    const res = await fetch(`${base}/api${route}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${ADMIN_KEY}` },
+        body: JSON.stringify(body)
+    });
+    return { status: res.status, body: await res.json() };
+}
+
+// 409 "Concurrent update" is the store's compare-and-set losing; the client retries
+async function issueLeaf(base: string, leaf: Hash): Promise<{ status: number; body: any }> {
+    for (;;) {
+        // General admission: the leaf is the commitment itself
+        const res = await post(base, "/issue-leaf", { commitment: leaf });
+        if (!(res.status === 409 && res.body?.retryable)) return res;
+    }
+}
+
+async function run() {
+    const shared = sqliteAvailable();
+    const servers = shared ? Number(process.env.STRESS_SERVERS || 2) : 1;
+    console.log(`Concurrency stress: ${servers} server(s) on the ${shared ? "sqlite" : "memory"} store, ${TICKETS} tickets, ${ATTEMPTS} redeems each\n`);
+    if (!shared) console.log("node:sqlite unavailable (Node 22.13+ needed); cross-process sharing is not exercised\n");
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "tickets-stress-"));
+    const children: ChildProcess[] = [];
+    try {
+        const env = { TICKETS_DATA_DIR: dir, TICKETS_STORE: shared ? "sqlite" : "memory", TICKETS_DB: path.join(dir, "tickets.db"), TICKETS_ADMIN_KEYS: ADMIN_KEY, TICKETS_PAYLOAD_KEY: PAYLOAD_KEY };
+        const bases = await Promise.all(Array.from({ length: servers }, () => startServer(env, children)));
+        const at = (i: number) => bases[i % bases.length];
+
+        const confirm = await post(bases[0], "/confirm", { action: "init" });
+        const init = await post(bases[0], "/init", { maxAgeHours: 24, depth: DEPTH, confirm: confirm.body.token });
+        check("init", init.status, 200);
+
+        // Issue every ticket at once, spread over the servers
+        const tickets = Array.from({ length: TICKETS }, () => {
+            const secret = randomSecretHex();
+            const issuedAt = Date.now();
+            return { secret, issuedAt, leaf: leafFromTicket(secret, issuedAt, sha256Hash) };
+        });
+        const issued = await Promise.all(tickets.map((t, i) => issueLeaf(at(i), t.leaf)));
+        const byIndex: Hash[] = [];
+        issued.forEach((r, i) => {
+            check(`issue ${i}`, r.status, 200);
+            if (r.status === 200) byIndex[r.body.index] = tickets[i].leaf;
+        });
+        check("distinct indexes", byIndex.filter(Boolean).length, TICKETS);
+        const expectedRoot = new MerkleTree(DEPTH, byIndex, sha256Hash).getRoot();
+        for (const base of bases) {
+            const state = await (await fetch(`${base}/api/state`)).json() as { root: Hash; leafCount: number };
+            check(`${base} leafCount`, state.leafCount, TICKETS);
+            check(`${base} root covers every leaf`, state.root, expectedRoot);
+        }
+
+        // Redeem each ticket ATTEMPTS times, all in flight together
+        const attempts = tickets.flatMap((t, i) => Array.from({ length: ATTEMPTS }, (_, k) => ({ ticket: i, base: at(i + k) })));
+        const results = await Promise.all(attempts.map(a =>
+            post(a.base, "/redeem-leaf", { secret: tickets[a.ticket].secret, issuedAt: tickets[a.ticket].issuedAt })
+                .then(r => ({ ...a, ...r }))
+        ));
+        const wins = new Map<number, number>();
+        for (const r of results) {
+            if (r.status === 200) wins.set(r.ticket, (wins.get(r.ticket) ?? 0) + 1);
+            else check(`redeem ${r.ticket} rejection`, r.body?.reason, "Already used");
+        }
+        for (let i = 0; i < TICKETS; i++) check(`ticket ${i} successful redeems`, wins.get(i) ?? 0, 1);
+        const state = await (await fetch(`${bases[0]}/api/state`)).json() as { nullifierCount: number };
+        check("recorded nullifiers", state.nullifierCount, TICKETS);
+        const spent = await Promise.all(tickets.map((t, i) =>
+            fetch(`${at(i)}/api/nullifiers/${nullifierFromSecret(t.secret, sha256Hash)}`).then(r => r.json() as Promise<{ spent: boolean }>)
+        ));
+        check("nullifiers match tickets", spent.every(r => r.spent), true);
+        const unknown = await (await fetch(`${bases[0]}/api/nullifiers/0x${"00".repeat(32)}`)).json() as { spent: boolean };
+        check("unknown nullifier unspent", unknown.spent, false);
+        console.log(`${results.length} redeem requests, ${results.filter(r => r.status === 200).length} accepted`);
+
+        // issuedAt sent as a string (as a form or a hand-written client would) still expires
+        const secret = randomSecretHex();
+        const issuedAt = Date.now() - 25 * 60 * 60 * 1000;
+        check("issue expired ticket", (await issueLeaf(bases[0], leafFromTicket(secret, issuedAt, sha256Hash))).status, 200);
+        for (const route of ["/record-nullifier", "/redeem-leaf"]) {
+            const expired = await post(bases[0], route, { secret, issuedAt: String(issuedAt) });
+            check(`${route} string issuedAt past maxAgeMs`, `${expired.status} ${expired.body?.reason}`, "400 Ticket expired");
+        }
+        const malformed = await post(bases[0], "/record-nullifier", { secret, issuedAt: `${issuedAt}abc` });
+        check("malformed issuedAt", `${malformed.status} ${malformed.body?.reason}`, "400 Invalid issuedAt");
+        const synced = await post(bases[0], "/checkins/sync", { checkIns: [
+            { id: "expired", secret, issuedAt: String(issuedAt) },
+            { id: "malformed", secret, issuedAt: `${issuedAt}abc` }
+        ] });
+        const outcome = (id: string) => synced.body?.results?.find((r: any) => r.id === id);
+        check("synced string issuedAt past maxAgeMs", `${outcome("expired")?.status} ${outcome("expired")?.reason}`, "rejected Ticket expired");
+        check("synced malformed issuedAt", `${outcome("malformed")?.status} ${outcome("malformed")?.reason}`, "rejected Invalid issuedAt");
+    } finally {
+        for (const child of children) child.kill();
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+
+    console.log("\nSummary: ", failures === 0 ? "PASS" : `FAIL (${failures})`);
+    process.exit(failures === 0 ? 0 : 1);
+}
+
+run().catch(e => { console.error(e); process.exit(1); });
@@ -0,0 +1,152 @@
+// Checks the shared ticket crypto against the pinned cross-environment vectors.
+// The UI bundles the same module, so a pass here means server and UI agree.
+import crypto from "crypto";
+import {
+    MerkleTree,
+    decodeTicketPayload,
+    deriveTicketSecret,
+    encodeTicketPayload,
+    fromHex,
+    leafFromCommitment,
+    leafFromTicket,
+    loadHashFunction,
+    nullifierFromSecret,
+    randomSecretHex,
+    secretKeyFromSecret,
+    sha256Hash,
+    ticketCommitment,
+    toHex,
+    HASH_ALGORITHMS,
+    LEGACY_DERIVATION
+} from "../lib/ticket-crypto.js";
+import {
+    BASE45_VECTORS,
+    INVALID_PAYLOADS,
+    INVALID_PAYLOADS_V2,
+    PAYLOAD_V2_VECTOR,
+    SEED_VECTORS,
+    TAMPERED_PAYLOAD_V2,
+    TICKET_VECTORS,
+    TIER_VECTORS,
+    TREE_VECTORS
+} from "../lib/ticket-crypto.vectors.js";
+import {
+    TicketPayloadError,
+    base45Decode,
+    base45Encode,
+    decodeAnyTicketPayload,
+    decodeTicketPayloadV2,
+    encodeTicketPayloadV2,
+    issuerMessage,
+    payloadMac,
+    payloadProofMatches,
+    verifyPayloadMac
+} from "../lib/ticket-payload.js";
+
+let failures = 0;
+function check(label: string, actual: unknown, expected: unknown) {
+    if (actual === expected) return;
+    failures++;
+    console.log(`FAIL ${label}\n  expected ${String(expected)}\n  actual   ${String(actual)}`);
+}
+
+async function run() {
+    console.log("Ticket crypto vectors\n");
+    // The pure-TS SHA-256 must agree with Node's OpenSSL-backed one
+    for (const len of [0, 1, 55, 56, 63, 64, 65, 1000]) {
+        const data = crypto.randomBytes(len);
+        const expected = "0x" + crypto.createHash("sha256").update(data).digest("hex");
+        check(`sha256 (${len} bytes)`, toHex(sha256Hash.hash2(data.subarray(0, len >> 1), data.subarray(len >> 1))), expected);
+    }
+
+    const seed = fromHex(SEED_VECTORS.masterSeed);
+    for (const v of SEED_VECTORS.secrets) check(`seed secret ${v.index}`, deriveTicketSecret(seed, v.index), v.secret);
+    const random = [randomSecretHex(), randomSecretHex()];
+    check("random secret length", random[0].length, 64);
+    check("random secrets differ", random[0] !== random[1], true);
+
+    for (const algorithm of HASH_ALGORITHMS) {
+        // Same async loader the UI uses, so Poseidon goes through the lazy import path
+        const hash = await loadHashFunction(algorithm);
+        for (const v of TICKET_VECTORS) {
+            const name = `${algorithm} ${JSON.stringify(v.secret)}`;
+            check(`${name} secretKey`, toHex(secretKeyFromSecret(v.secret)), v.secretKey);
+            check(`${name} leaf`, leafFromTicket(v.secret, v.issuedAt, hash), v.leaf[algorithm]);
+            check(`${name} nullifier`, nullifierFromSecret(v.secret, hash), v.nullifier[algorithm]);
+            check(`${name} tier 0 leaf = commitment`, ticketCommitment(v.secret, v.issuedAt, hash), v.leaf[algorithm]);
+        }
+        for (const tv of TIER_VECTORS) {
+            const v = TICKET_VECTORS[tv.ticket];
+            const name = `${algorithm} ${JSON.stringify(v.secret)} tier ${tv.tier}`;
+            check(`${name} leaf`, leafFromTicket(v.secret, v.issuedAt, hash, tv.tier), tv.leaf[algorithm]);
+            check(`${name} from commitment`, leafFromCommitment(v.leaf[algorithm], tv.tier, hash), tv.leaf[algorithm]);
+        }
+        const t = TREE_VECTORS[algorithm];
+        const tree = new MerkleTree(t.depth, TICKET_VECTORS.map(v => v.leaf[algorithm]), hash);
+        check(`${algorithm} tree root`, tree.getRoot(), t.root);
+        check(`${algorithm} tree proof`, JSON.stringify(tree.getProof(t.proof.index)), JSON.stringify(t.proof));
+        const leaf = TICKET_VECTORS[t.proof.index].leaf[algorithm];
+        check(`${algorithm} verify`, MerkleTree.verify(leaf, t.proof, t.root, hash), true);
+        check(`${algorithm} verify wrong leaf`, MerkleTree.verify(TICKET_VECTORS[0].leaf[algorithm], t.proof, t.root, hash), false);
+    }
+
+    for (const v of TICKET_VECTORS) {
+        const name = `legacy ${JSON.stringify(v.secret)}`;
+        check(`${name} leaf`, leafFromTicket(v.secret, v.issuedAt, sha256Hash, 0, LEGACY_DERIVATION), v.legacy.leaf);
+        check(`${name} nullifier`, nullifierFromSecret(v.secret, sha256Hash, LEGACY_DERIVATION), v.legacy.nullifier);
+    }
+
+    for (const v of TICKET_VECTORS) {
+        check(`encode ${JSON.stringify(v.secret)}`, encodeTicketPayload(v), v.payload);
+        const decoded = decodeTicketPayload(v.payload);
+        check(`decode ${v.payload}`, JSON.stringify(decoded), JSON.stringify({ secret: v.secret, issuedAt: v.issuedAt, index: v.index }));
+    }
+    for (const tv of TIER_VECTORS) {
+        const v = TICKET_VECTORS[tv.ticket];
+        check(`encode tier ${tv.tier}`, encodeTicketPayload({ ...v, tier: tv.tier }), tv.payload);
+        const decoded = decodeTicketPayload(tv.payload);
+        check(`decode ${tv.payload}`, JSON.stringify(decoded), JSON.stringify({ secret: v.secret, issuedAt: v.issuedAt, index: v.index, tier: tv.tier }));
+    }
+    for (const p of INVALID_PAYLOADS) {
+        let rejected = false;
+        try { decodeTicketPayload(p); } catch { rejected = true; }
+        check(`reject ${JSON.stringify(p)}`, rejected, true);
+    }
+
+    for (const v of BASE45_VECTORS) {
+        check(`base45 ${v.text}`, base45Encode(new TextEncoder().encode(v.text)), v.base45);
+        check(`base45 decode ${v.base45}`, new TextDecoder().decode(base45Decode(v.base45)), v.text);
+    }
+    const pv = PAYLOAD_V2_VECTOR;
+    const v2Ticket = TICKET_VECTORS[pv.ticket];
+    const v2Leaf = v2Ticket.leaf.sha256;
+    const macKey = crypto.createHash("sha256").update(pv.macPassphrase).digest();
+    const message = issuerMessage({ eventId: pv.eventId, tier: 0, index: pv.index, rootRef: pv.rootRef, leaf: v2Leaf });
+    check("v2 MAC (pure TS = OpenSSL)", payloadMac(macKey, message), crypto.createHmac("sha256", macKey).update(message).digest().subarray(0, 16).toString("base64url"));
+    check("v2 MAC", payloadMac(macKey, message), pv.tag);
+    const v2 = { secret: v2Ticket.secret, issuedAt: v2Ticket.issuedAt, index: pv.index, tier: 0, eventId: pv.eventId, auth: { kind: "mac" as const, rootRef: pv.rootRef, tag: pv.tag } };
+    check("v2 encode base45", encodeTicketPayloadV2(v2), pv.base45);
+    check("v2 encode base64url", encodeTicketPayloadV2(v2, "base64url"), pv.base64url);
+    check("v2 encode with proof", encodeTicketPayloadV2({ ...v2, proof: TREE_VECTORS.sha256.proof.siblings }, "base64url"), pv.withProof);
+    check("v2 decode base45", JSON.stringify(decodeAnyTicketPayload(pv.base45)), JSON.stringify({ version: 2, ...v2 }));
+    check("v2 decode base64url", JSON.stringify(decodeAnyTicketPayload(pv.base64url)), JSON.stringify({ version: 2, ...v2 }));
+    const withProof = decodeTicketPayloadV2(pv.withProof);
+    check("v2 proof leads to rootRef", payloadProofMatches(withProof, v2Leaf, sha256Hash), true);
+    check("v2 proof for another leaf", payloadProofMatches(withProof, TICKET_VECTORS[0].leaf.sha256, sha256Hash), false);
+    check("v2 MAC verifies", verifyPayloadMac(macKey, message, pv.tag), true);
+    const tampered = decodeTicketPayloadV2(TAMPERED_PAYLOAD_V2);
+    const tamperedLeaf = leafFromTicket(tampered.secret, tampered.issuedAt, sha256Hash, tampered.tier);
+    check("v2 tampered MAC rejected", verifyPayloadMac(macKey, issuerMessage({ ...tampered, rootRef: tampered.auth.rootRef, leaf: tamperedLeaf }), tampered.auth.tag), false);
+    for (const { payload, kind } of INVALID_PAYLOADS_V2) {
+        let got = "accepted";
+        try { decodeAnyTicketPayload(payload); } catch (e) { got = e instanceof TicketPayloadError ? e.kind : "other error"; }
+        check(`reject v2 ${JSON.stringify(payload.slice(0, 24))}… as ${kind}`, got, kind);
+    }
+    // v1 still decodes through the v2-aware entry point
+    check("v1 via decodeAnyTicketPayload", JSON.stringify(decodeAnyTicketPayload(TICKET_VECTORS[0].payload)), JSON.stringify(decodeTicketPayload(TICKET_VECTORS[0].payload)));
+
+    console.log("\nSummary: ", failures === 0 ? "PASS" : `FAIL (${failures})`);
+    process.exit(failures === 0 ? 0 : 1);
+}
+
+run().catch(e => { console.error(e); process.exit(1); });
@@ -0,0 +1,97 @@
+// Witness builder for the `redeem` circuit in contracts/tickets.compact, and the issuer's key
+// for the circuits only the issuer may call.
+// Everything here stays in the caller's private state; only the nullifier is disclosed.
+import type { WitnessContext } from "@midnight-ntwrk/compact-runtime";
+import { concatBytes, fromHex, utf8 } from "../lib/hash.js";
+import { sha256 } from "../lib/sha256.js";
+import { Hash, secretKeyFromSecret } from "../lib/ticket-crypto.js";
+import type { TicketRecord } from "./state.js";
+import { hexToBytes32 } from "./contract.js";
+
+// Must match the Vector length of `ticketPath()` in the contract.
+export const MAX_DEPTH = 32;
+
+export interface PathEntry {
+    sibling: Uint8Array;
+    isLeft: boolean; // running node is the left child at this level
+}
+
+export interface RedemptionPrivateState {
+    secretKey: Uint8Array;
+    issuedAt: bigint;
+    tier: bigint;
+    path: PathEntry[];
+    notAfter: bigint; // seconds; see redeemNotAfter
+    issuerKey: Uint8Array; // zeros unless the caller is the issuer
+}
+
+export type MerkleProof = { siblings: Hash[]; index: number };
+
+// The issuer's key is bound to the wallet that deploys the contract: the constructor stores its
+// commitment, and init/publishRoot/recordNullifiers need the same key. Use the deployer's seed.
+export function issuerSecretKeyFromSeed(seed: string): Uint8Array {
+    return sha256(concatBytes(utf8("midnight-ticket:issuer:"), fromHex(seed.trim())));
+}
+
+// How long a redeem transaction has to land in a block
+export const REDEEM_WINDOW_S = 600;
+
+// The circuit checks block time < notAfter and notAfter <= expiry. Now plus the window, capped
+// at the expiry: the bound then discloses only the current time, unless the ticket is about to
+// expire. 0 (never satisfiable) once it has.
+export function redeemNotAfter(issuedAt: number, maxAgeMs: number, now = Date.now()): bigint {
+    const expiry = Math.floor((issuedAt + maxAgeMs) / 1000);
+    const bound = Math.min(expiry, Math.floor(now / 1000) + REDEEM_WINDOW_S);
+    return BigInt(Math.max(bound, 0));
+}
+
+export function buildRedemptionWitness(record: Pick<TicketRecord, "secret" | "issuedAt" | "tier">, proof: MerkleProof, notAfter: bigint, issuerKey: Uint8Array = new Uint8Array(32)): RedemptionPrivateState {
+    if (proof.siblings.length > MAX_DEPTH) {
+        throw new Error(`Proof depth ${proof.siblings.length} exceeds circuit maximum ${MAX_DEPTH}`);
+    }
+    const path: PathEntry[] = [];
+    let idx = proof.index;
+    for (const sibling of proof.siblings) {
+        path.push({ sibling: hexToBytes32(sibling), isLeft: idx % 2 === 0 });
+        idx = Math.floor(idx / 2);
+    }
+    // Levels at or above the tree depth are skipped by the circuit; pad with zeros.
+    while (path.length < MAX_DEPTH) path.push({ sibling: new Uint8Array(32), isLeft: true });
+    return {
+        secretKey: secretKeyFromSecret(record.secret),
+        issuedAt: BigInt(record.issuedAt),
+        tier: BigInt(record.tier ?? 0),
+        path,
+        notAfter,
+        issuerKey
+    };
+}
+
+// Placeholder private state for deploy / non-redeem calls; the issuer passes its key.
+export function emptyPrivateState(issuerKey: Uint8Array = new Uint8Array(32)): RedemptionPrivateState {
+    return {
+        secretKey: new Uint8Array(32),
+        issuedAt: 0n,
+        tier: 0n,
+        path: Array.from({ length: MAX_DEPTH }, () => ({ sibling: new Uint8Array(32), isLeft: true })),
+        notAfter: 0n,
+        issuerKey
+    };
+}
+
+type Ctx = WitnessContext<unknown, RedemptionPrivateState>;
+
+export const witnesses = {
+    ticketSecretKey: ({ privateState }: Ctx): [RedemptionPrivateState, Uint8Array] =>
+        [privateState, privateState.secretKey],
+    ticketIssuedAt: ({ privateState }: Ctx): [RedemptionPrivateState, bigint] =>
+        [privateState, privateState.issuedAt],
+    ticketTier: ({ privateState }: Ctx): [RedemptionPrivateState, bigint] =>
+        [privateState, privateState.tier],
+    ticketPath: ({ privateState }: Ctx): [RedemptionPrivateState, PathEntry[]] =>
+        [privateState, privateState.path],
+    ticketNotAfter: ({ privateState }: Ctx): [RedemptionPrivateState, bigint] =>
+        [privateState, privateState.notAfter],
+    issuerSecretKey: ({ privateState }: Ctx): [RedemptionPrivateState, Uint8Array] =>
+        [privateState, privateState.issuerKey]
+};
@@ -3,8 +3,15 @@ import { siCardano, siEthereum, siCoinbase } from 'simple-icons';
 import { BrowserRouter, Routes, Route, Link } from 'react-router-dom';
 import Navbar from './components/Navbar';
 import Footer from './components/Footer';
-import { getState, initSystem, issueTicket, getTickets, redeemTicket, resetAll, type Ticket, type OnchainState } from './api';
+import LoginGate from './components/LoginGate';
+import { getState, initSystem, issueTicket, getTickets, redeemTicket, resetAll, getProofByLeaf, getTiers, isRecentRoot, apiUrl, createEvent, setCurrentEvent, createPaymentIntent, paidIssue, getCurrentEvent, authedFetch, type Ticket, type TicketTier, type OnchainState, type PublicationSummary, type ScannerDevice } from './api';
 import { ToastProvider, useToast } from './components/ToastProvider';
+import { BulkIssue } from './components/TicketBundle';
+import { GateAudit } from './components/GateAudit';
+import { DeviceRegistration } from './components/DeviceRegistration';
+import { signCheckIn, type SignedCheckIn } from './device';
+import { OfflinePanel, useOfflineScanner, type OfflineTicket } from './components/OfflinePanel';
+import { QrCamera } from './components/QrCamera';
 
 const Box: React.FC<{ title: string, children: React.ReactNode }> = ({ title, children }) => (
     <div className="card">
@@ -55,6 +62,7 @@ function DemoPage() {
 
             <div style={{ marginBottom: 12 }}>
                 <button className="btn-danger" onClick={async () => {
+                    if (!window.confirm('Reset clears every issued ticket and nullifier of this event. Continue?')) return;
                     setLoading(true); setErr(null); setMessage(null);
                     try { await resetAll(); await refresh(); setMessage('Reset complete'); }
                     catch (e: any) { setErr(e.message || 'reset failed'); }
@@ -74,6 +82,7 @@ function DemoPage() {
                         <input type="number" value={initDepth} onChange={e => setInitDepth(Number(e.target.value))} style={{ marginLeft: 8, width: 120 }} />
                     </label>
                     <button className="btn-primary" disabled={!canInit || loading} onClick={async () => {
+                        if (!window.confirm('Initializing starts a new tree and wipes the current tickets. Continue?')) return;
                         setLoading(true); setMessage(null);
                         try { await initSystem(initHours, initDepth); await refresh(); setMessage('Initialized'); }
                         catch (e: any) { setErr(e.message || 'init failed'); }
@@ -119,6 +128,7 @@ function DemoPage() {
                                 <th style={{ textAlign: 'left' }}>Index</th>
                                 <th style={{ textAlign: 'left' }}>Secret</th>
                                 <th style={{ textAlign: 'left' }}>IssuedAt</th>
+                                {tickets.some(t => t.publication) && <th style={{ textAlign: 'left' }}>On-chain</th>}
                             </tr>
                         </thead>
                         <tbody>
@@ -127,6 +137,7 @@ function DemoPage() {
                                     <td>{t.index}</td>
                                     <td className="mono" style={{ fontSize: 12 }}>{t.secret}</td>
                                     <td>{t.issuedAt}</td>
+                                    {t.publication && <td>{t.publication === 'anchored' ? 'Anchored' : 'Pending publication'}</td>}
                                 </tr>
                             ))}
                         </tbody>
@@ -181,42 +192,38 @@ function Landing() {
     );
 }
 
-import { sha256Hex } from './crypto';
-import { detectWallet } from './wallet';
+import { decodeAnyTicketPayload, derivationOf, leafFromTicket, nullifierFromSecret, parseScannedTicket, payloadFromScanUrl, randomSecretHex, ticketCommitment, verifyInclusion, type AnyTicketPayload, type HashAlgorithm, type PayloadAuth, type ScannedTicket } from './crypto';
+import { detectWallet, payForIntent, type PaymentIntent } from './wallet';
 import TicketQr from './components/TicketQr';
+import EventSelector from './components/EventSelector';
 
-// Helper to generate a 32-hex secret that works on HTTP (IP) too
-function generateSecretHex(): string {
-    try {
-        const g: any = (globalThis as any).crypto;
-        if (g && typeof g.randomUUID === 'function') {
-            return g.randomUUID().replace(/-/g, ''); // 32 hex chars
-        }
-        if (g && typeof g.getRandomValues === 'function') {
-            const bytes = new Uint8Array(16); // 16 bytes -> 32 hex chars
-            g.getRandomValues(bytes);
-            return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
-        }
-    } catch { /* ignore and fall back */ }
-    // Last resort (non-crypto) fallback
-    let out = '';
-    for (let i = 0; i < 32; i++) out += Math.floor(Math.random() * 16).toString(16);
-    return out;
-}
+// 32-hex secret from the shared CSPRNG helper (getRandomValues works on HTTP/IP origins too)
+const generateSecretHex = () => randomSecretHex(16);
 
 function IssuerPage() {
     const [hours, setHours] = useState(24); const [depth, setDepth] = useState(16); const [state, setState] = useState<OnchainState | null>(null);
+    const [hashAlgorithm, setHashAlgorithm] = useState<HashAlgorithm>('sha256');
+    const [rootHistory, setRootHistory] = useState(32);
+    const [tiersSpec, setTiersSpec] = useState('');
+    const [tiers, setTiers] = useState<TicketTier[]>([]);
+    const [newEvent, setNewEvent] = useState({ id: '', name: '', priceTdust: 10 });
+    const [eventsVersion, setEventsVersion] = useState(0);
     const [msg, setMsg] = useState<string | null>(null); const [err, setErr] = useState<string | null>(null);
     const [buyers, setBuyers] = useState<Array<{ name?: string; email?: string; index?: number; savedAt?: number }>>([]);
     const [buyersOpen, setBuyersOpen] = useState(false);
+    const [publication, setPublication] = useState<PublicationSummary | null>(null);
     const { success, error } = useToast();
     async function refresh() {
         try {
-            const [s, b] = await Promise.all([
+            const [s, b, t, p] = await Promise.all([
                 getState(),
-                fetch('/api/buyers', { cache: 'no-store' }).then(r => r.json()).catch(() => ({ ok: false }))
+                authedFetch(apiUrl('/buyers'), { cache: 'no-store' }).then(r => r.json()).catch(() => ({ ok: false })),
+                getTiers().catch(() => null),
+                getTickets().catch(() => null)
             ]);
             setState(s);
+            if (t) setTiers(t);
+            setPublication(p?.publication ?? null);
             if (b && b.ok && Array.isArray(b.buyers)) setBuyers(b.buyers);
         } catch (e: any) { setErr(e.message); }
     }
@@ -236,15 +243,16 @@ function IssuerPage() {
     useEffect(() => { if (err) { error(err); } }, [err, error]);
     // Human-friendly projections
     const depthVal = state?.depth ?? depth;
-    const capacity = depthVal != null ? (1 << Number(depthVal)) : undefined;
+    const capacity = depthVal != null ? (2 ** Number(depthVal)) : undefined;
     const sold = state?.leafCount ?? 0;
     const remaining = capacity != null ? Math.max(capacity - sold, 0) : undefined;
-    const usedCount = Array.isArray(state?.nullifiers) ? state!.nullifiers.length : 0;
+    const usedCount = state?.nullifierCount ?? 0;
     const maxAgeH = state ? Math.round(state.maxAgeMs / (60 * 60 * 1000)) : hours;
     const rootShort = state?.root ? `${state.root.slice(0, 12)}…${state.root.slice(-8)}` : '—';
     return (
         <div className="container">
             <h2>Issuer</h2>
+            <EventSelector reloadKey={eventsVersion} onChange={() => { setBuyers([]); setBuyersOpen(false); refresh(); }} />
             {err && <div style={{ color: 'red' }}>{err}</div>}
             {msg && <div style={{ color: 'green' }}>{msg}</div>}
             {remaining === 0 && (
@@ -253,7 +261,7 @@ function IssuerPage() {
                 </div>
             )}
             <div style={{ marginBottom: 12 }}>
-                <button className="btn-danger" onClick={async () => { try { await resetAll(); setBuyers([]); setBuyersOpen(false); await refresh(); setMsg('Reset complete'); } catch (e: any) { setErr(e.message || 'reset failed'); } }}>Reset (clear issued tickets)</button>
+                <button className="btn-danger" onClick={async () => { if (!window.confirm('Reset clears every issued ticket, nullifier and buyer record of this event. Continue?')) return; try { await resetAll(); setBuyers([]); setBuyersOpen(false); await refresh(); setMsg('Reset complete'); } catch (e: any) { setErr(e.message || 'reset failed'); } }}>Reset (clear issued tickets)</button>
             </div>
             <div style={{ display: 'flex', gap: 12, alignItems: 'center', flexWrap: 'wrap' }}>
                 <label style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
@@ -264,10 +272,45 @@ function IssuerPage() {
                     <span className="muted" style={{ minWidth: 120 }}>Merkle depth (d)</span>
                     <input type="number" value={depth} min={1} max={32} step={1} onChange={e => setDepth(Number(e.target.value))} />
                 </label>
-                <button className="btn-primary" onClick={async () => { try { await initSystem(hours, depth); await refresh(); setMsg('Initialized'); } catch (e: any) { setErr(e.message) } }}>Initialize</button>
+                <label style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                    <span className="muted" style={{ minWidth: 90 }}>Hash</span>
+                    <select value={hashAlgorithm} onChange={e => setHashAlgorithm(e.target.value as HashAlgorithm)}>
+                        <option value="sha256">SHA-256</option>
+                        <option value="poseidon">Poseidon (circuit-friendly)</option>
+                    </select>
+                </label>
+                <label style={{ display: 'flex', alignItems: 'center', gap: 8 }} title="Proofs against any of the last N roots are still accepted">
+                    <span className="muted" style={{ minWidth: 120 }}>Root history (N)</span>
+                    <input type="number" value={rootHistory} min={1} max={1024} step={1} onChange={e => setRootHistory(Number(e.target.value))} />
+                </label>
+                <label style={{ display: 'flex', alignItems: 'center', gap: 8 }} title="name:price[:capacity], comma separated; the first tier is general admission. Blank keeps the current tiers.">
+                    <span className="muted" style={{ minWidth: 60 }}>Tiers</span>
+                    <input placeholder="General:10, VIP:50:16" value={tiersSpec} onChange={e => setTiersSpec(e.target.value)} />
+                </label>
+                <button className="btn-primary" onClick={async () => { if (!window.confirm('Initializing starts a new tree and wipes the current tickets of this event. Continue?')) return; try { await initSystem(hours, depth, hashAlgorithm, rootHistory, tiersSpec.trim() || undefined); await refresh(); setMsg('Initialized'); } catch (e: any) { setErr(e.message) } }}>Initialize</button>
+            </div>
+            <div style={{ display: 'flex', gap: 12, alignItems: 'center', flexWrap: 'wrap', marginTop: 12 }}>
+                <span className="muted" style={{ minWidth: 150 }}>New event (uses the settings above)</span>
+                <input placeholder="id, e.g. rock-night" value={newEvent.id} onChange={e => setNewEvent({ ...newEvent, id: e.target.value.trim().toLowerCase() })} />
+                <input placeholder="Name" value={newEvent.name} onChange={e => setNewEvent({ ...newEvent, name: e.target.value })} />
+                <label style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                    <span className="muted">Price (tDust)</span>
+                    <input type="number" min={0} step={1} value={newEvent.priceTdust} onChange={e => setNewEvent({ ...newEvent, priceTdust: Number(e.target.value) })} />
+                </label>
+                <button onClick={async () => {
+                    try {
+                        const ev = await createEvent({ ...newEvent, maxAgeHours: hours, depth, hashAlgorithm, rootHistorySize: rootHistory, tiers: tiersSpec.trim() || undefined });
+                        setCurrentEvent(ev.id);
+                        setEventsVersion(v => v + 1);
+                        setNewEvent({ id: '', name: '', priceTdust: 10 });
+                        setBuyers([]);
+                        await refresh();
+                        setMsg(`Created event ${ev.name}`);
+                    } catch (e: any) { setErr(e.message); }
+                }}>Create event</button>
             </div>
             <div className="muted" style={{ marginTop: 8, fontSize: 12 }}>
-                Tickets capacity preview: 2^d = {isFinite(Number(depth)) && Number(depth) >= 0 ? (1 << Number(depth)) : '—'}
+                Tickets capacity preview: 2^d = {isFinite(Number(depth)) && Number(depth) >= 0 ? (2 ** Number(depth)) : '—'}
             </div>
             <div className="muted" style={{ marginTop: 4, fontSize: 11 }}>
                 Note: depth must be an integer between 1 and 32
@@ -291,6 +334,16 @@ function IssuerPage() {
                         <div style={{ fontSize: 12, color: '#9aa1b1' }}>Sold so far</div>
                         <div style={{ fontSize: 20 }}>{sold}</div>
                         <div className="muted" style={{ fontSize: 12, marginTop: 6 }}>Total tickets already issued.</div>
+                        {tiers.length > 1 && (
+                            <div style={{ marginTop: 6, fontSize: 12 }}>
+                                {tiers.map(t => (
+                                    <div key={t.id}>
+                                        {t.name}: {t.sold}{t.capacity != null ? ` / ${t.capacity}` : ''}
+                                        <span className="muted"> · {t.priceTdust} tDust</span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
                         <div style={{ marginTop: 8, display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap' }}>
                             <button onClick={() => setBuyersOpen(true)} disabled={!buyers || buyers.length === 0}>View buyers</button>
                             <span className="muted" style={{ fontSize: 11 }}>(consented only)</span>
@@ -315,13 +368,42 @@ function IssuerPage() {
                         <div style={{ fontSize: 12, color: '#9aa1b1' }}>Batch fingerprint (root)</div>
                         <div className="mono" style={{ fontSize: 13 }}>{rootShort}</div>
                         <div className="muted" style={{ fontSize: 12, marginTop: 6 }}>A cryptographic fingerprint representing the entire issued set.</div>
+                        {state?.rootHistorySize != null && (
+                            <div className="muted" style={{ fontSize: 12, marginTop: 4 }}>
+                                Proofs accepted against the last {state.recentRoots?.length ?? 0} of {state.rootHistorySize} roots.
+                            </div>
+                        )}
                     </div>
+                    {publication && (
+                        <div className="card" style={{ margin: 0 }}>
+                            <div style={{ fontSize: 12, color: '#9aa1b1' }}>On-chain publication</div>
+                            <div style={{ fontSize: 20 }}>
+                                {publication.anchored} anchored
+                                <span className="muted" style={{ fontSize: 14, marginLeft: 8 }}>· {publication.pending} pending</span>
+                            </div>
+                            <div className="muted" style={{ fontSize: 12, marginTop: 6 }}>
+                                {!publication.synced ? 'Waiting for the contract state from the indexer.'
+                                    : publication.publisher
+                                        ? `Roots are published in batches: every ${publication.publisher.batchSize} tickets or ${Math.round(publication.publisher.intervalMs / 1000)} s.`
+                                        : 'Following the contract; this server does not publish (TICKETS_CHAIN=sync).'}
+                            </div>
+                            {publication.publisher?.publishing && <div style={{ fontSize: 12, marginTop: 4 }}>Publishing…</div>}
+                            {publication.publisher?.lastPublishedAt != null && (
+                                <div className="muted" style={{ fontSize: 12, marginTop: 4 }}>Last published {new Date(publication.publisher.lastPublishedAt).toLocaleTimeString()}</div>
+                            )}
+                            {publication.publisher?.lastError && <div style={{ color: '#fca5a5', fontSize: 12, marginTop: 4 }}>{publication.publisher.lastError}</div>}
+                        </div>
+                    )}
                 </div>
                 <div style={{ marginTop: 8, fontSize: 12 }} className="muted">
                     Depth explains capacity: depth d ⇒ 2^d tickets max. Leaf count is how many have been issued. Nullifiers are spent tickets.
                 </div>
             </div>
 
+            <BulkIssue eventId={getCurrentEvent()} tiers={tiers} maxAgeMs={state?.maxAgeMs} remaining={remaining} onIssued={refresh} />
+
+            <GateAudit eventId={getCurrentEvent()} />
+
             <h4 style={{ marginTop: 24 }}>Nerd Friendly (raw on-chain state)</h4>
             <div className="card"><pre style={{ margin: 0 }}>{JSON.stringify(state, null, 2)}</pre></div>
             {buyersOpen && (
@@ -374,6 +456,11 @@ function WalletPage() {
     const [secret, setSecret] = useState('');
     const [issuedAt, setIssuedAt] = useState<number | undefined>();
     const [index, setIndex] = useState<number | undefined>();
+    // The issuer's tag from issuance; with it the payload QR is a signed v2 payload
+    const [ticketAuth, setTicketAuth] = useState<PayloadAuth | undefined>();
+    // Seat class; the issuer commits it into the leaf, so it is fixed once issued
+    const [tier, setTier] = useState(0);
+    const [tiers, setTiers] = useState<TicketTier[]>([]);
     const [onchain, setOnchain] = useState<OnchainState | null>(null);
     const [msg, setMsg] = useState<string | null>(null);
     const [err, setErr] = useState<string | null>(null);
@@ -439,7 +526,7 @@ function WalletPage() {
         const s = generateSecretHex();
         // Start a brand‑new ticket: clear any previous issuance index so auto‑save
         // does not update the last buyer entry while the user edits fields.
-        setIndex(undefined);
+        setIndex(undefined); setTicketAuth(undefined);
         setSecret(s);
         setIssuedAt(Date.now());
     }
@@ -450,26 +537,49 @@ function WalletPage() {
         (async () => {
             try {
                 if (!secret || !issuedAt) { setLeafHex(''); setLeafAlreadyIssued(false); return; }
-                const h = await sha256Hex(`${secret}:${issuedAt}`);
+                const h = await leafFromTicket(secret, issuedAt, onchain?.hashAlgorithm, tier);
                 setLeafHex(h);
                 const arr = JSON.parse(localStorage.getItem('issued:leaves') || '[]') as string[];
                 setLeafAlreadyIssued(arr.includes(h));
             } catch { setLeafHex(''); setLeafAlreadyIssued(false); }
         })();
-    }, [secret, issuedAt]);
+    }, [secret, issuedAt, onchain?.hashAlgorithm, tier]);
+    // Holder-side inclusion check: fetch the sibling path, verify it locally and compare the
+    // root with the published one. Keyed by leaf so a stale result never shows for a new ticket.
+    const [inclusion, setInclusion] = useState<{ leaf: string; ok: boolean; text: string } | null>(null);
+    async function checkInclusion(leaf: string) {
+        try {
+            const p = await getProofByLeaf(leaf);
+            const st = await getState();
+            if (!await verifyInclusion(leaf, p, p.root, p.hashAlgorithm)) {
+                setInclusion({ leaf, ok: false, text: 'Merkle proof does not match the issuer root' });
+            } else if (!isRecentRoot(st, p.root)) {
+                setInclusion({ leaf, ok: false, text: 'Issued, but not yet in the published root' });
+            } else {
+                setInclusion({ leaf, ok: true, text: 'Your ticket is in the published batch' });
+            }
+        } catch (e: any) { setInclusion({ leaf, ok: false, text: e.message }); }
+    }
     const [txId, setTxId] = useState('');
     const [price, setPrice] = useState<string>('');
     const [issuerAddr, setIssuerAddr] = useState<string>('');
+    // Payment intent for the current secret + tier: the exact amount that binds the payment to this leaf
+    const [intent, setIntent] = useState<(PaymentIntent & { secret: string }) | null>(null);
+    async function ensureIntent(useSecret: string, useIssuedAt: number): Promise<PaymentIntent> {
+        if (intent && intent.secret === useSecret && intent.tier === tier && intent.expiresAt > Date.now() + 60_000) return intent;
+        const fresh = await createPaymentIntent(useSecret, useIssuedAt, onchain?.hashAlgorithm, tier);
+        setIntent({ ...fresh, secret: useSecret });
+        return fresh;
+    }
     // Load saved wallet address (from Navbar) if available
     useEffect(() => {
         const saved = localStorage.getItem('wallet:address');
         if (saved) { setWalletAddr(saved); setWalletReady(true); }
     }, []);
-    useEffect(() => {
-        (async () => {
-            try { const r = await fetch('/api/payment-info'); const j = await r.json(); if (j.ok) { setIssuerAddr(j.issuerAddress); setPrice(String(j.priceTdust)); } } catch { }
-        })();
-    }, []);
+    async function loadPaymentInfo() {
+        try { const r = await fetch(apiUrl('/payment-info')); const j = await r.json(); if (j.ok) { setIssuerAddr(j.issuerAddress); setPrice(String(j.priceTdust)); setTiers(j.tiers || []); } } catch { }
+    }
+    useEffect(() => { loadPaymentInfo(); }, []);
     // Buyer info is saved only via explicit user action (Save button) when consent is checked.
     // Attempt wallet detection (do not auto-connect; user must click Connect)
     useEffect(() => {
@@ -506,18 +616,20 @@ function WalletPage() {
             useSecret = generateSecretHex();
             useIssuedAt = Date.now();
             // Clear previous index to avoid accidental auto-save updates
-            setIndex(undefined);
+            setIndex(undefined); setTicketAuth(undefined);
             setSecret(useSecret); setIssuedAt(useIssuedAt);
         }
         if (!useSecret || !useIssuedAt) { setErr('Generate ticket first'); return; }
         if (leafAlreadyIssued) { setErr('Leaf already issued'); return; }
         try {
-            const leaf = await sha256Hex(`${useSecret}:${useIssuedAt}`);
+            // Send the commitment; the issuer derives the tier-bound leaf itself
+            const commitment = await ticketCommitment(useSecret, useIssuedAt, onchain?.hashAlgorithm);
             const buyer = buyerConsent ? { name: buyerName, email: buyerEmail, consent: true } : undefined;
-            const res = await fetch('/api/issue-leaf', {
+            // Free tiers for anyone; a signed-in issuer admin may also issue paid ones (comps)
+            const res = await authedFetch(apiUrl('/issue-leaf'), {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify(buyer ? { leaf, buyer } : { leaf })
+                body: JSON.stringify(buyer ? { commitment, tier, buyer } : { commitment, tier })
             });
             const ct = res.headers.get('content-type') || '';
             if (!ct.includes('application/json')) { const text = await res.text(); throw new Error(`Non-JSON response: ${text.slice(0, 100)}`); }
@@ -528,19 +640,22 @@ function WalletPage() {
                 if (/full/i.test(reason)) {
                     setErr('The Merkle tree is full (All tickets are sold!)');
                     // Clear any transient index; keep prior successful ticket intact
-                    setIndex(undefined);
+                    setIndex(undefined); setTicketAuth(undefined);
                 } else {
                     setErr(reason);
                 }
                 return;
             }
-            setIndex(json.index); setOnchain(json.onchain); setMsg('Leaf issued (store secret privately)');
+            setIndex(json.index); setTicketAuth(json.ticketAuth); setOnchain(json.onchain); setMsg('Leaf issued (store secret privately)');
+            loadPaymentInfo(); // refresh per-tier availability
+            const leaf: string = json.leaf;
             try {
                 const key = 'issued:leaves';
                 const arr = JSON.parse(localStorage.getItem(key) || '[]') as string[];
                 if (!arr.includes(leaf)) { arr.push(leaf); localStorage.setItem(key, JSON.stringify(arr)); }
                 setLeafAlreadyIssued(true);
             } catch { /* ignore */ }
+            checkInclusion(leaf);
         } catch (e: any) { setErr(e.message); }
     }
     // Centralized connect handler used by multiple buttons
@@ -605,12 +720,20 @@ function WalletPage() {
         } catch (e: any) { setErr(e?.message || 'connect failed'); }
     }
     // Derive capacity/remaining to disable purchase proactively when sold out
-    const cap = onchain ? (1 << Number(onchain.depth)) : undefined;
+    const cap = onchain ? (2 ** Number(onchain.depth)) : undefined;
     const remaining = cap != null ? Math.max(cap - (onchain?.leafCount ?? 0), 0) : undefined;
+    const selectedTier = tiers.find(t => t.id === tier);
+    const tierSoldOut = selectedTier?.capacity != null && selectedTier.sold >= selectedTier.capacity;
     const soldOut = remaining != null ? remaining <= 0 : false;
+    const shownPrice = String(selectedTier?.priceTdust ?? (price || '10'));
     return (
         <div className="container">
             <h2>Wallet</h2>
+            <EventSelector onChange={() => {
+                // Tickets belong to one event: start fresh instead of issuing the old secret elsewhere
+                setIndex(undefined); setTicketAuth(undefined); setSecret(''); setIssuedAt(undefined); setTier(0); setIntent(null);
+                refresh(); loadPaymentInfo();
+            }} />
             {err && <div style={{ color: 'red' }}>{err}</div>}
             {msg && <div style={{ color: 'green' }}>{msg}</div>}
             {soldOut && (
@@ -652,8 +775,17 @@ function WalletPage() {
                             </button>
                         </div>
                         <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+                            {tiers.length > 1 && (
+                                <select value={tier} disabled={index != null} onChange={e => setTier(Number(e.target.value))} title="Ticket tier (committed into your ticket)">
+                                    {tiers.map(t => (
+                                        <option key={t.id} value={t.id}>
+                                            {t.name} · {t.priceTdust} tDust{t.capacity != null && t.sold >= t.capacity ? ' (sold out)' : ''}
+                                        </option>
+                                    ))}
+                                </select>
+                            )}
                             {!oneStep && <button className="btn-primary" onClick={gen} disabled={soldOut}>Generate Ticket</button>}
-                            <button onClick={issue} disabled={leafAlreadyIssued || soldOut}>{soldOut ? 'the Merkle tree is full (All Tickets are sold)' : (oneStep ? 'Get Ticket' : 'Buy Ticket')}</button>
+                            <button onClick={issue} disabled={leafAlreadyIssued || soldOut || (tierSoldOut && index == null)}>{soldOut ? 'the Merkle tree is full (All Tickets are sold)' : (oneStep ? 'Get Ticket' : 'Buy Ticket')}</button>
                         </div>
                         {oneStep ? (
                             <div className="muted" style={{ fontSize: 12, marginTop: 6 }}>
@@ -687,15 +819,30 @@ function WalletPage() {
                             <strong>Secret:</strong> <code className="mono">{(!oneStep && secret) ? secret : (index != null ? (secret || '—') : '—')}</code><br />
                             <strong>IssuedAt:</strong> {(!oneStep && issuedAt) ? issuedAt : (index != null ? (issuedAt || '—') : '—')}<br />
                             <strong>Index:</strong> {index ?? '—'}
+                            {tiers.length > 1 && <><br /><strong>Tier:</strong> {selectedTier?.name ?? tier}</>}
                             {leafAlreadyIssued && (
                                 <div className="pill" style={{ marginTop: 6 }}>Leaf already issued</div>
                             )}
+                            {leafHex && (index != null || leafAlreadyIssued) && (
+                                <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginTop: 6, flexWrap: 'wrap' }}>
+                                    <button onClick={() => checkInclusion(leafHex)}>Verify inclusion</button>
+                                    {inclusion?.leaf === leafHex && (
+                                        <span style={{ fontSize: 13, color: inclusion.ok ? 'var(--success)' : 'var(--danger)' }}>
+                                            {inclusion.ok ? '✓ ' : '✗ '}{inclusion.text}
+                                        </span>
+                                    )}
+                                </div>
+                            )}
                             <div style={{ marginTop: 12 }}>
                                 {(secret && issuedAt) ? (
                                     <TicketQr
                                         secret={secret}
                                         issuedAt={issuedAt}
                                         index={index}
+                                        tier={tier}
+                                        tierName={selectedTier?.name}
+                                        eventId={getCurrentEvent()}
+                                        auth={ticketAuth}
                                         walletAddress={walletAddr}
                                         onSaved={(r) => setMsg(`Ticket saved locally for wallet (index ${r.index}).`)}
                                     />
@@ -714,12 +861,15 @@ function WalletPage() {
                     <div><strong>Buy with Lace Midnight Preview</strong></div>
                     <div className="muted" style={{ fontSize: 12 }}>Connect your wallet to buy a ticket. Or pay manually and paste the txId.</div>
                     <div style={{ marginTop: 8 }}>Issuer Address: <code>{issuerAddr || '—'}</code></div>
-                    <div>Price (tDust): <code>{price || '10'}</code></div>
+                    <div>Price (tDust): <code>{shownPrice}</code>{selectedTier && tiers.length > 1 ? ` (${selectedTier.name})` : ''}</div>
+                    {intent && intent.secret === secret && intent.tier === tier && (
+                        <div>Amount to pay (exact): <code>{intent.amountTdust}</code> tDust, until {new Date(intent.expiresAt).toLocaleTimeString()}</div>
+                    )}
                     <div>Wallet Address: <code>{walletAddr || 'not connected'}</code></div>
                     {walletAddr === 'unknown' && <div style={{ fontSize: 12, color: '#ff8a8a' }}>Wallet connected but did not expose an address. You can still proceed to buy; the txId will be captured from the wallet response.</div>}
                     <div style={{ display: 'flex', gap: 8, marginTop: 6, flexWrap: 'wrap' }}>
                         <button onClick={async () => { try { await navigator.clipboard.writeText(issuerAddr || ''); setMsg('Issuer address copied'); } catch { setErr('Clipboard write failed'); } }}>Copy Issuer Address</button>
-                        <button onClick={async () => { try { await navigator.clipboard.writeText(String(price || '10')); setMsg('Price copied'); } catch { setErr('Clipboard write failed'); } }}>Copy Price</button>
+                        <button onClick={async () => { try { await navigator.clipboard.writeText(intent?.amountTdust || shownPrice); setMsg('Amount copied'); } catch { setErr('Clipboard write failed'); } }}>Copy Amount</button>
                         <button onClick={async () => { try { const t = await navigator.clipboard.readText(); setTxId(t.trim()); setMsg('Pasted txId from clipboard'); } catch { setErr('Clipboard read failed'); } }}>Paste txId from Clipboard</button>
                     </div>
                     <div style={{ display: 'flex', gap: 8, marginTop: 8 }}>
@@ -768,33 +918,20 @@ function WalletPage() {
                                 const w = await detectWallet();
                                 if (!w) { setErr('Wallet not detected'); setAutoPayBusy(false); return; }
                                 if (!issuerAddr) { setErr('Issuer address unavailable'); setAutoPayBusy(false); return; }
-                                const amount = Number(price || '10');
-                                let payResult: { txId: string } | null = null;
+                                // The intent ties this payment to our commitment before any money moves
+                                const bound = await ensureIntent(useSecret, useIssuedAt);
+                                const payResult = await payForIntent(w, bound);
+                                if (!payResult?.txId) throw new Error('Payment did not return a txId');
+                                setTxId(payResult.txId);
+                                const buyer = buyerConsent ? { name: buyerName, email: buyerEmail, consent: true } : undefined;
                                 try {
-                                    payResult = await w.pay(issuerAddr, amount);
+                                    const j = await paidIssue(bound.intentId, payResult.txId, buyer);
+                                    setIndex(j.index); setTicketAuth(j.ticketAuth); setOnchain(j.onchain); setMsg('Ticket purchased and issued');
                                 } catch (e: any) {
-                                    // Try builder-based path if available
-                                    if (typeof (w as any).buildAndSubmitPayment === 'function') {
-                                        payResult = await (w as any).buildAndSubmitPayment(issuerAddr, amount);
-                                    } else {
-                                        throw e;
-                                    }
+                                    const rr = e?.message || 'purchase failed';
+                                    // Payment went out; keep the intent so "Record Payment" can retry once it finalizes
+                                    if (/full/i.test(String(rr))) setErr('the Merkle tree is full (All Tickets are sold)'); else setErr(`${rr} (txId kept; retry with Record Payment)`);
                                 }
-                                if (!payResult) throw new Error('Payment did not return a txId');
-                                const newTxId = payResult.txId;
-                                const leaf = await sha256Hex(`${useSecret}:${useIssuedAt}`);
-                                const buyer = buyerConsent ? { name: buyerName, email: buyerEmail, consent: true } : undefined;
-                                const r = await fetch('/api/paid-issue', {
-                                    method: 'POST',
-                                    headers: { 'Content-Type': 'application/json' },
-                                    body: JSON.stringify(buyer ? { leaf, txId: newTxId, buyer } : { leaf, txId: newTxId })
-                                });
-                                const j = await r.json();
-                                if (!j.ok) {
-                                    const rr = j.reason || 'purchase failed';
-                                    if (/full/i.test(String(rr))) setErr('the Merkle tree is full (All Tickets are sold)'); else setErr(rr);
-                                }
-                                else { setIndex(j.index); setOnchain(j.onchain); setMsg('Ticket purchased and issued'); }
                             } catch (e: any) {
                                 // If wallet does not expose a builder, guide manual send
                                 const emsg = e?.message || 'purchase failed';
@@ -808,29 +945,29 @@ function WalletPage() {
                         }}>{soldOut ? 'The Merkle tree is full (All tickets are sold!)' : 'Buy Ticket with Wallet'}</button>
                     </div>
                     <div style={{ display: 'flex', gap: 8, marginTop: 8 }}>
+                        <button disabled={soldOut || index != null} onClick={async () => {
+                            setErr(null); setMsg(null);
+                            if (!secret || !issuedAt) { setErr('Generate ticket first'); return; }
+                            try { const bound = await ensureIntent(secret, issuedAt); setMsg(`Send exactly ${bound.amountTdust} tDust`); }
+                            catch (e: any) { setErr(e.message || 'payment intent failed'); }
+                        }}>Get Payment Amount</button>
                         <input placeholder="txId" value={txId} onChange={e => setTxId(e.target.value)} style={{ flex: '1 1 320px' }} />
                         <button className="btn-primary" disabled={soldOut} onClick={async () => {
                             if (!secret || !issuedAt) { setErr('Generate ticket first'); return; }
+                            // The amount paid must be the one quoted for this secret + tier
+                            if (!intent || intent.secret !== secret || intent.tier !== tier) { setErr('Get the payment amount first and pay exactly that'); return; }
                             try {
-                                const leaf = await sha256Hex(`${secret}:${issuedAt}`);
                                 const buyer = buyerConsent ? { name: buyerName, email: buyerEmail, consent: true } : undefined;
-                                const r = await fetch('/api/paid-issue', {
-                                    method: 'POST',
-                                    headers: { 'Content-Type': 'application/json' },
-                                    body: JSON.stringify(buyer ? { leaf, txId, buyer } : { leaf, txId })
-                                });
-                                const j = await r.json();
-                                if (!j.ok) {
-                                    const rr = j.reason || 'paid issue failed';
-                                    setErr(/full/i.test(String(rr)) ? 'The Merkle tree is full (All tickets are sold!)' : rr);
-                                    return;
-                                }
-                                setIndex(j.index); setOnchain(j.onchain); setMsg('Paid issuance completed');
-                            } catch (e: any) { setErr(e.message || 'paid issue failed'); }
+                                const j = await paidIssue(intent.intentId, txId, buyer);
+                                setIndex(j.index); setTicketAuth(j.ticketAuth); setOnchain(j.onchain); setMsg('Paid issuance completed');
+                            } catch (e: any) {
+                                const rr = e?.message || 'paid issue failed';
+                                setErr(/full/i.test(String(rr)) ? 'The Merkle tree is full (All tickets are sold!)' : rr);
+                            }
                         }}>Record Payment (Paste txId)</button>
                     </div>
                     {!walletReady && <div style={{ fontSize: 11, color: '#ff8a8a' }}>Wallet not connected; you can still pay manually and paste the txId.</div>}
-                    <div className="muted" style={{ fontSize: 11, marginTop: 6 }}>Manual send instructions: In your wallet, send <strong>{price || '10'}</strong> tDust to <code>{issuerAddr || '—'}</code>. After broadcast, copy the transaction ID and paste it above.</div>
+                    <div className="muted" style={{ fontSize: 11, marginTop: 6 }}>Manual send instructions: click Get Payment Amount, then in your wallet send <strong>exactly {intent && intent.secret === secret && intent.tier === tier ? intent.amountTdust : 'the quoted amount'}</strong> tDust to <code>{issuerAddr || '—'}</code>. The amount ties the payment to this ticket, so do not round it. After broadcast, copy the transaction ID and paste it above.</div>
                     <div style={{ marginTop: 10 }}>
                         <button onClick={() => setShowDebug(d => !d)}>Toggle Wallet Debug</button>
                         {showDebug && <div className="card" style={{ marginTop: 8, fontSize: 12 }}>
@@ -941,77 +1078,151 @@ function ScannerPage() {
     const [secret, setSecret] = useState('');
     const [issuedAt, setIssuedAt] = useState<number | undefined>(undefined);
     const [nullifier, setNullifier] = useState('');
+    const [tier, setTier] = useState(0); // from the QR payload
+    // Gate policy: '' admits any tier, otherwise only that tier (e.g. the VIP entrance)
+    const [requiredTier, setRequiredTier] = useState('');
+    const [tiers, setTiers] = useState<TicketTier[]>([]);
     const [onchain, setOnchain] = useState<OnchainState | null>(null);
+    const [device, setDevice] = useState<ScannerDevice | null>(null);
+    const [eventId, setEventId] = useState(getCurrentEvent());
+    const offline = useOfflineScanner(eventId);
     const [msg, setMsg] = useState<string | null>(null); const [err, setErr] = useState<string | null>(null);
+    // Outcome of the last check, shown large for the gate: admitted, refused (with the reason) or needs input
+    const [verdict, setVerdict] = useState<{ tone: 'ok' | 'bad' | 'info'; text: string } | null>(null);
+    const [checking, setChecking] = useState(false);
+    // The payload the fields came from, sent as is so the server checks its issuer tag; cleared
+    // once the fields are edited by hand
+    const [scannedPayload, setScannedPayload] = useState<string | undefined>();
     const { success, error } = useToast();
-    async function refresh() { try { setOnchain(await getState()); } catch (e: any) { setErr(e.message); } }
+    function admitted(text: string) { setMsg(text); setVerdict({ tone: 'ok', text }); }
+    function refused(reason: string, detail = reason) { setErr(detail); setVerdict({ tone: 'bad', text: reason }); }
+    async function refresh() {
+        setOnchain(null);
+        if (!navigator.onLine) return; // the offline bundle stands in
+        try { setOnchain(await getState()); } catch (e: any) { setErr(e.message); }
+        getTiers().then(setTiers).catch(() => { });
+    }
+    // Offline the tier choices come from the bundle
+    const tierChoices: Array<{ id: number; name: string }> = tiers.length > 0 ? tiers : offline.bundle?.tiers ?? [];
     useEffect(() => { refresh(); }, []);
     useEffect(() => { if (msg) success(msg); }, [msg, success]);
     useEffect(() => { if (err) error(err); }, [err, error]);
     // Parse QR payload from hash or query
     useEffect(() => {
         try {
-            const url = new URL(window.location.href);
-            let payload: string | null = null;
-            if (url.hash.startsWith('#ticket=')) payload = decodeURIComponent(url.hash.slice('#ticket='.length));
-            if (!payload) payload = url.searchParams.get('ticket');
-            if (payload && payload.startsWith('midnight-ticket:v1:')) {
-                const parts = payload.split(':');
-                if (parts.length >= 5) {
-                    const s = parts[2];
-                    const iat = Number(parts[3]);
-                    setSecret(s);
-                    if (isFinite(iat)) setIssuedAt(iat);
-                    sha256Hex(`nullifier:${s}`).then(n => setNullifier(n));
-                    setMsg('Loaded ticket from QR link');
-                }
-            }
+            const payload = payloadFromScanUrl(window.location.href);
+            if (!payload) return;
+            let ticket: AnyTicketPayload;
+            try { ticket = decodeAnyTicketPayload(payload); } catch (e: any) { setErr(e.message); return; }
+            setScannedPayload(payload);
+            setSecret(ticket.secret);
+            setIssuedAt(ticket.issuedAt);
+            setTier(ticket.tier ?? 0);
+            // State may not be loaded yet; fetch it so the nullifier uses the issuer's hash
+            getState().then(st => nullifierFromSecret(ticket.secret, st.hashAlgorithm, derivationOf(st))).then(n => setNullifier(n)).catch(() => { });
+            setMsg('Loaded ticket from QR link');
         } catch { /* ignore */ }
     }, []);
+    const fields = { secret, issuedAt, tier, payload: scannedPayload };
     async function derive() {
         try {
             if (!secret) { setErr('Enter secret'); return; }
-            const n = await sha256Hex(`nullifier:${secret}`);
+            const n = await nullifierFromSecret(secret, onchain?.hashAlgorithm, onchain ? derivationOf(onchain) : undefined);
             setNullifier(n); setMsg('Derived nullifier from secret');
         } catch (e: any) { setErr(e.message); }
     }
-    async function record() {
+    // Checks in the ticket in the fields, or the one just scanned
+    async function record(scanned?: { secret: string; issuedAt: number; tier: number; payload?: string }) {
+        const { secret, issuedAt, tier, payload } = scanned ?? fields;
+        setErr(null); setMsg(null); setVerdict(null); setChecking(true);
         try {
             if (!secret || !issuedAt) { setErr('Scan the QR first; issuedAt missing'); return; }
-            // Always ask the server to validate and derive nullifier; never send a raw nullifier
-            const resp = await fetch('/api/record-nullifier', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ secret, issuedAt }) });
+            if (offline.offline && !offline.bundle) { refused('No offline data for this event; download it while online'); return; }
+            const ticket = { secret, issuedAt, tier, requiredTier: requiredTier === '' ? undefined : Number(requiredTier), payload };
+            const st = onchain ?? offline.bundle ?? await getState();
+            const n = await nullifierFromSecret(secret, st.hashAlgorithm, derivationOf(st));
+            // The device signs the nullifier it derived, which the server checks against its own.
+            const signed = device ? await signCheckIn(eventId, n) : undefined;
+            if (offline.offline) { await recordOffline(ticket, n, signed); return; }
+            // Always ask the server to validate and derive nullifier; never send a raw nullifier.
+            let resp: Response;
+            try {
+                resp = await authedFetch(apiUrl('/record-nullifier'), { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(payload ? { payload, requiredTier: ticket.requiredTier, device: signed } : { ...ticket, device: signed }) });
+            } catch {
+                // Network failure: fall back to the local check rather than holding up the gate
+                if (offline.bundle) await recordOffline(ticket, n, signed);
+                else refused('Server unreachable and no offline data for this event');
+                return;
+            }
             let json: any = null;
             try { json = await resp.json(); } catch { /* ignore */ }
             if (!resp.ok || !json?.ok) {
                 const reason = String(json?.reason || 'record failed');
                 // If server is outdated and asks for nullifier, surface a clear message
                 if (/missing\s*nullifier|provide\s*nullifier/i.test(reason)) {
-                    setErr('Server requires a precomputed nullifier (insecure). Please update the backend to the hardened version.');
+                    refused(reason, 'Server requires a precomputed nullifier (insecure). Please update the backend to the hardened version.');
                 } else if (/not\s*found/i.test(reason)) {
-                    setErr('Invalid secret or issuedAt (not found).');
+                    refused(reason, 'Invalid secret or issuedAt (not found).');
                 } else {
-                    setErr(reason);
+                    refused(reason);
                 }
+                if (json?.nullifier) setNullifier(json.nullifier);
                 return;
             }
             setOnchain(json.onchain);
             setNullifier(json.nullifier || '');
-            setMsg('Nullifier recorded');
-        } catch (e: any) { setErr(e.message); }
+            const where = json.checkIn?.deviceId ? ` at gate ${json.checkIn.gateId}` : '';
+            admitted(tierChoices.length > 1 && json.tier ? `Nullifier recorded${where} (${json.tier})` : `Nullifier recorded${where}`);
+        } catch (e: any) { refused(e.message); } finally { setChecking(false); }
+    }
+    async function recordOffline(ticket: OfflineTicket, n: string, signed?: SignedCheckIn) {
+        const result = await offline.admit(ticket, n, signed);
+        if (result.nullifier) setNullifier(result.nullifier);
+        if (result.ok) admitted('Admitted offline; check-in queued for sync');
+        else refused(`${result.reason} (offline check)`);
+    }
+    // A code from the camera: payload and URL codes are checked in right away; a secret-only code
+    // lacks issuedAt, so it only fills in the secret
+    function onScan(text: string) {
+        let scanned: ScannedTicket;
+        try { scanned = parseScannedTicket(text); } catch (e: any) { refused(e.message); return; }
+        setNullifier('');
+        if (scanned.mode === 'secret') {
+            setSecret(scanned.secret); setIssuedAt(undefined); setScannedPayload(undefined);
+            setErr(null); setMsg(null);
+            setVerdict({ tone: 'info', text: 'Secret-only QR: enter issuedAt, then Record' });
+            return;
+        }
+        const { secret, issuedAt, tier = 0 } = scanned.ticket;
+        setSecret(secret); setIssuedAt(issuedAt); setTier(tier); setScannedPayload(scanned.payload);
+        record({ secret, issuedAt, tier, payload: scanned.payload });
     }
     return (
         <div className="container">
             <h2>Scanner</h2>
+            <DeviceRegistration onChange={setDevice} />
+            <EventSelector onChange={() => { setNullifier(''); setRequiredTier(''); setEventId(getCurrentEvent()); refresh(); }} />
+            <OfflinePanel scanner={offline} />
+            <QrCamera onScan={onScan} paused={checking} />
+            {verdict && (
+                <div style={{
+                    padding: '14px 16px', margin: '8px 0', borderRadius: 8, fontSize: 20, fontWeight: 600, color: '#fff',
+                    background: verdict.tone === 'ok' ? '#15803d' : verdict.tone === 'bad' ? '#b91c1c' : '#475569'
+                }}>
+                    {verdict.tone === 'ok' ? '✓ ' : verdict.tone === 'bad' ? '✗ ' : ''}{verdict.text}
+                </div>
+            )}
             {err && <div style={{ color: 'red' }}>{err}</div>}
             {msg && <div style={{ color: 'green' }}>{msg}</div>}
             <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', alignItems: 'center' }}>
-                <input style={{ width: '35%' }} placeholder="secret (from QR)" value={secret} onChange={e => setSecret(e.target.value)} />
+                <input style={{ width: '35%' }} placeholder="secret (from QR)" value={secret} onChange={e => { setSecret(e.target.value); setScannedPayload(undefined); }} />
                 <input
                     style={{ width: '25%' }}
                     placeholder="issuedAt (ms)"
                     value={issuedAt ?? ''}
                     onChange={e => {
                         const v = e.target.value.trim();
+                        setScannedPayload(undefined);
                         if (!v) { setIssuedAt(undefined); return; }
                         const num = Number(v);
                         if (isFinite(num)) setIssuedAt(num);
@@ -1019,8 +1230,25 @@ function ScannerPage() {
                 />
                 <button className="btn-primary" onClick={derive}>Use secret → nullifier</button>
                 <input style={{ width: '30%' }} placeholder="nullifier (auto)" value={nullifier} readOnly />
-                <button className="btn-primary" onClick={record}>Record Nullifier</button>
+                <button className="btn-primary" disabled={checking} onClick={() => record()}>Record Nullifier</button>
             </div>
+            {tierChoices.length > 1 && (
+                <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', alignItems: 'center', marginTop: 8 }}>
+                    <label style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                        <span className="muted">Ticket tier</span>
+                        <select value={tier} onChange={e => setTier(Number(e.target.value))}>
+                            {tierChoices.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                        </select>
+                    </label>
+                    <label style={{ display: 'flex', alignItems: 'center', gap: 8 }} title="Only tickets of this tier are admitted; nothing else about the ticket is checked or shown">
+                        <span className="muted">Gate admits</span>
+                        <select value={requiredTier} onChange={e => setRequiredTier(e.target.value)}>
+                            <option value="">Any tier</option>
+                            {tierChoices.map(t => <option key={t.id} value={String(t.id)}>{t.name} only</option>)}
+                        </select>
+                    </label>
+                </div>
+            )}
             <div className="muted" style={{ fontSize: 11, marginTop: 6 }}>For security, you must scan the ticket QR (contains issuedAt) before recording.</div>
             <p><Link to="/real/wallet">Back to Wallet</Link></p>
         </div>
@@ -1035,11 +1263,11 @@ export default function App() {
                 <Navbar />
                 <div className="main-wrap">
                     <Routes>
-                        <Route path="/demo" element={<DemoPage />} />
+                        <Route path="/demo" element={<LoginGate role="admin"><DemoPage /></LoginGate>} />
                         <Route path="/real" element={<Landing />} />
-                        <Route path="/real/issuer" element={<IssuerPage />} />
+                        <Route path="/real/issuer" element={<LoginGate role="admin"><IssuerPage /></LoginGate>} />
                         <Route path="/real/wallet" element={<WalletPage />} />
-                        <Route path="/real/scanner" element={<ScannerPage />} />
+                        <Route path="/real/scanner" element={<LoginGate role="scanner"><ScannerPage /></LoginGate>} />
                         <Route path="*" element={<Landing />} />
                     </Routes>
                 </div>
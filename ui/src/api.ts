@@ -1,23 +1,160 @@
-export type OnchainState = { version: number; root: string; maxAgeMs: number; nullifiers: string[]; leafCount: number; depth: number };
-export type Ticket = { secret: string; issuedAt: number; index: number };
-import { sha256Hex } from './crypto';
+export type OnchainState = { version: number; root: string; maxAgeMs: number; nullifierCount: number; leafCount: number; depth: number; hashAlgorithm?: HashAlgorithm; derivation?: TicketDerivation; recentRoots?: Array<{ root: string; at: number }>; rootHistorySize?: number };
+export type Ticket = { secret: string; issuedAt: number; index: number; tier?: number; publication?: 'anchored' | 'pending' };
+export type PublisherStatus = { publishing: boolean; batchSize: number; intervalMs: number; nextRoundAt: number | null; lastPublishedAt: number | null; lastError: string | null };
+// Tickets under the confirmed on-chain root vs. waiting for the next batched root; null when the event is not linked to a contract
+export type PublicationSummary = { synced: boolean; anchored: number; pending: number; publisher: PublisherStatus | null };
+export type TicketTier = { id: number; name: string; priceTdust: number; capacity?: number; sold: number };
+export type MerkleProofResponse = { ok: true; index: number; leaf: string; siblings: string[]; root: string; leafCount: number; depth: number; hashAlgorithm: HashAlgorithm };
+import { ticketCommitment, type HashAlgorithm, type PayloadAuth, type TicketDerivation } from './crypto';
+import type { PaymentIntent } from './wallet';
+import type { SignedCheckIn } from './device';
+import type { ScannerBundle, SyncResult } from './offline';
 
 const base = '';
 
+// Selected event, persisted so the Issuer, Wallet and Scanner pages stay on the same show
+let currentEvent = (() => { try { return localStorage.getItem('ui:event') || 'default'; } catch { return 'default'; } })();
+export function getCurrentEvent(): string { return currentEvent; }
+export function setCurrentEvent(id: string) {
+    currentEvent = id;
+    try { localStorage.setItem('ui:event', id); } catch { /* ignore */ }
+}
+
+// Event-scoped API path; the default event keeps the original /api/... routes
+export function apiUrl(path: string): string {
+    return apiUrlFor(currentEvent, path);
+}
+export function apiUrlFor(eventId: string, path: string): string {
+    return eventId === 'default' ? `${base}/api${path}` : `${base}/api/events/${encodeURIComponent(eventId)}${path}`;
+}
+
+// Admin/scanner session (see /api/auth/*). Kept per tab; buyers never sign in.
+export type Role = 'admin' | 'scanner';
+export type AuthSession = { token: string; role: Role; name: string; expiresAt: number };
+
+let authSession: AuthSession | null = (() => { try { return JSON.parse(sessionStorage.getItem('ui:auth') || 'null'); } catch { return null; } })();
+
+export function getAuth(): AuthSession | null {
+    return authSession && authSession.expiresAt > Date.now() ? authSession : null;
+}
+function setAuth(session: AuthSession | null) {
+    authSession = session;
+    try { session ? sessionStorage.setItem('ui:auth', JSON.stringify(session)) : sessionStorage.removeItem('ui:auth'); } catch { /* ignore */ }
+    window.dispatchEvent(new Event('ui:auth'));
+}
+export function signOut() { setAuth(null); }
+
+// Bearer header for admin/scanner routes; a 401 means the session is gone, so it is dropped
+function authHeaders(): Record<string, string> {
+    const session = getAuth();
+    return session ? { Authorization: `Bearer ${session.token}` } : {};
+}
+export async function authedFetch(input: string, init: RequestInit = {}): Promise<Response> {
+    const res = await fetch(input, { ...init, headers: { ...(init.headers as Record<string, string> | undefined), ...authHeaders() } });
+    if (res.status === 401 && getAuth()) signOut();
+    return res;
+}
+
+// Whether the server asks for sign-in at all (false with TICKETS_AUTH=off)
+export async function authRequired(): Promise<boolean> {
+    const res = await fetch(`${base}/api/auth/me`, { cache: 'no-store' });
+    const body = await res.json();
+    return body?.authRequired !== false;
+}
+
+async function startSession(res: Response): Promise<AuthSession> {
+    const body = await res.json().catch(() => null);
+    if (!res.ok || !body?.ok) throw new Error(body?.reason || 'sign-in failed');
+    const session: AuthSession = { token: body.token, role: body.role, name: body.name, expiresAt: body.expiresAt };
+    setAuth(session);
+    return session;
+}
+
+export async function loginWithApiKey(apiKey: string): Promise<AuthSession> {
+    return startSession(await fetch(`${base}/api/auth/login`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ apiKey }) }));
+}
+
+// Challenge-response: `sign` signs the server's message with a wallet key registered for a role
+export async function loginWithWallet(sign: (message: string) => Promise<{ signature: string; verifyingKey: string }>): Promise<AuthSession> {
+    const res = await fetch(`${base}/api/auth/challenge`, { method: 'POST' });
+    const body = await res.json().catch(() => null);
+    if (!res.ok || !body?.ok) throw new Error(body?.reason || 'challenge failed');
+    const { signature, verifyingKey } = await sign(body.message);
+    return startSession(await fetch(`${base}/api/auth/wallet`, {
+        method: 'POST', headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ verifyingKey, challenge: body.challenge, signature })
+    }));
+}
+
+// Init and reset wipe the event, so the server wants a fresh confirmation token for each
+async function confirmation(action: 'init' | 'reset'): Promise<string> {
+    const res = await authedFetch(apiUrl('/confirm'), { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ action }) });
+    const body = await res.json().catch(() => null);
+    if (!res.ok || !body?.ok) throw new Error(body?.reason || 'confirmation failed');
+    return body.token;
+}
+
+export type EventSummary = {
+    id: string; name: string; priceTdust: number; createdAt: number;
+    initialized: boolean; depth: number; maxAgeMs: number; leafCount: number; root: string; tiers: TicketTier[];
+};
+
+export async function listEvents(): Promise<EventSummary[]> {
+    const res = await fetch(`${base}/api/events`, { cache: 'no-store' });
+    const body = await res.json();
+    if (!res.ok || !body?.ok) throw new Error(body?.reason || 'events failed');
+    return body.events;
+}
+
+export async function createEvent(params: {
+    id: string; name: string; priceTdust: number; maxAgeHours: number; depth: number; hashAlgorithm?: HashAlgorithm; rootHistorySize?: number;
+    tiers?: string; // "General:10, VIP:50:16" (name:price[:capacity])
+}): Promise<EventSummary> {
+    const res = await authedFetch(`${base}/api/events`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(params) });
+    const body = await res.json();
+    if (!res.ok || !body?.ok) throw new Error(body?.reason || 'create event failed');
+    return body.event;
+}
+
 export async function getState(): Promise<OnchainState> {
-    const res = await fetch(`${base}/api/state`);
+    const res = await fetch(apiUrl('/state'));
     if (!res.ok) throw new Error('failed');
     return res.json();
 }
 
-export async function getTickets(): Promise<{ tickets: Ticket[] }> {
-    const res = await fetch(`${base}/api/tickets`);
+export async function getTickets(): Promise<{ tickets: Ticket[]; publication: PublicationSummary | null }> {
+    const res = await authedFetch(apiUrl('/tickets'));
     if (!res.ok) throw new Error('failed');
     return res.json();
 }
 
-export async function initSystem(maxAgeHours: number, depth: number): Promise<OnchainState> {
-    const res = await fetch(`${base}/api/init`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ maxAgeHours, depth }) });
+// True when `root` is the published root or still inside the recent-roots window
+export function isRecentRoot(state: OnchainState, root: string): boolean {
+    return state.root === root || (state.recentRoots || []).some(r => r.root === root);
+}
+
+// Sibling path + the issuer root it was computed against (verify locally with verifyInclusion)
+async function fetchProof(path: string): Promise<MerkleProofResponse> {
+    const res = await fetch(apiUrl(`/proof/${path}`));
+    const ct = res.headers.get('content-type') || '';
+    const body: any = ct.includes('application/json') ? await res.json() : { ok: false, reason: `Non-JSON response (${res.status})` };
+    if (!res.ok || !body?.ok) throw new Error(body?.reason || 'proof failed');
+    return body;
+}
+
+export const getProof = (index: number) => fetchProof(String(index));
+export const getProofByLeaf = (leaf: string) => fetchProof(`by-leaf/${encodeURIComponent(leaf)}`);
+
+export async function getTiers(): Promise<TicketTier[]> {
+    const res = await fetch(apiUrl('/tiers'), { cache: 'no-store' });
+    const body = await res.json();
+    if (!res.ok || !body?.ok) throw new Error(body?.reason || 'tiers failed');
+    return body.tiers;
+}
+
+export async function initSystem(maxAgeHours: number, depth: number, hashAlgorithm: HashAlgorithm = 'sha256', rootHistorySize?: number, tiers?: string): Promise<OnchainState> {
+    const confirm = await confirmation('init');
+    const res = await authedFetch(apiUrl('/init'), { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ maxAgeHours, depth, hashAlgorithm, rootHistorySize, tiers, confirm }) });
     const ct = res.headers.get('content-type') || '';
     let body: any = null;
     if (ct.includes('application/json')) body = await res.json();
@@ -26,14 +163,23 @@ export async function initSystem(maxAgeHours: number, depth: number): Promise<On
     return body;
 }
 
-export async function issueTicket(): Promise<{ ticket: Ticket; onchain: OnchainState }> {
-    const res = await fetch(`${base}/api/issue`, { method: 'POST' });
-    if (!res.ok) throw new Error('failed');
-    return res.json();
+export async function issueTicket(tier = 0): Promise<{ ticket: Ticket; onchain: OnchainState }> {
+    const res = await authedFetch(apiUrl('/issue'), { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ tier }) });
+    const body = await res.json().catch(() => null);
+    if (!res.ok) throw new Error(body?.reason || 'failed');
+    return body;
+}
+
+// Bulk issuance: one root for the whole batch; each ticket comes with its v1 QR payload
+export async function issueBatch(count: number, tier = 0): Promise<{ tickets: Array<Ticket & { payload: string }>; onchain: OnchainState }> {
+    const res = await authedFetch(apiUrl('/issue-batch'), { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ count, tier }) });
+    const body = await res.json().catch(() => null);
+    if (!res.ok || !body?.ok) throw new Error(body?.reason || 'batch issue failed');
+    return body;
 }
 
 export async function redeemTicket(secret: string, issuedAt: number): Promise<{ ok: true; nullifier: string; onchain: OnchainState } | { ok: false; reason: string }> {
-    const res = await fetch(`${base}/api/redeem`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ secret, issuedAt }) });
+    const res = await authedFetch(apiUrl('/redeem'), { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ secret, issuedAt }) });
     const ct = res.headers.get('content-type') || '';
     let body: any = null;
     if (ct.includes('application/json')) {
@@ -51,8 +197,9 @@ export async function redeemTicket(secret: string, issuedAt: number): Promise<{
     return { ok: false, reason: 'Malformed server response' };
 }
 
-export async function redeemLeaf(secret: string, issuedAt: number): Promise<{ ok: true; nullifier: string; onchain: OnchainState } | { ok: false; reason: string }> {
-    const res = await fetch(`${base}/api/redeem-leaf`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ secret, issuedAt }) });
+// `requiredTier` is the gate policy (e.g. VIP entrance); the server only answers yes/no
+export async function redeemLeaf(secret: string, issuedAt: number, tier = 0, requiredTier?: number, device?: SignedCheckIn): Promise<{ ok: true; nullifier: string; onchain: OnchainState; tier?: string } | { ok: false; reason: string }> {
+    const res = await authedFetch(apiUrl('/redeem-leaf'), { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ secret, issuedAt, tier, requiredTier, device }) });
     const ct = res.headers.get('content-type') || '';
     let body: any = null;
     if (ct.includes('application/json')) body = await res.json();
@@ -63,38 +210,116 @@ export async function redeemLeaf(secret: string, issuedAt: number): Promise<{ ok
 }
 
 export async function resetAll(): Promise<{ ok: true }> {
-    const attempt = async (method: 'POST' | 'GET') => {
-        const res = await fetch(`${base}/api/reset`, { method });
-        const ct = res.headers.get('content-type') || '';
-        if (ct.includes('application/json')) {
-            const json = await res.json();
-            return { ok: res.ok, json };
-        } else {
-            const text = await res.text();
-            return { ok: res.ok, json: { ok: false, reason: `Non-JSON response (${res.status}): ${text.slice(0, 100)}` } };
-        }
-    };
-    let r = await attempt('POST');
-    if (!r.ok || !r.json?.ok) {
-        r = await attempt('GET');
-    }
-    if (!r.ok || !r.json?.ok) {
-        throw new Error(r.json?.reason || 'reset failed');
-    }
+    const confirm = await confirmation('reset');
+    const res = await authedFetch(apiUrl('/reset'), { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ confirm }) });
+    const ct = res.headers.get('content-type') || '';
+    const body: any = ct.includes('application/json') ? await res.json() : { ok: false, reason: `Non-JSON response (${res.status}): ${(await res.text()).slice(0, 100)}` };
+    if (!res.ok || !body?.ok) throw new Error(body?.reason || 'reset failed');
     return { ok: true };
 }
 
+// Gate scanner devices (shared by all events) and the event's gate audit log
+export type ScannerDevice = { id: string; gateId: string; name: string; publicKey: string; registeredAt: number; registeredBy: string; revokedAt?: number };
+export type GateLogEntry = {
+    seq: number; eventId: string; gateId: string; deviceId: string | null; nullifier: string; at: number; receivedAt: number;
+    principal: string; signature: string | null; prevHash: string; hash: string;
+};
+export type GateSummary = { gateId: string; checkIns: number; devices: string[]; first: number; last: number };
+export type GateLogCheck = { ok: true; length: number; head: string } | { ok: false; length: number; brokenAt: number; reason: string };
+// A ticket let in twice, found when an offline scanner synced; `first` is the log entry that spent it
+export type CheckInConflict = {
+    eventId: string; nullifier: string; gateId: string; deviceId: string | null; at: number; receivedAt: number; principal: string;
+    first: { seq: number; gateId: string; deviceId: string | null; at: number; receivedAt: number } | null;
+};
+
+export async function registerDevice(gateId: string, name: string, publicKey: string): Promise<ScannerDevice> {
+    const res = await authedFetch(`${base}/api/devices`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ gateId, name, publicKey }) });
+    const body = await res.json().catch(() => null);
+    if (!res.ok || !body?.ok) throw new Error(body?.reason || 'device registration failed');
+    return body.device;
+}
+
+// null when the server does not know the device
+export async function getDevice(id: string): Promise<ScannerDevice | null> {
+    const res = await authedFetch(`${base}/api/devices/${encodeURIComponent(id)}`);
+    if (res.status === 404) return null;
+    const body = await res.json().catch(() => null);
+    if (!res.ok || !body?.ok) throw new Error(body?.reason || 'device lookup failed');
+    return body.device;
+}
+
+export async function listDevices(): Promise<ScannerDevice[]> {
+    const res = await authedFetch(`${base}/api/devices`);
+    const body = await res.json().catch(() => null);
+    if (!res.ok || !body?.ok) throw new Error(body?.reason || 'devices failed');
+    return body.devices;
+}
+
+export async function revokeDevice(id: string): Promise<ScannerDevice> {
+    const res = await authedFetch(`${base}/api/devices/${encodeURIComponent(id)}/revoke`, { method: 'POST' });
+    const body = await res.json().catch(() => null);
+    if (!res.ok || !body?.ok) throw new Error(body?.reason || 'revoke failed');
+    return body.device;
+}
+
+function auditQuery(filter: { gate?: string; device?: string }, format?: 'csv'): string {
+    const q = new URLSearchParams();
+    if (filter.gate) q.set('gate', filter.gate);
+    if (filter.device) q.set('device', filter.device);
+    if (format) q.set('format', format);
+    const s = q.toString();
+    return apiUrl('/audit') + (s ? `?${s}` : '');
+}
+
+export async function getAudit(filter: { gate?: string; device?: string } = {}): Promise<{ verification: GateLogCheck; gates: GateSummary[]; entries: GateLogEntry[]; conflicts: CheckInConflict[] }> {
+    const res = await authedFetch(auditQuery(filter), { cache: 'no-store' });
+    const body = await res.json().catch(() => null);
+    if (!res.ok || !body?.ok) throw new Error(body?.reason || 'audit failed');
+    return body;
+}
+
+// Offline scanning (offline.ts): the event's check bundle, and the upload of queued check-ins
+export async function getScannerBundle(eventId: string): Promise<ScannerBundle> {
+    const res = await authedFetch(apiUrlFor(eventId, '/scanner-bundle'), { cache: 'no-store' });
+    const body = await res.json().catch(() => null);
+    if (!res.ok || !body?.ok) throw new Error(body?.reason || 'bundle download failed');
+    const { ok: _ok, ...bundle } = body;
+    return bundle;
+}
+
+export async function syncCheckIns(eventId: string, checkIns: Array<{ id: string; secret?: string; issuedAt?: number; tier?: number; requiredTier?: number; payload?: string; device?: SignedCheckIn }>): Promise<SyncResult[]> {
+    const res = await authedFetch(apiUrlFor(eventId, '/checkins/sync'), { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ checkIns }) });
+    const body = await res.json().catch(() => null);
+    if (!res.ok || !body?.ok) throw new Error(body?.reason || 'sync failed');
+    return body.results;
+}
+
+export async function getAuditCsv(filter: { gate?: string; device?: string } = {}): Promise<Blob> {
+    const res = await authedFetch(auditQuery(filter, 'csv'), { cache: 'no-store' });
+    if (!res.ok) throw new Error((await res.json().catch(() => null))?.reason || 'audit export failed');
+    return res.blob();
+}
+
 // Payment-related helpers
-export async function getPaymentInfo(): Promise<{ ok: true; issuerAddress: string; priceTdust: number; network: string }> {
-    const res = await fetch(`${base}/api/payment-info`);
+export async function getPaymentInfo(): Promise<{ ok: true; issuerAddress: string; priceTdust: number; network: string; tiers: TicketTier[] }> {
+    const res = await fetch(apiUrl('/payment-info'));
     const data = await res.json();
     if (!data.ok) throw new Error(data.reason || 'payment info failed');
     return data;
 }
 
-export async function paidIssue(secret: string, issuedAt: number, txId: string): Promise<{ ok: true; index: number; onchain: OnchainState }> {
-    const leaf = await sha256Hex(`${secret}:${issuedAt}`);
-    const res = await fetch(`${base}/api/paid-issue`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ leaf, txId }) });
+// Binds the commitment + tier to an exact amount to pay (see payForIntent in wallet.ts)
+export async function createPaymentIntent(secret: string, issuedAt: number, hashAlgorithm: HashAlgorithm = 'sha256', tier = 0): Promise<PaymentIntent> {
+    const commitment = await ticketCommitment(secret, issuedAt, hashAlgorithm);
+    const res = await fetch(apiUrl('/payment-intent'), { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ commitment, tier }) });
+    const data = await res.json();
+    if (!data.ok) throw new Error(data.reason || 'payment intent failed');
+    return data;
+}
+
+// Mints the intent's leaf once `txId` is verified to pay it; the server takes the leaf from the intent
+export async function paidIssue(intentId: string, txId: string, buyer?: { name?: string; email?: string; consent: boolean }): Promise<{ ok: true; index: number; leaf: string; tier: number; onchain: OnchainState; ticketAuth: PayloadAuth }> {
+    const res = await fetch(apiUrl('/paid-issue'), { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(buyer ? { intentId, txId, buyer } : { intentId, txId }) });
     const data = await res.json();
     if (!data.ok) throw new Error(data.reason || 'paid issue failed');
     return data;
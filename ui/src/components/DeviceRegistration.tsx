@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from 'react';
+import { getDevice, registerDevice, type ScannerDevice } from '../api';
+import { deviceKey, newDeviceKey, type DeviceKey } from '../device';
+
+const CACHE_KEY = 'ui:device';
+
+// Scanner card: this browser's device key and the gate it is registered for. `onChange` gets the
+// active registration (null while unregistered or revoked); check-ins are signed only with one.
+export const DeviceRegistration: React.FC<{ onChange?: (device: ScannerDevice | null) => void }> = ({ onChange }) => {
+    const [key, setKey] = useState<DeviceKey | null>(null);
+    const [device, setDevice] = useState<ScannerDevice | null>(null);
+    const [gateId, setGateId] = useState('');
+    const [name, setName] = useState('');
+    const [busy, setBusy] = useState(false);
+    const [err, setErr] = useState<string | null>(null);
+
+    function update(d: ScannerDevice | null) {
+        setDevice(d);
+        if (d) localStorage.setItem(CACHE_KEY, JSON.stringify(d)); else localStorage.removeItem(CACHE_KEY);
+        if (d) { setGateId(d.gateId); setName(d.name); }
+        onChange?.(d && !d.revokedAt ? d : null);
+    }
+
+    useEffect(() => {
+        deviceKey()
+            .then(async k => {
+                setKey(k);
+                try {
+                    update(await getDevice(k.id));
+                } catch (e: any) {
+                    // Offline: sign with the last registration this browser saw; the server checks it on sync
+                    const cached = JSON.parse(localStorage.getItem(CACHE_KEY) || 'null') as ScannerDevice | null;
+                    if (cached?.id !== k.id) throw e;
+                    setDevice(cached); setGateId(cached.gateId); setName(cached.name);
+                    onChange?.(cached.revokedAt ? null : cached);
+                }
+            })
+            .catch((e: any) => setErr(e.message || 'device key unavailable'));
+    }, []);
+
+    async function register() {
+        if (!key) return;
+        setBusy(true); setErr(null);
+        try { update(await registerDevice(gateId.trim(), name.trim(), key.publicKey)); } catch (e: any) { setErr(e.message || 'registration failed'); } finally { setBusy(false); }
+    }
+
+    async function replaceKey() {
+        setBusy(true); setErr(null);
+        try { setKey(await newDeviceKey()); update(null); } catch (e: any) { setErr(e.message || 'new key failed'); } finally { setBusy(false); }
+    }
+
+    return (
+        <div className="card" style={{ marginBottom: 12 }}>
+            <div className="section-title">Scanner device</div>
+            {key && <div className="muted" style={{ fontSize: 12 }}>Device <code>{key.id}</code></div>}
+            {device?.revokedAt ? (
+                <div style={{ marginTop: 8 }}>
+                    <div style={{ color: '#fca5a5', fontSize: 13 }}>This device was revoked on {new Date(device.revokedAt).toLocaleString()}.</div>
+                    <button style={{ marginTop: 8 }} disabled={busy} onClick={replaceKey}>Generate a new device key</button>
+                </div>
+            ) : (
+                <>
+                    {device && <div style={{ fontSize: 13, marginTop: 4 }}>Registered as <b>{device.name}</b> at gate <b>{device.gateId}</b>. Check-ins are signed with this device's key.</div>}
+                    {!device && key && <div style={{ fontSize: 13, marginTop: 4 }}>Not registered. Register this device for a gate to sign its check-ins.</div>}
+                    <div style={{ display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap', marginTop: 8 }}>
+                        <input placeholder="gate id (e.g. north-1)" value={gateId} onChange={e => setGateId(e.target.value.toLowerCase())} />
+                        <input placeholder="device name" value={name} onChange={e => setName(e.target.value)} />
+                        <button className="btn-primary" disabled={busy || !key || !gateId.trim()} onClick={register}>{device ? 'Move to gate' : 'Register device'}</button>
+                    </div>
+                </>
+            )}
+            {err && <div style={{ color: '#fca5a5', marginTop: 8, fontSize: 12 }}>{err}</div>}
+        </div>
+    );
+};
+
+export default DeviceRegistration;
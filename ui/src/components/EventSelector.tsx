@@ -0,0 +1,42 @@
+import React, { useEffect, useState } from 'react';
+import { getCurrentEvent, listEvents, setCurrentEvent, type EventSummary } from '../api';
+
+export interface EventSelectorProps {
+    onChange?: (eventId: string) => void;
+    reloadKey?: number; // bump to re-fetch the list (e.g. after creating an event)
+}
+
+// Picks the event all event-scoped API calls go to (see apiUrl in ../api)
+export default function EventSelector({ onChange, reloadKey }: EventSelectorProps) {
+    const [events, setEvents] = useState<EventSummary[]>([]);
+    const [selected, setSelected] = useState(getCurrentEvent());
+
+    function choose(id: string) {
+        setCurrentEvent(id);
+        setSelected(id);
+        if (onChange) onChange(id);
+    }
+
+    useEffect(() => {
+        listEvents().then(list => {
+            setEvents(list);
+            setSelected(getCurrentEvent());
+            // A stored selection may point at an event that no longer exists
+            if (!list.some(e => e.id === getCurrentEvent())) choose('default');
+        }).catch(() => { /* keep current selection */ });
+    }, [reloadKey]);
+
+    return (
+        <label style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 12 }}>
+            <span className="muted">Event</span>
+            <select value={selected} onChange={e => choose(e.target.value)}>
+                {events.length === 0 && <option value={selected}>{selected}</option>}
+                {events.map(e => (
+                    <option key={e.id} value={e.id}>
+                        {e.name}{e.initialized ? ` · ${e.leafCount} issued` : ' · not initialized'}
+                    </option>
+                ))}
+            </select>
+        </label>
+    );
+}
@@ -1,10 +1,14 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { getPaymentInfo } from '../api';
 
 export default function Footer() {
+    // The server's network profile, e.g. "Midnight Testnet"
+    const [network, setNetwork] = useState<string | null>(null);
+    useEffect(() => { getPaymentInfo().then(info => setNetwork(info.network)).catch(() => { }); }, []);
     return (
         <div style={{ padding: '20px 0', marginTop: 30, borderTop: '1px solid rgba(255,255,255,0.06)' }}>
             <div className="container" style={{ color: 'var(--muted)', fontSize: 12, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
-                <div>© {new Date().getFullYear()} EventStack X Rare Network · Testnet</div>
+                <div>© {new Date().getFullYear()} EventStack X Rare Network{network ? ` · ${network}` : ''}</div>
                 <div className="pill">Experimental demo</div>
             </div>
         </div>
@@ -0,0 +1,189 @@
+import React, { useEffect, useState } from 'react';
+import { getAudit, getAuditCsv, listDevices, revokeDevice, type CheckInConflict, type GateLogCheck, type GateLogEntry, type GateSummary, type ScannerDevice } from '../api';
+import { download } from './TicketBundle';
+
+const short = (hex: string) => hex.length > 14 ? `${hex.slice(0, 8)}…${hex.slice(-4)}` : hex;
+const SHOWN = 100;
+
+// Issuer card: the event's gate log (who checked in what, where and when), whether its hash
+// chain and device signatures still verify, per-gate totals, double uses found when offline
+// scanners synced, exports, and the scanner devices
+export const GateAudit: React.FC<{ eventId: string }> = ({ eventId }) => {
+    const [gate, setGate] = useState('');
+    const [device, setDevice] = useState('');
+    const [entries, setEntries] = useState<GateLogEntry[]>([]);
+    const [gates, setGates] = useState<GateSummary[]>([]);
+    const [verification, setVerification] = useState<GateLogCheck | null>(null);
+    const [devices, setDevices] = useState<ScannerDevice[]>([]);
+    const [conflicts, setConflicts] = useState<CheckInConflict[]>([]);
+    const [err, setErr] = useState<string | null>(null);
+
+    async function refresh() {
+        setErr(null);
+        try {
+            const audit = await getAudit({ gate, device });
+            setEntries(audit.entries); setGates(audit.gates); setVerification(audit.verification); setConflicts(audit.conflicts ?? []);
+            setDevices(await listDevices());
+        } catch (e: any) { setErr(e.message || 'audit failed'); }
+    }
+    useEffect(() => { refresh(); }, [eventId, gate, device]);
+
+    const name = `${eventId}-gate-log${gate ? `-${gate}` : device ? `-${device}` : ''}`;
+    async function exportCsv() {
+        try { download(`${name}.csv`, await getAuditCsv({ gate, device })); } catch (e: any) { setErr(e.message || 'export failed'); }
+    }
+    function exportJson() {
+        download(`${name}.json`, new Blob([JSON.stringify({ eventId, filter: { gate, device }, verification, entries, conflicts, devices }, null, 2)], { type: 'application/json' }));
+    }
+    async function revoke(d: ScannerDevice) {
+        if (!window.confirm(`Revoke device ${d.name} (${d.id}) at gate ${d.gateId}? Its check-ins will be refused from now on.`)) return;
+        try { await revokeDevice(d.id); await refresh(); } catch (e: any) { setErr(e.message || 'revoke failed'); }
+    }
+
+    return (
+        <div className="card" style={{ marginTop: 20 }}>
+            <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 8, flexWrap: 'wrap' }}>
+                <div className="section-title" style={{ marginBottom: 0 }}>Gate audit</div>
+                <div style={{ display: 'flex', gap: 8 }}>
+                    <button onClick={refresh}>Refresh</button>
+                    <button onClick={exportCsv}>Export CSV</button>
+                    <button onClick={exportJson}>Export JSON</button>
+                </div>
+            </div>
+            {verification && (verification.ok
+                ? <div style={{ color: '#86efac', fontSize: 12, marginTop: 8 }}>Log intact: {verification.length} check-ins, every link and device signature verifies (head {short(verification.head)}).</div>
+                : <div style={{ color: '#fca5a5', fontSize: 12, marginTop: 8 }}>Log broken at entry {verification.brokenAt} of {verification.length}: {verification.reason}</div>)}
+            {err && <div style={{ color: '#fca5a5', fontSize: 12, marginTop: 8 }}>{err}</div>}
+
+            {gates.length > 0 && (
+                <table style={{ marginTop: 12 }}>
+                    <thead>
+                        <tr>
+                            <th style={{ textAlign: 'left' }}>Gate</th>
+                            <th style={{ textAlign: 'left' }}>Check-ins</th>
+                            <th style={{ textAlign: 'left' }}>Devices</th>
+                            <th style={{ textAlign: 'left' }}>Last</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {gates.map(g => (
+                            <tr key={g.gateId} style={{ cursor: 'pointer', fontWeight: g.gateId === gate ? 'bold' : undefined }} onClick={() => { setGate(g.gateId === gate ? '' : g.gateId); setDevice(''); }}>
+                                <td>{g.gateId}</td>
+                                <td>{g.checkIns}</td>
+                                <td>{g.devices.length || '—'}</td>
+                                <td>{new Date(g.last).toLocaleString()}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+
+            <div style={{ display: 'flex', gap: 12, alignItems: 'center', flexWrap: 'wrap', marginTop: 12 }}>
+                <label style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                    <span className="muted">Gate</span>
+                    <select value={gate} onChange={e => setGate(e.target.value)}>
+                        <option value="">All gates</option>
+                        {gates.map(g => <option key={g.gateId} value={g.gateId}>{g.gateId}</option>)}
+                    </select>
+                </label>
+                <label style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                    <span className="muted">Device</span>
+                    <select value={device} onChange={e => setDevice(e.target.value)}>
+                        <option value="">All devices</option>
+                        {devices.map(d => <option key={d.id} value={d.id}>{d.name} ({d.gateId})</option>)}
+                    </select>
+                </label>
+            </div>
+            {entries.length === 0 ? (
+                <div className="muted" style={{ marginTop: 8 }}>No check-ins{gate || device ? ' for this filter' : ' yet'}</div>
+            ) : (
+                <>
+                    <table style={{ marginTop: 8, fontSize: 12 }}>
+                        <thead>
+                            <tr>
+                                <th style={{ textAlign: 'left' }}>#</th>
+                                <th style={{ textAlign: 'left' }}>Time</th>
+                                <th style={{ textAlign: 'left' }}>Gate</th>
+                                <th style={{ textAlign: 'left' }}>Device</th>
+                                <th style={{ textAlign: 'left' }}>Nullifier</th>
+                                <th style={{ textAlign: 'left' }}>Signed in as</th>
+                                <th style={{ textAlign: 'left' }}>Hash</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {entries.slice(-SHOWN).reverse().map(e => (
+                                <tr key={e.seq}>
+                                    <td>{e.seq}</td>
+                                    <td title={`Device clock ${new Date(e.at).toLocaleString()}`}>{new Date(e.receivedAt).toLocaleString()}</td>
+                                    <td>{e.gateId}</td>
+                                    <td>{e.deviceId ?? <span className="muted">unsigned</span>}</td>
+                                    <td><code>{short(e.nullifier)}</code></td>
+                                    <td>{e.principal}</td>
+                                    <td><code>{short(e.hash)}</code></td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {entries.length > SHOWN && <div className="muted" style={{ fontSize: 11, marginTop: 4 }}>Latest {SHOWN} of {entries.length}; export for the rest.</div>}
+                </>
+            )}
+
+            {conflicts.length > 0 && (
+                <>
+                    <div className="section-title" style={{ marginTop: 16, color: '#fca5a5' }}>Double use ({conflicts.length})</div>
+                    <div className="muted" style={{ fontSize: 11 }}>Tickets an offline scanner admitted after another gate had already let them in.</div>
+                    <table style={{ marginTop: 4, fontSize: 12 }}>
+                        <thead>
+                            <tr>
+                                <th style={{ textAlign: 'left' }}>Nullifier</th>
+                                <th style={{ textAlign: 'left' }}>First entry</th>
+                                <th style={{ textAlign: 'left' }}>Admitted again</th>
+                                <th style={{ textAlign: 'left' }}>Reported</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {conflicts.slice(-SHOWN).reverse().map(c => (
+                                <tr key={`${c.nullifier}-${c.receivedAt}-${c.deviceId}`}>
+                                    <td><code>{short(c.nullifier)}</code></td>
+                                    <td>{c.first ? `#${c.first.seq} at ${c.first.gateId}, ${new Date(c.first.at).toLocaleString()}` : <span className="muted">not in the log</span>}</td>
+                                    <td>{c.gateId}{c.deviceId ? ` (${c.deviceId})` : ''}, {new Date(c.at).toLocaleString()}</td>
+                                    <td>{new Date(c.receivedAt).toLocaleString()} by {c.principal}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </>
+            )}
+
+            <div className="section-title" style={{ marginTop: 16 }}>Scanner devices</div>
+            {devices.length === 0 ? (
+                <div className="muted">No devices registered. Gate staff register theirs on the Scanner page.</div>
+            ) : (
+                <table style={{ fontSize: 12 }}>
+                    <thead>
+                        <tr>
+                            <th style={{ textAlign: 'left' }}>Device</th>
+                            <th style={{ textAlign: 'left' }}>Name</th>
+                            <th style={{ textAlign: 'left' }}>Gate</th>
+                            <th style={{ textAlign: 'left' }}>Registered</th>
+                            <th style={{ textAlign: 'left' }}>Status</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {devices.map(d => (
+                            <tr key={d.id}>
+                                <td><code>{d.id}</code></td>
+                                <td>{d.name}</td>
+                                <td>{d.gateId}</td>
+                                <td>{new Date(d.registeredAt).toLocaleString()} by {d.registeredBy}</td>
+                                <td>{d.revokedAt ? `Revoked ${new Date(d.revokedAt).toLocaleString()}` : <button className="btn-danger" onClick={() => revoke(d)}>Revoke</button>}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
+
+export default GateAudit;
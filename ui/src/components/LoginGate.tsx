@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from 'react';
+import { authRequired, getAuth, loginWithApiKey, loginWithWallet, signOut, type Role } from '../api';
+import { detectWallet } from '../wallet';
+
+const ROLE_LABELS: Record<Role, string> = { admin: 'issuer admin', scanner: 'gate scanner' };
+
+// Renders the page once signed in with a role that may use it (admins may also scan). Sign-in is
+// an API key, or a challenge signed by a wallet key the server has registered for the role.
+export default function LoginGate({ role, children }: { role: Role; children: React.ReactNode }) {
+    const [session, setSession] = useState(getAuth());
+    const [required, setRequired] = useState<boolean | null>(null);
+    const [apiKey, setApiKey] = useState('');
+    const [busy, setBusy] = useState(false);
+    const [err, setErr] = useState<string | null>(null);
+
+    useEffect(() => {
+        const onChange = () => setSession(getAuth());
+        window.addEventListener('ui:auth', onChange);
+        authRequired().then(setRequired).catch(() => setRequired(true));
+        return () => window.removeEventListener('ui:auth', onChange);
+    }, []);
+
+    async function signIn(how: () => Promise<unknown>) {
+        setBusy(true); setErr(null);
+        try { await how(); setApiKey(''); } catch (e: any) { setErr(e.message || 'sign-in failed'); } finally { setBusy(false); }
+    }
+
+    async function walletSignIn() {
+        const wallet = await detectWallet();
+        if (!wallet) throw new Error('No Midnight wallet found');
+        await wallet.connect();
+        await loginWithWallet(message => wallet.signData(message));
+    }
+
+    if (required === null) return <div className="container muted">Checking access…</div>;
+    if (!required) return <>{children}</>;
+    if (session && (session.role === 'admin' || session.role === role)) {
+        return (
+            <>
+                <div className="container muted" style={{ fontSize: 12, display: 'flex', justifyContent: 'flex-end', alignItems: 'center', gap: 8 }}>
+                    Signed in as {session.name} ({ROLE_LABELS[session.role]})
+                    <button onClick={signOut}>Sign out</button>
+                </div>
+                {children}
+            </>
+        );
+    }
+    return (
+        <div className="container">
+            <div className="card" style={{ maxWidth: 520 }}>
+                <div className="section-title">Sign in as {ROLE_LABELS[role]}</div>
+                {session && <div className="muted" style={{ marginBottom: 8 }}>Signed in as {session.name} ({ROLE_LABELS[session.role]}), which cannot use this page.</div>}
+                <form style={{ display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap' }} onSubmit={e => { e.preventDefault(); signIn(() => loginWithApiKey(apiKey.trim())); }}>
+                    <input type="password" placeholder="API key" autoComplete="current-password" value={apiKey} onChange={e => setApiKey(e.target.value)} style={{ flex: '1 1 240px' }} />
+                    <button className="btn-primary" type="submit" disabled={busy || !apiKey.trim()}>Sign in</button>
+                </form>
+                <div style={{ marginTop: 12 }}>
+                    <button disabled={busy} onClick={() => signIn(walletSignIn)}>Sign in with wallet</button>
+                    <span className="muted" style={{ fontSize: 12, marginLeft: 8 }}>Signs a one-time challenge; no transaction is sent.</span>
+                </div>
+                {err && <div style={{ color: '#fca5a5', marginTop: 8, fontSize: 12 }}>{err}</div>}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,105 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { checkOffline, downloadBundle, loadBundle, queueCheckIn, queuedCheckIns, syncQueue, type OfflineVerdict, type ScannerBundle, type SyncResult } from '../offline';
+import type { SignedCheckIn } from '../device';
+
+export type OfflineTicket = { secret: string; issuedAt: number; tier: number; requiredTier?: number; payload?: string };
+
+// Offline state of the scanner for one event: its bundle, the queue, and whether checks run
+// locally (chosen by the operator, or forced while the browser is offline). Syncs on reconnect.
+export function useOfflineScanner(eventId: string) {
+    const [bundle, setBundle] = useState<ScannerBundle | null>(null);
+    const [queued, setQueued] = useState(0);
+    const [online, setOnline] = useState(navigator.onLine);
+    const [chosen, setChosen] = useState(false);
+    const [busy, setBusy] = useState<string | null>(null);
+    const [lastSync, setLastSync] = useState<{ at: number; results: SyncResult[] } | null>(null);
+    const [err, setErr] = useState<string | null>(null);
+    const current = useRef(eventId); // for the reconnect listener, registered once
+    current.current = eventId;
+
+    async function refreshQueue() { setQueued((await queuedCheckIns()).length); }
+
+    async function sync() {
+        if ((await queuedCheckIns()).length === 0) return;
+        setBusy('Syncing…'); setErr(null);
+        try { setLastSync({ at: Date.now(), results: await syncQueue() }); } catch (e: any) { setErr(`Sync failed, check-ins stay queued: ${e.message}`); } finally { setBusy(null); }
+        await refreshQueue();
+        setBundle(await loadBundle(current.current));
+    }
+
+    useEffect(() => {
+        loadBundle(eventId).then(setBundle).catch((e: any) => setErr(e.message));
+        refreshQueue().catch(() => { });
+    }, [eventId]);
+
+    useEffect(() => {
+        const up = () => { setOnline(true); sync(); };
+        const down = () => setOnline(false);
+        window.addEventListener('online', up);
+        window.addEventListener('offline', down);
+        if (navigator.onLine) sync().catch(() => { });
+        return () => { window.removeEventListener('online', up); window.removeEventListener('offline', down); };
+    }, []);
+
+    async function download() {
+        setBusy('Downloading…'); setErr(null);
+        try { setBundle(await downloadBundle(eventId)); } catch (e: any) { setErr(e.message || 'download failed'); } finally { setBusy(null); }
+    }
+
+    // Checks the ticket against the bundle and queues its check-in if admitted
+    async function admit(ticket: OfflineTicket, nullifier: string, device?: SignedCheckIn): Promise<OfflineVerdict> {
+        if (!bundle) return { ok: false, reason: 'No offline bundle for this event; download it while online' };
+        const verdict = await checkOffline(bundle, ticket);
+        if (verdict.ok) {
+            await queueCheckIn({ eventId, ...ticket, nullifier: verdict.nullifier, device: device?.id && nullifier === verdict.nullifier ? device : undefined, scannedAt: Date.now() });
+            await refreshQueue();
+        }
+        return verdict;
+    }
+
+    return { bundle, queued, online, offline: chosen || !online, chosen, setChosen, busy, lastSync, err, download, sync, admit };
+}
+
+export type OfflineScanner = ReturnType<typeof useOfflineScanner>;
+
+export const OfflinePanel: React.FC<{ scanner: OfflineScanner }> = ({ scanner }) => {
+    const { bundle, queued, online, chosen, setChosen, busy, lastSync, err, download, sync } = scanner;
+    const conflicts = lastSync?.results.filter(r => r.status === 'conflict') ?? [];
+    const rejected = lastSync?.results.filter(r => r.status === 'rejected') ?? [];
+    return (
+        <div className="card" style={{ marginBottom: 12 }}>
+            <div className="section-title">Offline mode</div>
+            <div style={{ display: 'flex', gap: 12, alignItems: 'center', flexWrap: 'wrap' }}>
+                <label style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                    <input type="checkbox" checked={chosen || !online} disabled={!online} onChange={e => setChosen(e.target.checked)} />
+                    <span>Check tickets on this device</span>
+                </label>
+                {!online && <span style={{ color: '#fca5a5', fontSize: 12 }}>No connection</span>}
+                <button disabled={!!busy || !online} onClick={download}>{bundle ? 'Refresh offline data' : 'Download for offline'}</button>
+                <button disabled={!!busy || !online || queued === 0} onClick={sync}>Sync now</button>
+            </div>
+            <div className="muted" style={{ fontSize: 12, marginTop: 6 }}>
+                {bundle
+                    ? `Offline data from ${new Date(bundle.fetchedAt).toLocaleString()}: ${bundle.leaves.length} tickets, ${bundle.nullifiers.length} used.`
+                    : 'No offline data for this event yet.'}
+                {' '}{queued > 0 ? `${queued} check-in${queued === 1 ? '' : 's'} waiting to sync.` : 'Nothing waiting to sync.'}
+            </div>
+            {busy && <div style={{ fontSize: 12, marginTop: 6 }}>{busy}</div>}
+            {err && <div style={{ color: '#fca5a5', fontSize: 12, marginTop: 6 }}>{err}</div>}
+            {lastSync && (
+                <div style={{ fontSize: 12, marginTop: 6 }}>
+                    Synced {new Date(lastSync.at).toLocaleTimeString()}: {lastSync.results.filter(r => r.status === 'recorded').length} recorded, {conflicts.length} conflicts, {rejected.length} rejected.
+                    {conflicts.map(r => (
+                        <div key={r.id} style={{ color: '#fca5a5', marginTop: 4 }}>
+                            Double use: ticket <code>{r.nullifier?.slice(0, 10)}…</code> was already let in
+                            {r.conflict?.first ? ` at gate ${r.conflict.first.gateId} (${new Date(r.conflict.first.at).toLocaleString()})` : ' before'}; this device admitted it at {r.conflict ? new Date(r.conflict.at).toLocaleString() : '?'}.
+                        </div>
+                    ))}
+                    {rejected.map(r => <div key={r.id} style={{ color: '#fca5a5', marginTop: 4 }}>Rejected on sync: {r.reason}</div>)}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default OfflinePanel;
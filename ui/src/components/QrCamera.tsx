@@ -0,0 +1,81 @@
+import React, { useEffect, useRef, useState } from 'react';
+import jsQR from 'jsqr';
+
+// The same code seen again within this window is ignored (it stays in view between frames)
+const REPEAT_MS = 3000;
+// Frames are scaled down to this width before decoding; enough for a ticket QR held up to the camera
+const DECODE_WIDTH = 640;
+const DECODE_EVERY_MS = 120;
+
+// Live camera QR decoding, entirely in the browser: frames from the rear camera go through jsQR and
+// each new code is handed to `onScan`. Scanning pauses while `paused` (e.g. a check is in flight).
+export const QrCamera: React.FC<{ onScan: (text: string) => void; paused?: boolean }> = ({ onScan, paused }) => {
+    const [on, setOn] = useState(false);
+    const [err, setErr] = useState<string | null>(null);
+    const video = useRef<HTMLVideoElement | null>(null);
+    const canvas = useRef<HTMLCanvasElement | null>(null);
+    const last = useRef<{ text: string; at: number } | null>(null);
+    // Read from the frame loop, which outlives renders
+    const latest = useRef({ onScan, paused });
+    latest.current = { onScan, paused };
+
+    useEffect(() => {
+        if (!on) return;
+        let stream: MediaStream | null = null;
+        let frame = 0;
+        let decodedAt = 0;
+        let stopped = false;
+        function tick(now: number) {
+            if (stopped) return;
+            frame = requestAnimationFrame(tick);
+            const v = video.current, c = canvas.current;
+            if (!v || !c || v.readyState < v.HAVE_ENOUGH_DATA || latest.current.paused || now - decodedAt < DECODE_EVERY_MS) return;
+            decodedAt = now;
+            const scale = Math.min(1, DECODE_WIDTH / v.videoWidth);
+            c.width = Math.round(v.videoWidth * scale); c.height = Math.round(v.videoHeight * scale);
+            const ctx = c.getContext('2d', { willReadFrequently: true });
+            if (!ctx) return;
+            ctx.drawImage(v, 0, 0, c.width, c.height);
+            const code = jsQR(ctx.getImageData(0, 0, c.width, c.height).data, c.width, c.height, { inversionAttempts: 'dontInvert' });
+            if (!code?.data) return;
+            const t = Date.now();
+            if (last.current && last.current.text === code.data && t - last.current.at < REPEAT_MS) {
+                last.current.at = t; // still in view: keep ignoring it until it has been away for a while
+                return;
+            }
+            last.current = { text: code.data, at: t };
+            latest.current.onScan(code.data);
+        }
+        (async () => {
+            try {
+                if (!navigator.mediaDevices?.getUserMedia) throw new Error('Camera access needs a secure context (https or localhost)');
+                stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false });
+                if (stopped) { stream.getTracks().forEach(t => t.stop()); return; }
+                if (video.current) { video.current.srcObject = stream; await video.current.play(); }
+                frame = requestAnimationFrame(tick);
+            } catch (e: any) {
+                setErr(e?.name === 'NotAllowedError' ? 'Camera permission denied' : (e.message || 'camera unavailable'));
+                setOn(false);
+            }
+        })();
+        return () => {
+            stopped = true;
+            cancelAnimationFrame(frame);
+            stream?.getTracks().forEach(t => t.stop());
+            if (video.current) video.current.srcObject = null;
+        };
+    }, [on]);
+
+    return (
+        <div style={{ marginBottom: 8 }}>
+            <button onClick={() => { setErr(null); last.current = null; setOn(!on); }}>{on ? 'Stop camera' : 'Scan with camera'}</button>
+            {err && <span style={{ color: '#fca5a5', fontSize: 12, marginLeft: 8 }}>{err}</span>}
+            <div style={{ display: on ? 'block' : 'none', marginTop: 8 }}>
+                <video ref={video} muted playsInline style={{ width: '100%', maxWidth: 420, borderRadius: 8, opacity: paused ? 0.5 : 1 }} />
+                <canvas ref={canvas} style={{ display: 'none' }} />
+            </div>
+        </div>
+    );
+};
+
+export default QrCamera;
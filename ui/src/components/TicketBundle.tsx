@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { QRCodeSVG } from 'qrcode.react';
+import { jsPDF } from 'jspdf';
+import { issueBatch, type TicketTier } from '../api';
+import { bundleEntries, manifestCsv, payloadList, type BundleEntry } from '../../../src/lib/ticket-bundle';
+
+export interface BulkIssueProps {
+    eventId: string;
+    tiers: TicketTier[];
+    maxAgeMs?: number;
+    remaining?: number; // free leaves in the tree
+    onIssued?: () => void;
+}
+
+// QR code as a PNG data URL without mounting a component: the SVG markup's module path is
+// drawn onto a canvas, like the canvas TicketQr hands to jsPDF
+function qrDataUrl(value: string, px = 264): string {
+    const svg = renderToStaticMarkup(<QRCodeSVG value={value} level="M" includeMargin={true} />);
+    const cells = Number(/viewBox="0 0 (\d+) \d+"/.exec(svg)?.[1]);
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = px;
+    const ctx = canvas.getContext('2d');
+    if (!ctx || !cells) throw new Error('QR rendering failed');
+    ctx.scale(px / cells, px / cells);
+    for (const [, fill, d] of svg.matchAll(/<path fill="([^"]+)" d="([^"]+)"/g)) {
+        ctx.fillStyle = fill;
+        ctx.fill(new Path2D(d));
+    }
+    return canvas.toDataURL('image/png');
+}
+
+export function download(filename: string, data: Blob) {
+    const a = document.createElement('a');
+    a.href = URL.createObjectURL(data);
+    a.download = filename;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(a.href), 1000);
+}
+
+// Printable bundle: six tickets per A4 page, each with its payload QR, index, tier and validity
+async function bundlePdf(entries: BundleEntry[], title: string, onProgress: (done: number) => void): Promise<Blob> {
+    const pdf = new jsPDF({ unit: 'pt', format: 'a4' });
+    const margin = 36;
+    const pageWidth = pdf.internal.pageSize.getWidth();
+    const pageHeight = pdf.internal.pageSize.getHeight();
+    const cols = 2, rows = 3, perPage = cols * rows;
+    const cellW = (pageWidth - margin * 2) / cols;
+    const cellH = (pageHeight - margin * 2 - 16) / rows;
+    const qrSize = 140;
+    const pages = Math.ceil(entries.length / perPage);
+    for (let page = 0; page < pages; page++) {
+        if (page > 0) pdf.addPage();
+        const slice = entries.slice(page * perPage, (page + 1) * perPage);
+        pdf.setFont('helvetica', 'bold');
+        pdf.setFontSize(10);
+        pdf.text(`${title} · tickets #${slice[0].index}–#${slice[slice.length - 1].index} · page ${page + 1} of ${pages}`, margin, margin);
+        slice.forEach((entry, i) => {
+            const x = margin + (i % cols) * cellW;
+            const y = margin + 16 + Math.floor(i / cols) * cellH;
+            pdf.setDrawColor(200);
+            pdf.rect(x + 4, y + 4, cellW - 8, cellH - 8);
+            pdf.addImage(qrDataUrl(entry.payload), 'PNG', x + 10, y + 10, qrSize, qrSize, undefined, 'FAST');
+            let ty = y + 26;
+            pdf.setFont('helvetica', 'bold');
+            pdf.setFontSize(13);
+            pdf.text(`Ticket #${entry.index}`, x + qrSize + 18, ty);
+            ty += 16;
+            pdf.setFont('helvetica', 'normal');
+            pdf.setFontSize(9);
+            if (entry.tier) { pdf.text(`Tier: ${entry.tierName}`, x + qrSize + 18, ty); ty += 12; }
+            pdf.text(`Issued: ${new Date(entry.issuedAt).toLocaleString()}`, x + qrSize + 18, ty, { maxWidth: cellW - qrSize - 30 });
+            ty += 22;
+            if (entry.validUntil) pdf.text(`Valid until: ${new Date(entry.validUntil).toLocaleString()}`, x + qrSize + 18, ty, { maxWidth: cellW - qrSize - 30 });
+            // The payload in text as a backup for a damaged print
+            pdf.setFont('courier', 'normal');
+            pdf.setFontSize(6);
+            pdf.text(pdf.splitTextToSize(entry.payload, cellW - 24), x + 10, y + qrSize + 22);
+        });
+        onProgress(Math.min((page + 1) * perPage, entries.length));
+        await new Promise(resolve => setTimeout(resolve, 0)); // keep the page responsive
+    }
+    return pdf.output('blob');
+}
+
+// Issuer card: issue N tickets under one root, then download the bundle (PDF, CSV manifest, payloads)
+export const BulkIssue: React.FC<BulkIssueProps> = ({ eventId, tiers, maxAgeMs, remaining, onIssued }) => {
+    const [count, setCount] = useState(100);
+    const [tier, setTier] = useState(0);
+    const [entries, setEntries] = useState<BundleEntry[]>([]);
+    const [busy, setBusy] = useState<string | null>(null);
+    const [err, setErr] = useState<string | null>(null);
+    const name = `${eventId}-tickets-${entries[0]?.index ?? 0}-${entries[entries.length - 1]?.index ?? 0}`;
+    const options = { eventId, maxAgeMs, tierNames: tiers.map(t => t.name), scanOrigin: window.location.origin };
+
+    async function issue() {
+        setErr(null); setBusy('Issuing…');
+        try {
+            const { tickets } = await issueBatch(count, tier);
+            setEntries(bundleEntries(tickets, options));
+            onIssued?.();
+        } catch (e: any) { setErr(e.message || 'batch issue failed'); } finally { setBusy(null); }
+    }
+
+    async function pdf() {
+        setErr(null);
+        try {
+            const blob = await bundlePdf(entries, eventId, done => setBusy(`Building PDF… ${done}/${entries.length}`));
+            download(`${name}.pdf`, blob);
+        } catch (e: any) { setErr(e.message || 'PDF failed'); } finally { setBusy(null); }
+    }
+
+    return (
+        <div className="card" style={{ marginTop: 20 }}>
+            <div className="section-title">Bulk issuance</div>
+            <div className="muted" style={{ marginBottom: 8 }}>Issue a batch of tickets under a single new root, then export them for printing and distribution partners.</div>
+            <div style={{ display: 'flex', gap: 12, alignItems: 'center', flexWrap: 'wrap' }}>
+                <label style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                    <span className="muted">Tickets</span>
+                    <input type="number" min={1} max={10000} step={1} value={count} onChange={e => setCount(Number(e.target.value))} />
+                </label>
+                {tiers.length > 1 && (
+                    <select value={tier} onChange={e => setTier(Number(e.target.value))}>
+                        {tiers.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                    </select>
+                )}
+                <button className="btn-primary" disabled={!!busy || remaining === 0} onClick={issue}>Issue batch</button>
+                {remaining != null && <span className="muted" style={{ fontSize: 12 }}>{remaining} left in the tree</span>}
+            </div>
+            {busy && <div style={{ marginTop: 8, fontSize: 12 }}>{busy}</div>}
+            {err && <div style={{ color: '#fca5a5', marginTop: 8, fontSize: 12 }}>{err}</div>}
+            {entries.length > 0 && (
+                <div style={{ marginTop: 12 }}>
+                    <div style={{ fontSize: 13 }}>Issued tickets #{entries[0].index}–#{entries[entries.length - 1].index} ({entries.length}).</div>
+                    <div style={{ display: 'flex', gap: 8, marginTop: 8, flexWrap: 'wrap' }}>
+                        <button disabled={!!busy} onClick={pdf}>Download PDF</button>
+                        <button disabled={!!busy} onClick={() => download(`${name}-manifest.csv`, new Blob([manifestCsv(entries, options)], { type: 'text/csv' }))}>Download CSV manifest</button>
+                        <button disabled={!!busy} onClick={() => download(`${name}-payloads.txt`, new Blob([payloadList(entries)], { type: 'text/plain' }))}>Download payloads</button>
+                    </div>
+                    <div className="muted" style={{ fontSize: 11, marginTop: 6 }}>Every file carries the ticket secrets; share it only with whoever delivers the tickets.</div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default BulkIssue;
@@ -1,33 +1,37 @@
 import React, { useMemo, useRef, useState } from 'react';
 import { QRCodeCanvas } from 'qrcode.react';
 import { jsPDF } from 'jspdf';
+import { encodeTicketPayload, encodeTicketPayloadV2, ticketScanUrl, type PayloadAuth } from '../crypto';
 
 export interface TicketQrProps {
     secret: string;
     issuedAt?: number;
     index?: number;
+    tier?: number; // committed seat class; 0 / absent = general admission
+    tierName?: string;
+    eventId?: string;
+    auth?: PayloadAuth; // the issuer's tag from issuance; absent for tickets issued before v2
     walletAddress?: string; // used to persist ticket locally per wallet
     style?: React.CSSProperties;
     onSaved?: (record: any) => void; // callback when saved locally
 }
 
-// Encodes a compact ticket payload string.
-// Format: midnight-ticket:v1:<secret>:<issuedAt>:<index>
-function encodeTicket(secret: string, issuedAt?: number, index?: number) {
+// Encodes the shared v2 payload (src/lib/ticket-payload.ts) when the issuer tagged the ticket,
+// the v1 text payload (midnight-ticket:v1:<secret>:<issuedAt>:<index>[:<tier>]) otherwise.
+function encodeTicket(secret: string, issuedAt?: number, index?: number, tier?: number, eventId?: string, auth?: PayloadAuth) {
     if (!secret || !issuedAt || index == null) return '';
-    return `midnight-ticket:v1:${secret}:${issuedAt}:${index}`;
+    if (auth) return encodeTicketPayloadV2({ secret, issuedAt, index, tier: tier ?? 0, eventId: eventId || 'default', auth });
+    return encodeTicketPayload({ secret, issuedAt, index, tier });
 }
 
-export const TicketQr: React.FC<TicketQrProps> = ({ secret, issuedAt, index, walletAddress, style, onSaved }) => {
-    const payload = encodeTicket(secret, issuedAt, index);
+export const TicketQr: React.FC<TicketQrProps> = ({ secret, issuedAt, index, tier, tierName, eventId, auth, walletAddress, style, onSaved }) => {
+    const payload = encodeTicket(secret, issuedAt, index, tier, eventId, auth);
     const [mode, setMode] = useState<'secret' | 'payload' | 'url'>('secret');
     const urlPayload = useMemo(() => {
         if (!payload) return '';
         try {
             const origin = typeof window !== 'undefined' ? window.location.origin : '';
-            // Encode as a URL pointing to the Scanner route and put payload in hash for SPA routing
-            // Example: https://host/real/scanner#ticket=<payload>
-            return `${origin}/real/scanner#ticket=${encodeURIComponent(payload)}`;
+            return ticketScanUrl(origin, payload);
         } catch { return ''; }
     }, [payload]);
     const containerRef = useRef<HTMLDivElement | null>(null);
@@ -37,7 +41,7 @@ export const TicketQr: React.FC<TicketQrProps> = ({ secret, issuedAt, index, wal
             const key = `tickets:${walletAddress}`;
             const existing = JSON.parse(localStorage.getItem(key) || '[]') as any[];
             if (!existing.find(r => r.secret === secret && r.index === index)) {
-                const record = { secret, issuedAt, index, savedAt: Date.now() };
+                const record = { secret, issuedAt, index, tier: tier || undefined, eventId, auth, savedAt: Date.now() };
                 existing.push(record);
                 localStorage.setItem(key, JSON.stringify(existing));
                 if (onSaved) onSaved(record);
@@ -102,7 +106,12 @@ export const TicketQr: React.FC<TicketQrProps> = ({ secret, issuedAt, index, wal
                     pdf.text(`IssuedAt: ${issuedAt}`, margin, y);
                     y += 14;
                     pdf.text(`Index: ${index}`, margin, y);
-                    y += 20;
+                    y += 14;
+                    if (tier) {
+                        pdf.text(`Tier: ${tierName || tier}`, margin, y);
+                        y += 14;
+                    }
+                    y += 6;
                     // Draw QR at right side
                     const qrSize = 220;
                     const x = pageWidth - margin - qrSize;
@@ -0,0 +1,41 @@
+// This browser as a gate scanner device: an ECDSA P-256 key pair kept in IndexedDB (the private
+// key is not extractable), registered with the server under a gate and used to sign check-ins.
+import { checkInMessage, deviceIdOf } from '../../src/lib/checkin';
+import { idb } from './scannerDb';
+
+export type DeviceKey = { id: string; publicKey: string; privateKey: CryptoKey };
+// Sent as `device` with each check-in (record-nullifier, redeem-leaf, redeem)
+export type SignedCheckIn = { id: string; at: number; signature: string };
+
+const DEVICE_KEY = 'device';
+
+function base64url(bytes: ArrayBuffer): string {
+    let s = '';
+    for (const b of new Uint8Array(bytes)) s += String.fromCharCode(b);
+    return btoa(s).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+// The device key, created on first use
+export async function deviceKey(): Promise<DeviceKey> {
+    const saved = await idb<DeviceKey | undefined>('keys', 'readonly', s => s.get(DEVICE_KEY));
+    if (saved) return saved;
+    return newDeviceKey();
+}
+
+// Replaces the key (e.g. after the issuer revoked the old one); the device must register again
+export async function newDeviceKey(): Promise<DeviceKey> {
+    if (!globalThis.crypto?.subtle) throw new Error('Signing check-ins needs a secure context (https or localhost)');
+    const pair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign', 'verify']);
+    const publicKey = base64url(await crypto.subtle.exportKey('spki', pair.publicKey));
+    const key: DeviceKey = { id: deviceIdOf(publicKey), publicKey, privateKey: pair.privateKey };
+    await idb('keys', 'readwrite', s => s.put(key, DEVICE_KEY));
+    return key;
+}
+
+export async function signCheckIn(eventId: string, nullifier: string): Promise<SignedCheckIn> {
+    const key = await deviceKey();
+    const at = Date.now();
+    const message = new TextEncoder().encode(checkInMessage({ eventId, deviceId: key.id, nullifier, at }));
+    const signature = await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, key.privateKey, message);
+    return { id: key.id, at, signature: base64url(signature) };
+}
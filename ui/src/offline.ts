@@ -0,0 +1,149 @@
+// Offline gate checks. The scanner keeps a bundle per event (from /scanner-bundle: root, issuer
+// leaves, validity window, spent nullifiers) and, while the server is out of reach, checks each
+// ticket against it: the leaf must be in the tree and its Merkle path must verify against the
+// bundle's root, the ticket must be unexpired and its nullifier unspent here. Admitted tickets are
+// queued in IndexedDB with their signed check-in and synced later; the server then reports the
+// ones another gate let in as well. A v2 payload must also be for the bundle's event, and its
+// issuer signature is checked against the bundle's public key; MAC tags can only be checked by the
+// server, so those wait for the sync.
+import {
+    MerkleTree,
+    TICKET_DERIVATION,
+    derivationOf,
+    leafFromTicket,
+    loadHashFunction,
+    nullifierFromSecret,
+    type HashAlgorithm,
+    type HashFunction,
+    type TicketDerivation
+} from '../../src/lib/ticket-crypto';
+import { base64urlDecode, decodeAnyTicketPayload, isTicketPayloadV2, issuerMessage, payloadProofMatches, type PayloadAuthKind, type TicketPayloadV2 } from '../../src/lib/ticket-payload';
+import { getScannerBundle, syncCheckIns, type CheckInConflict } from './api';
+import type { SignedCheckIn } from './device';
+import { idb } from './scannerDb';
+
+export type ScannerBundle = {
+    eventId: string; fetchedAt: number; root: string; depth: number; hashAlgorithm: HashAlgorithm; derivation: TicketDerivation; maxAgeMs: number;
+    leaves: string[]; leafTiers?: number[]; nullifiers: string[]; tiers: Array<{ id: number; name: string }>;
+    payloadKey?: { kind: PayloadAuthKind; publicKey: string | null }; // absent in bundles from before v2 payloads
+};
+export type QueuedCheckIn = {
+    id: string; eventId: string; secret: string; issuedAt: number; tier: number; requiredTier?: number;
+    payload?: string; nullifier: string; device?: SignedCheckIn; scannedAt: number;
+};
+export type SyncResult = {
+    id: string; status: 'recorded' | 'conflict' | 'rejected' | 'retry'; nullifier?: string; reason?: string; conflict?: CheckInConflict;
+};
+export type OfflineVerdict = { ok: true; nullifier: string; index: number } | { ok: false; reason: string; nullifier?: string };
+
+// What /checkins/sync takes per call
+const SYNC_BATCH = 500;
+
+export async function downloadBundle(eventId: string): Promise<ScannerBundle> {
+    const bundle = await getScannerBundle(eventId);
+    await idb('bundles', 'readwrite', s => s.put(bundle));
+    return bundle;
+}
+
+export async function loadBundle(eventId: string): Promise<ScannerBundle | null> {
+    return (await idb<ScannerBundle | undefined>('bundles', 'readonly', s => s.get(eventId))) ?? null;
+}
+
+// Oldest first; all events unless one is given
+export async function queuedCheckIns(eventId?: string): Promise<QueuedCheckIn[]> {
+    const all = await idb<QueuedCheckIn[]>('queue', 'readonly', s => s.getAll());
+    return all.filter(q => !eventId || q.eventId === eventId).sort((a, b) => a.scannedAt - b.scannedAt);
+}
+
+// The bundle's tree and issuer key are loaded once per download, not per scan
+type Prepared = { fetchedAt: number; hash: HashFunction; tree: MerkleTree; spent: Set<string>; issuerKey: CryptoKey | null };
+const prepared = new Map<string, Prepared>();
+
+async function prepare(bundle: ScannerBundle): Promise<Prepared> {
+    const cached = prepared.get(bundle.eventId);
+    if (cached && cached.fetchedAt === bundle.fetchedAt) return cached;
+    const hash = await loadHashFunction(bundle.hashAlgorithm);
+    const tree = new MerkleTree(bundle.depth, bundle.leaves, hash);
+    if (tree.getRoot() !== bundle.root) throw new Error('Offline bundle is inconsistent (its leaves do not give its root); download it again');
+    const publicKey = bundle.payloadKey?.publicKey;
+    const issuerKey = publicKey
+        ? await crypto.subtle.importKey('spki', new Uint8Array(base64urlDecode(publicKey)), { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify'])
+        : null;
+    const entry = { fetchedAt: bundle.fetchedAt, hash, tree, spent: new Set(bundle.nullifiers), issuerKey };
+    prepared.set(bundle.eventId, entry);
+    return entry;
+}
+
+// The v2 checks /record-nullifier makes, as far as a scanner can: the event, the signature (MAC
+// tags pass here and are checked on sync) and the embedded proof
+async function checkPayloadV2(bundle: ScannerBundle, { issuerKey, hash }: Prepared, ticket: TicketPayloadV2, leaf: string): Promise<string | null> {
+    if (ticket.eventId !== bundle.eventId) return `Ticket is for event "${ticket.eventId}", not "${bundle.eventId}"`;
+    if (bundle.payloadKey && ticket.auth.kind !== bundle.payloadKey.kind) return 'Ticket payload was altered or not issued by this issuer';
+    if (issuerKey && ticket.auth.kind === 'sig') {
+        const message = issuerMessage({ eventId: ticket.eventId, tier: ticket.tier, index: ticket.index, rootRef: ticket.auth.rootRef, leaf });
+        const ok = await crypto.subtle.verify({ name: 'ECDSA', hash: 'SHA-256' }, issuerKey, new Uint8Array(base64urlDecode(ticket.auth.tag)), new Uint8Array(message));
+        if (!ok) return 'Ticket payload was altered or not issued by this issuer';
+    }
+    if (!payloadProofMatches(ticket, leaf, hash)) return 'Ticket payload proof does not lead to its root';
+    return null;
+}
+
+// The checks /record-nullifier makes, with the same reasons, against the bundle and this device's queue
+export async function checkOffline(bundle: ScannerBundle, ticket: { secret: string; issuedAt: number; tier: number; requiredTier?: number; payload?: string }, now = Date.now()): Promise<OfflineVerdict> {
+    const ready = await prepare(bundle);
+    const { hash, tree, spent } = ready;
+    if (bundle.maxAgeMs && now > ticket.issuedAt + bundle.maxAgeMs) return { ok: false, reason: 'Ticket expired' };
+    const derivation = derivationOf(bundle);
+    // Version 1 trees only hold general admission tickets
+    if (derivation !== TICKET_DERIVATION && ticket.tier !== 0) return { ok: false, reason: 'Ticket not found' };
+    const leaf = leafFromTicket(ticket.secret, ticket.issuedAt, hash, ticket.tier, derivation);
+    const decoded = ticket.payload ? decodeAnyTicketPayload(ticket.payload) : null;
+    if (decoded && isTicketPayloadV2(decoded)) {
+        const tampered = await checkPayloadV2(bundle, ready, decoded, leaf);
+        if (tampered) return { ok: false, reason: tampered };
+    }
+    const index = tree.indexOf(leaf);
+    if (index < 0) return { ok: false, reason: 'Ticket not found' };
+    // The tier stored at issuance, not just the claimed one (leafTiers is absent in older bundles)
+    if (bundle.leafTiers && (bundle.leafTiers[index] ?? 0) !== ticket.tier) return { ok: false, reason: 'Ticket tier does not match the tier it was issued for' };
+    if (!MerkleTree.verify(leaf, tree.getProof(index), bundle.root, hash)) return { ok: false, reason: 'Merkle proof does not verify against the bundle root' };
+    if (ticket.requiredTier != null && ticket.tier !== ticket.requiredTier) {
+        return { ok: false, reason: `Ticket is not ${bundle.tiers.find(t => t.id === ticket.requiredTier)?.name ?? `tier ${ticket.requiredTier}`}` };
+    }
+    const nullifier = nullifierFromSecret(ticket.secret, hash, derivation);
+    if (spent.has(nullifier) || (await queuedCheckIns(bundle.eventId)).some(q => q.nullifier === nullifier)) {
+        return { ok: false, reason: 'Already used', nullifier };
+    }
+    return { ok: true, nullifier, index };
+}
+
+export async function queueCheckIn(item: Omit<QueuedCheckIn, 'id'>): Promise<QueuedCheckIn> {
+    const queued = { ...item, id: crypto.randomUUID() };
+    await idb('queue', 'readwrite', s => s.put(queued));
+    return queued;
+}
+
+// Sends the queue per event, oldest first. Recorded, conflicting and rejected check-ins leave the
+// queue and their nullifiers join the bundle's spent set; those the server asked to retry stay.
+// Throws (queue untouched) when the server is unreachable.
+export async function syncQueue(): Promise<SyncResult[]> {
+    const queue = await queuedCheckIns();
+    const results: SyncResult[] = [];
+    for (const eventId of new Set(queue.map(q => q.eventId))) {
+        const items = queue.filter(q => q.eventId === eventId);
+        for (let i = 0; i < items.length; i += SYNC_BATCH) {
+            const batch = items.slice(i, i + SYNC_BATCH);
+            const synced = await syncCheckIns(eventId, batch.map(({ id, secret, issuedAt, tier, requiredTier, payload, device }) => (payload ? { id, payload, requiredTier, device } : { id, secret, issuedAt, tier, requiredTier, device })));
+            const done = synced.filter(r => r.status !== 'retry');
+            for (const r of done) await idb('queue', 'readwrite', s => s.delete(r.id));
+            const bundle = await loadBundle(eventId);
+            if (bundle) {
+                const spent = new Set(bundle.nullifiers);
+                for (const r of done) if (r.nullifier) { spent.add(r.nullifier); prepared.get(eventId)?.spent.add(r.nullifier); }
+                await idb('bundles', 'readwrite', s => s.put({ ...bundle, nullifiers: [...spent] }));
+            }
+            results.push(...synced);
+        }
+    }
+    return results;
+}
@@ -0,0 +1,36 @@
+// The scanner's IndexedDB database: the device key (device.ts), and the offline bundles and
+// check-in queue (offline.ts). Bump DB_VERSION when adding a store.
+const DB_NAME = 'midnight-scanner';
+const DB_VERSION = 2;
+
+export type ScannerStore = 'keys' | 'bundles' | 'queue';
+
+function openDb(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const req = indexedDB.open(DB_NAME, DB_VERSION);
+        req.onupgradeneeded = () => {
+            const db = req.result;
+            if (!db.objectStoreNames.contains('keys')) db.createObjectStore('keys'); // v1
+            if (!db.objectStoreNames.contains('bundles')) db.createObjectStore('bundles', { keyPath: 'eventId' });
+            if (!db.objectStoreNames.contains('queue')) db.createObjectStore('queue', { keyPath: 'id' });
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+}
+
+// One request in its own transaction; resolves once the transaction has committed
+export async function idb<T>(store: ScannerStore, mode: IDBTransactionMode, fn: (s: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await openDb();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const tx = db.transaction(store, mode);
+            const req = fn(tx.objectStore(store));
+            tx.oncomplete = () => resolve(req.result as T);
+            tx.onerror = () => reject(tx.error ?? req.error);
+            tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+        });
+    } finally {
+        db.close();
+    }
+}
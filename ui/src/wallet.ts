@@ -4,11 +4,25 @@
 export type WalletProvider = {
     connect: () => Promise<void>;
     getAddress: () => Promise<string>; // returns 'unknown' if not provided by API
-    pay: (to: string, amount: number) => Promise<{ txId: string }>;
+    // memo is attached where the wallet supports it; amount is in tDust (decimals allowed)
+    pay: (to: string, amount: number, memo?: string) => Promise<{ txId: string }>;
     raw?: any; // underlying API for advanced use
-    buildAndSubmitPayment?: (to: string, amount: number) => Promise<{ txId: string }>;
+    buildAndSubmitPayment?: (to: string, amount: number, memo?: string) => Promise<{ txId: string }>;
+    // Signs a text message with the wallet's signing key (admin/scanner sign-in); throws if unsupported
+    signData: (message: string) => Promise<{ signature: string; verifyingKey: string }>;
 };
 
+// What /api/payment-intent returns: pay exactly `amountTdust` to `payTo`, then redeem with intentId
+export type PaymentIntent = { intentId: string; payTo: string; amount: string; amountTdust: string; memo: string; tier: number; expiresAt: number };
+
+// Pays an intent with its binding: the exact nonce-carrying amount, and the memo when supported.
+// Rounding the amount would break the binding, so callers must not adjust it.
+export async function payForIntent(wallet: WalletProvider, intent: PaymentIntent): Promise<{ txId: string }> {
+    const amount = Number(intent.amountTdust);
+    if (wallet.buildAndSubmitPayment) return wallet.buildAndSubmitPayment(intent.payTo, amount, intent.memo);
+    return wallet.pay(intent.payTo, amount, intent.memo);
+}
+
 type AnyWallet = any;
 
 function pickGlobal(): AnyWallet | null {
@@ -107,24 +121,25 @@ export async function detectWallet(): Promise<WalletProvider | null> {
             // Fallback: unknown address; UI can prompt manual entry
             return 'unknown';
         },
-        async pay(to: string, amount: number) {
+        async pay(to: string, amount: number, memo?: string) {
             const a = await ensure();
             if (!a) throw new Error('Wallet API unavailable');
+            const m = memo ? { memo } : {};
             // Try a few naming conventions
             if (typeof a.sendPayment === 'function') {
-                const r = await a.sendPayment({ to, amount });
+                const r = await a.sendPayment({ to, amount, ...m });
                 const txId = r?.txId || r?.txid || r?.id || r;
                 if (!txId) throw new Error('sendPayment returned no txId');
                 return { txId: String(txId) };
             }
             if (typeof a.pay === 'function') {
-                const r = await a.pay({ to, amount });
+                const r = await a.pay({ to, amount, ...m });
                 const txId = r?.txId || r?.txid || r?.id || r;
                 if (!txId) throw new Error('pay returned no txId');
                 return { txId: String(txId) };
             }
             if (a.transaction && typeof a.transaction.send === 'function') {
-                const r = await a.transaction.send({ to, amount });
+                const r = await a.transaction.send({ to, amount, ...m });
                 const txId = r?.txId || r?.txid || r?.id || r;
                 if (!txId) throw new Error('transaction.send returned no txId');
                 return { txId: String(txId) };
@@ -142,8 +157,8 @@ export async function detectWallet(): Promise<WalletProvider | null> {
                     'wallet_pay'
                 ];
                 const paramShapes: any[] = [
-                    { to, amount },
-                    { recipients: [{ to, amount }] }
+                    { to, amount, ...m },
+                    { recipients: [{ to, amount, ...m }] }
                 ];
                 for (const method of methods) {
                     for (const shape of paramShapes) {
@@ -160,7 +175,7 @@ export async function detectWallet(): Promise<WalletProvider | null> {
             // Fallback: attempt generic build + sign + submit if low-level methods exist
             if (typeof a.buildTransaction === 'function' && typeof a.signTransaction === 'function' && typeof a.submitTransaction === 'function') {
                 // Assumed shape; may differ for Lace Midnight Preview (needs adaptation if API docs differ)
-                const tx = await a.buildTransaction({ outputs: [{ to, amount }] });
+                const tx = await a.buildTransaction({ outputs: [{ to, amount, ...m }] });
                 const signed = await a.signTransaction(tx);
                 const submitted = await a.submitTransaction(signed);
                 const txId = submitted?.txId || submitted?.txid || submitted?.id || submitted;
@@ -170,12 +185,12 @@ export async function detectWallet(): Promise<WalletProvider | null> {
             // New: Wallet exposes balance*/prove*/submit* primitives
             if (typeof a.balanceAndProveTransaction === 'function' && typeof a.submitTransaction === 'function') {
                 const shapes: any[] = [
-                    { outputs: [{ to, amount }] },
-                    { outputs: [{ address: to, amount }] },
-                    { transfers: [{ to, amount }] },
-                    { recipients: [{ to, amount }] },
-                    { payments: [{ to, amount }] },
-                    { to, amount }
+                    { outputs: [{ to, amount, ...m }] },
+                    { outputs: [{ address: to, amount, ...m }] },
+                    { transfers: [{ to, amount, ...m }] },
+                    { recipients: [{ to, amount, ...m }] },
+                    { payments: [{ to, amount, ...m }] },
+                    { to, amount, ...m }
                 ];
                 const errors: string[] = [];
                 for (const body of shapes) {
@@ -193,12 +208,12 @@ export async function detectWallet(): Promise<WalletProvider | null> {
             }
             if (typeof a.balanceTransaction === 'function' && typeof a.proveTransaction === 'function' && typeof a.submitTransaction === 'function') {
                 const shapes: any[] = [
-                    { outputs: [{ to, amount }] },
-                    { outputs: [{ address: to, amount }] },
-                    { transfers: [{ to, amount }] },
-                    { recipients: [{ to, amount }] },
-                    { payments: [{ to, amount }] },
-                    { to, amount }
+                    { outputs: [{ to, amount, ...m }] },
+                    { outputs: [{ address: to, amount, ...m }] },
+                    { transfers: [{ to, amount, ...m }] },
+                    { recipients: [{ to, amount, ...m }] },
+                    { payments: [{ to, amount, ...m }] },
+                    { to, amount, ...m }
                 ];
                 const errors: string[] = [];
                 for (const body of shapes) {
@@ -216,18 +231,31 @@ export async function detectWallet(): Promise<WalletProvider | null> {
                 throw new Error('balance+prove+submit failed for candidate shapes: ' + errors.join(' | '));
             }
             throw new Error('Wallet API does not support payment (no sendPayment/pay/transaction.send/request/build-sign-submit)');
+        },
+        async signData(message: string) {
+            const a = await ensure();
+            if (!a) throw new Error('Wallet API unavailable');
+            // Same naming guesswork as pay(): a direct method first, then request()
+            let r: any = null;
+            if (typeof a.signData === 'function') r = await a.signData(message);
+            else if (typeof a.request === 'function') r = await a.request({ method: 'midnight_signData', params: [message] });
+            const signature = r?.signature || (typeof r === 'string' ? r : null);
+            const verifyingKey = r?.verifyingKey || r?.publicKey || r?.verifying_key;
+            if (!signature || !verifyingKey) throw new Error('This wallet cannot sign messages; sign in with an API key instead');
+            return { signature: String(signature), verifyingKey: String(verifyingKey) };
         }
     };
 
     // expose pre-enabled provider by default; will be replaced with { pre, post } after connect()
     (provider as any).raw = g;
     // Expose builder-based path (lazy import) using Midnight SDK if only low-level balance/prove/submit available and direct shapes fail.
-    provider.buildAndSubmitPayment = async (to: string, amount: number) => {
+    provider.buildAndSubmitPayment = async (to: string, amount: number, memo?: string) => {
         const a = await ensure();
         if (!a) throw new Error('Wallet API unavailable');
+        const m = memo ? { memo } : {};
         // If direct pay works, use it.
         try {
-            return await provider.pay(to, amount);
+            return await provider.pay(to, amount, memo);
         } catch { /* fallthrough */ }
         // Attempt SDK draft creation
         try {
@@ -242,8 +270,8 @@ export async function detectWallet(): Promise<WalletProvider | null> {
                 // createBalancedTx usually expects a fully balanced ledger tx; we can't produce that pre-balance.
                 // We'll instead craft a minimal pseudo object for balanceTransaction.
             }
-            // Heuristic minimal draft: { outputs: [{ address: to, amount }] }
-            const draft: any = { outputs: [{ address: to, amount }] };
+            // Heuristic minimal draft: { outputs: [{ address: to, amount, ...m }] }
+            const draft: any = { outputs: [{ address: to, amount, ...m }] };
             // Try balance+prove+submit chain
             if (typeof (a as any).balanceAndProveTransaction === 'function' && typeof (a as any).submitTransaction === 'function') {
                 const proved = await (a as any).balanceAndProveTransaction(draft);